@@ -5,21 +5,53 @@ import UsersPage from './routes/UsersPage'
 import UserDetailPage from './routes/UserDetailPage'
 import CreateUserPage from './routes/CreateUserPage'
 import EditUserPage from './routes/EditUserPage'
+import ReposPage from './routes/ReposPage'
+import CreateRepoPage from './routes/CreateRepoPage'
+import EditRepoPage from './routes/EditRepoPage'
+import ReleasesPage from './routes/ReleasesPage'
+import ReleaseDetailPage from './routes/ReleaseDetailPage'
+import CalendarPage from './routes/CalendarPage'
 import NotFoundPage from './routes/NotFoundPage'
 import Dashboard from "./routes/Dashboard";
+import LoginPage from './routes/LoginPage'
+import RequireAuth from './components/auth/RequireAuth'
+import { UserRole } from './types/user'
+
+// 사용자/저장소 추가·수정 화면은 관리자만
+const adminOnly = (element: React.ReactNode) => (
+  <RequireAuth roles={[UserRole.ADMIN]}>{element}</RequireAuth>
+)
 
 function App() {
   return (
     <Routes>
-      <Route path="/" element={<MainLayout />}>
+      <Route path="/login" element={<LoginPage />} />
+      <Route
+        path="/"
+        element={
+          <RequireAuth>
+            <MainLayout />
+          </RequireAuth>
+        }
+      >
         <Route index element={<HomePage />} />
         <Route path="users">
           <Route index element={<UsersPage />} />
-          <Route path="new" element={<CreateUserPage />} />
+          <Route path="new" element={adminOnly(<CreateUserPage />)} />
           <Route path=":id" element={<UserDetailPage />} />
-          <Route path=":id/edit" element={<EditUserPage />} />
+          <Route path=":id/edit" element={adminOnly(<EditUserPage />)} />
+        </Route>
+        <Route path="repos">
+          <Route index element={<ReposPage />} />
+          <Route path="new" element={adminOnly(<CreateRepoPage />)} />
+          <Route path=":id/edit" element={adminOnly(<EditRepoPage />)} />
+        </Route>
+        <Route path="releases">
+          <Route index element={<ReleasesPage />} />
+          <Route path=":id" element={<ReleaseDetailPage />} />
         </Route>
         <Route path="dashboard" element={<Dashboard />} />
+        <Route path="calendar" element={<CalendarPage />} />
         <Route path="*" element={<NotFoundPage />} />
       </Route>
     </Routes>
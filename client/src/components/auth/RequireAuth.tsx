@@ -0,0 +1,40 @@
+import { ReactNode } from 'react'
+import { Link, Navigate, useLocation } from 'react-router-dom'
+import { useAuth } from '../../hooks/useAuth'
+import { UserRole } from '../../types/user'
+
+interface RequireAuthProps {
+  children: ReactNode
+  // 지정하면 해당 역할의 사용자만 볼 수 있다
+  roles?: UserRole[]
+}
+
+// 로그인하지 않았으면 로그인 화면으로, 역할이 맞지 않으면 권한 없음 안내
+const RequireAuth = ({ children, roles }: RequireAuthProps) => {
+  const { user, loading, hasRole } = useAuth()
+  const location = useLocation()
+
+  if (loading) {
+    return <div className="text-center py-16 text-neutral-500">로딩 중...</div>
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location }} />
+  }
+
+  if (roles && !hasRole(...roles)) {
+    return (
+      <div className="text-center py-16">
+        <h2 className="text-2xl font-semibold text-neutral-700 mb-6">권한이 없습니다</h2>
+        <p className="text-neutral-600 mb-8">이 페이지는 관리자만 사용할 수 있습니다.</p>
+        <Link to="/" className="btn btn-primary">
+          홈으로 돌아가기
+        </Link>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
+
+export default RequireAuth
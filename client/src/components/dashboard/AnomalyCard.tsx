@@ -0,0 +1,92 @@
+import { Link } from 'react-router-dom'
+import { Anomaly } from '../../types/dashboard'
+import Card from './Card'
+import { SEVERITY_COLORS, SEVERITY_LABELS, describeAnomaly } from './anomalies'
+import { ReleaseDrilldown } from './drilldown'
+
+// 표시할 원인 릴리즈 태그 수
+const MAX_TAGS = 5
+
+// burst / drought 특이점 목록
+function AnomalyCard({
+  anomalies,
+  repoLabels,
+  onDrilldown
+}: {
+  anomalies: Anomaly[]
+  repoLabels: Record<string, string>
+  onDrilldown: (drilldown: ReleaseDrilldown) => void
+}) {
+  return (
+    <Card>
+      <h2 style={{ fontSize: 19, fontWeight: 700, marginBottom: 18 }}>
+        특이점 <span style={{ color: '#999', fontWeight: 400 }}>({anomalies.length})</span>
+      </h2>
+      {anomalies.length === 0 ? (
+        <p style={{ color: '#999' }}>감지된 특이점이 없습니다.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+          {anomalies.map(anomaly => (
+            <li
+              key={`${anomaly.kind}:${anomaly.period}:${anomaly.repo}:${anomaly.start}`}
+              style={{ padding: '12px 0', borderBottom: '1px solid #eee' }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+                <span
+                  style={{
+                    fontSize: 12,
+                    fontWeight: 700,
+                    color: '#fff',
+                    background: SEVERITY_COLORS[anomaly.severity],
+                    borderRadius: 999,
+                    padding: '2px 10px'
+                  }}
+                >
+                  {SEVERITY_LABELS[anomaly.severity]}
+                </span>
+                <strong>{anomaly.kind === 'burst' ? '릴리즈 집중' : '릴리즈 공백'}</strong>
+                <span>{repoLabels[anomaly.repo] || anomaly.repo}</span>
+                <span style={{ color: '#555' }}>
+                  {anomaly.start === anomaly.end
+                    ? anomaly.start
+                    : `${anomaly.start} ~ ${anomaly.end}`}
+                </span>
+                <span style={{ color: '#555' }}>{describeAnomaly(anomaly)}</span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onDrilldown({ repo: anomaly.repo, from: anomaly.start, to: anomaly.end })
+                  }
+                  style={{
+                    marginLeft: 'auto',
+                    fontSize: 13,
+                    color: '#0088FE',
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer'
+                  }}
+                >
+                  릴리즈 보기
+                </button>
+              </div>
+              <div style={{ fontSize: 13, color: '#777', marginTop: 6 }}>
+                {anomaly.releases.slice(0, MAX_TAGS).map((release, i) => (
+                  <span key={release.id}>
+                    {i > 0 && ', '}
+                    <Link to={`/releases/${release.id}`} style={{ color: '#555' }}>
+                      {release.tagName}
+                    </Link>
+                  </span>
+                ))}
+                {anomaly.releases.length > MAX_TAGS &&
+                  ` 외 ${anomaly.releases.length - MAX_TAGS}건`}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
+
+export default AnomalyCard
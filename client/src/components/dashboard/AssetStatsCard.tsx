@@ -0,0 +1,112 @@
+import { Link } from 'react-router-dom'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts'
+import { AssetStats } from '../../types/dashboard'
+import { formatBytes } from '../../utils/format'
+import Card from './Card'
+import { colorAt } from './colors'
+
+const PLATFORM_LABELS: Record<string, string> = {
+  macos: 'macOS',
+  windows: 'Windows',
+  linux: 'Linux',
+  android: 'Android',
+  ios: 'iOS',
+  checksum: '체크섬/서명',
+  any: '공통'
+}
+
+const cellStyle = { padding: '6px 12px', textAlign: 'left' as const }
+
+// 첨부파일 크기 추이, 플랫폼별 파일 형식, 첨부파일 없는 릴리즈
+function AssetStatsCard({ stats }: { stats: AssetStats }) {
+  const { withoutAssets } = stats
+  const ratio = withoutAssets.total
+    ? Math.round((withoutAssets.count / withoutAssets.total) * 100)
+    : 0
+
+  return (
+    <Card>
+      <h2 style={{ fontSize: 19, fontWeight: 700, marginBottom: 18 }}>첨부파일 통계</h2>
+      <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>
+        릴리즈당 평균 첨부파일 크기
+      </h3>
+      <ComposedChart width={1060} height={240} data={stats.sizeByPeriod}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="period" />
+        <YAxis yAxisId="size" tickFormatter={value => formatBytes(Number(value))} width={80} />
+        <YAxis yAxisId="assets" orientation="right" allowDecimals={false} />
+        <Tooltip
+          formatter={(value, name) =>
+            name === '평균 크기' ? formatBytes(Number(value)) : String(value)
+          }
+        />
+        <Legend iconType="circle" />
+        <Bar yAxisId="size" dataKey="avgReleaseSize" name="평균 크기" fill={colorAt(0)} />
+        <Line
+          yAxisId="assets"
+          dataKey="assets"
+          name="첨부파일 수"
+          stroke={colorAt(3)}
+          dot={false}
+        />
+      </ComposedChart>
+
+      <div style={{ display: 'flex', gap: 48, flexWrap: 'wrap', marginTop: 24 }}>
+        <div>
+          <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>
+            플랫폼별 많이 쓰는 파일 형식
+          </h3>
+          {stats.typesByPlatform.length === 0 ? (
+            <p style={{ color: '#999' }}>첨부파일이 없습니다.</p>
+          ) : (
+            <table style={{ borderCollapse: 'collapse', fontSize: 14 }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid #eee', color: '#555' }}>
+                  <th style={cellStyle}>플랫폼</th>
+                  <th style={{ ...cellStyle, textAlign: 'right' }}>파일 수</th>
+                  <th style={cellStyle}>형식</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.typesByPlatform.map(row => (
+                  <tr key={row.platform} style={{ borderBottom: '1px solid #f3f3f3' }}>
+                    <td style={cellStyle}>{PLATFORM_LABELS[row.platform] ?? row.platform}</td>
+                    <td style={{ ...cellStyle, textAlign: 'right' }}>{row.total}</td>
+                    <td style={cellStyle}>
+                      {row.types
+                        .map(type => `${type.fileType || '(확장자 없음)'} ${type.count}`)
+                        .join(', ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div>
+          <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>
+            첨부파일 없는 릴리즈{' '}
+            <span style={{ color: '#999', fontWeight: 400 }}>
+              {withoutAssets.count}건 ({ratio}%)
+            </span>
+          </h3>
+          <ul style={{ listStyle: 'none', padding: 0, margin: 0, fontSize: 14 }}>
+            {withoutAssets.recent.map(release => (
+              <li key={release.id} style={{ padding: '4px 0' }}>
+                <Link to={`/releases/${release.id}`} style={{ color: '#0088FE' }}>
+                  {release.tagName}
+                </Link>{' '}
+                <span style={{ color: '#999' }}>
+                  {release.publishedAt ? new Date(release.publishedAt).toLocaleDateString() : '-'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </Card>
+  )
+}
+
+export default AssetStatsCard
@@ -0,0 +1,142 @@
+import { Link } from 'react-router-dom'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts'
+import { AuthorStats } from '../../types/dashboard'
+import Card from './Card'
+import { colorAt } from './colors'
+
+const OTHER_AUTHORS = '__others__'
+
+// 리더보드에 표시할 작성자 수
+const LEADERBOARD_SIZE = 10
+
+const cellStyle = { padding: '6px 12px', textAlign: 'right' as const }
+
+// 작성자 리더보드, 월별 작성자 구성 추이, 저장소별 버스 팩터
+function AuthorStatsCard({
+  stats,
+  repoLabels
+}: {
+  stats: AuthorStats
+  repoLabels: Record<string, string>
+}) {
+  const series = [...stats.topAuthors, OTHER_AUTHORS].filter(author =>
+    stats.monthly.some(month => month.counts[author])
+  )
+
+  return (
+    <Card>
+      <h2 style={{ fontSize: 19, fontWeight: 700, marginBottom: 18 }}>작성자 통계</h2>
+      {stats.leaderboard.length === 0 ? (
+        <p style={{ color: '#999' }}>작성자 정보가 있는 릴리즈가 없습니다.</p>
+      ) : (
+        <>
+          <ComposedChart width={1060} height={260} data={stats.monthly}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="period" />
+            <YAxis yAxisId="releases" allowDecimals={false} />
+            <YAxis yAxisId="releasers" orientation="right" allowDecimals={false} />
+            <Tooltip />
+            <Legend iconType="circle" />
+            {series.map((author, i) => (
+              <Bar
+                key={author}
+                yAxisId="releases"
+                // 로그인에 '[bot]' 같은 문자가 있어 문자열 경로 대신 함수로 값을 읽는다
+                dataKey={(month: AuthorStats['monthly'][number]) => month.counts[author] ?? 0}
+                name={author === OTHER_AUTHORS ? '기타' : author}
+                stackId="author"
+                fill={author === OTHER_AUTHORS ? '#ccc' : colorAt(i)}
+              />
+            ))}
+            <Line
+              yAxisId="releasers"
+              dataKey="releasers"
+              name="작성자 수"
+              stroke={colorAt(4)}
+              dot={false}
+            />
+          </ComposedChart>
+
+          <div style={{ display: 'flex', gap: 48, flexWrap: 'wrap', marginTop: 24 }}>
+            <div>
+              <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>작성자 순위</h3>
+              <table style={{ borderCollapse: 'collapse', fontSize: 14 }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid #eee', color: '#555' }}>
+                    <th style={{ ...cellStyle, textAlign: 'left' }}>작성자</th>
+                    <th style={cellStyle}>릴리즈</th>
+                    <th style={cellStyle}>비율</th>
+                    <th style={cellStyle}>저장소</th>
+                    <th style={cellStyle}>최근 릴리즈</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.leaderboard.slice(0, LEADERBOARD_SIZE).map(row => (
+                    <tr key={row.author} style={{ borderBottom: '1px solid #f3f3f3' }}>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>
+                        {row.userId ? (
+                          <Link to={`/users/${row.userId}`} style={{ color: '#0088FE' }}>
+                            {row.author}
+                          </Link>
+                        ) : (
+                          row.author
+                        )}
+                      </td>
+                      <td style={cellStyle}>{row.releases}</td>
+                      <td style={cellStyle}>{row.share}%</td>
+                      <td style={cellStyle}>{row.repos}</td>
+                      <td style={cellStyle}>
+                        {new Date(row.lastPublishedAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>저장소별 버스 팩터</h3>
+              <table style={{ borderCollapse: 'collapse', fontSize: 14 }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid #eee', color: '#555' }}>
+                    <th style={{ ...cellStyle, textAlign: 'left' }}>저장소</th>
+                    <th style={cellStyle}>작성자 수</th>
+                    <th style={cellStyle}>버스 팩터</th>
+                    <th style={{ ...cellStyle, textAlign: 'left' }}>최다 작성자</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.busFactor.map(row => (
+                    <tr key={row.repo} style={{ borderBottom: '1px solid #f3f3f3' }}>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>
+                        {repoLabels[row.repo] || row.repo}
+                      </td>
+                      <td style={cellStyle}>{row.authors}</td>
+                      <td
+                        style={{
+                          ...cellStyle,
+                          fontWeight: 700,
+                          color: row.busFactor <= 1 ? colorAt(4) : undefined
+                        }}
+                      >
+                        {row.busFactor}
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>
+                        {row.topAuthor} ({row.topAuthorShare}%)
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p style={{ fontSize: 13, color: '#999', marginTop: 8 }}>
+                릴리즈의 절반 이상을 담당하는 최소 작성자 수입니다.
+              </p>
+            </div>
+          </div>
+        </>
+      )}
+    </Card>
+  )
+}
+
+export default AuthorStatsCard
@@ -0,0 +1,161 @@
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceArea,
+  ReferenceLine
+} from 'recharts'
+import { Anomaly, CadenceStats, GapSummary } from '../../types/dashboard'
+import Card from './Card'
+import { SEVERITY_COLORS, nearestPoint } from './anomalies'
+import { colorAt } from './colors'
+
+const formatDays = (days: number | null) => (days === null ? '-' : `${days}일`)
+
+const bucketLabel = (minDays: number, maxDays: number | null) =>
+  maxDays === null ? `${minDays}일 이상` : `${minDays}~${maxDays}일`
+
+const SUMMARY_FIELDS: { key: keyof GapSummary; label: string }[] = [
+  { key: 'median', label: '중앙값' },
+  { key: 'p90', label: 'P90' },
+  { key: 'min', label: '최소' },
+  { key: 'max', label: '최대' }
+]
+
+const cellStyle = { padding: '6px 12px', textAlign: 'right' as const }
+
+// 저장소별 릴리즈 간격 추이(30/90일 롤링 평균)와 분포
+// 특이점은 추이 차트에 burst는 세로선, drought는 음영 구간으로 표시한다
+function CadenceCard({
+  cadence,
+  repoLabels,
+  anomalies = []
+}: {
+  cadence: CadenceStats
+  repoLabels: Record<string, string>
+  anomalies?: Anomaly[]
+}) {
+  const points = cadence.rolling.map(point => point.date)
+  const histogram = cadence.histogram.map(bucket => ({
+    label: bucketLabel(bucket.minDays, bucket.maxDays),
+    count: bucket.count
+  }))
+
+  return (
+    <Card>
+      <h2 style={{ fontSize: 19, fontWeight: 700, marginBottom: 18 }}>릴리즈 주기 추이</h2>
+      {cadence.summary.count === 0 ? (
+        <p style={{ color: '#999' }}>간격을 계산할 릴리즈가 부족합니다.</p>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: 48, marginBottom: 24 }}>
+            {SUMMARY_FIELDS.map(field => (
+              <div key={field.key}>
+                <div style={{ fontSize: 14, color: '#555' }}>{field.label}</div>
+                <div style={{ fontSize: 26, fontWeight: 900, color: colorAt(0) }}>
+                  {formatDays(cadence.summary[field.key])}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: 32, flexWrap: 'wrap' }}>
+            <div>
+              <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>
+                평균 간격 롤링 추이
+              </h3>
+              <LineChart width={620} height={240} data={cadence.rolling}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" minTickGap={40} />
+                <YAxis unit="일" />
+                <Tooltip formatter={value => `${value}일`} />
+                <Legend iconType="circle" />
+                {anomalies.map(anomaly =>
+                  anomaly.kind === 'drought' ? (
+                    <ReferenceArea
+                      key={`drought:${anomaly.repo}:${anomaly.start}`}
+                      x1={nearestPoint(points, anomaly.start)}
+                      x2={nearestPoint(points, anomaly.end)}
+                      fill={SEVERITY_COLORS[anomaly.severity]}
+                      fillOpacity={0.12}
+                    />
+                  ) : (
+                    <ReferenceLine
+                      key={`burst:${anomaly.period}:${anomaly.repo}:${anomaly.start}`}
+                      x={nearestPoint(points, anomaly.start)}
+                      stroke={SEVERITY_COLORS[anomaly.severity]}
+                      strokeDasharray="4 4"
+                    />
+                  )
+                )}
+                <Line
+                  dataKey="rolling30"
+                  name="30일 평균"
+                  stroke={colorAt(0)}
+                  dot={false}
+                  connectNulls
+                />
+                <Line
+                  dataKey="rolling90"
+                  name="90일 평균"
+                  stroke={colorAt(3)}
+                  dot={false}
+                  connectNulls
+                />
+              </LineChart>
+            </div>
+            <div>
+              <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>간격 분포</h3>
+              <BarChart width={400} height={240} data={histogram}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" interval={0} angle={-30} textAnchor="end" height={60} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="count" name="간격 수" fill={colorAt(1)} radius={[7, 7, 0, 0]} />
+              </BarChart>
+            </div>
+          </div>
+
+          {cadence.repos.length > 1 && (
+            <table style={{ marginTop: 24, borderCollapse: 'collapse', fontSize: 14 }}>
+              <thead>
+                <tr style={{ borderBottom: '1px solid #eee', color: '#555' }}>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>저장소</th>
+                  <th style={cellStyle}>간격 수</th>
+                  {SUMMARY_FIELDS.map(field => (
+                    <th key={field.key} style={cellStyle}>
+                      {field.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {cadence.repos.map(repo => (
+                  <tr key={repo.repo} style={{ borderBottom: '1px solid #f3f3f3' }}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>
+                      {repoLabels[repo.repo] || repo.repo}
+                    </td>
+                    <td style={cellStyle}>{repo.count}</td>
+                    {SUMMARY_FIELDS.map(field => (
+                      <td key={field.key} style={cellStyle}>
+                        {formatDays(repo[field.key])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </Card>
+  )
+}
+
+export default CadenceCard
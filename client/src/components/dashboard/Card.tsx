@@ -0,0 +1,38 @@
+import React, { useEffect, useRef, useState } from 'react'
+import ChartDownloadMenu from './ChartDownloadMenu'
+import { CHART_SELECTOR } from './chartImage'
+
+// 대시보드 카드 컨테이너
+// 안에 차트가 있으면 이미지 다운로드 메뉴를 표시한다
+function Card({ children }: { children: React.ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [hasChart, setHasChart] = useState(false)
+
+  // 차트는 데이터에 따라 나타나거나 사라지므로 렌더링마다 확인
+  useEffect(() => {
+    setHasChart(Boolean(ref.current?.querySelector(CHART_SELECTOR)))
+  })
+
+  return (
+    <div
+      ref={ref}
+      style={{
+        position: 'relative',
+        background: '#fafbfc',
+        borderRadius: 16,
+        boxShadow: '0 2px 12px #0001',
+        padding: 28,
+        minHeight: 350,
+        width: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'center'
+      }}
+    >
+      {hasChart && <ChartDownloadMenu cardRef={ref} />}
+      {children}
+    </div>
+  )
+}
+
+export default Card
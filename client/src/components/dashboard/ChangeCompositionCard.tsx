@@ -0,0 +1,26 @@
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts'
+import { ChangeCompositionStat } from '../../types/dashboard'
+import Card from './Card'
+import { colorAt } from './colors'
+
+// 릴리즈 노트에서 추출한 기능/수정/브레이킹 변경의 월별 구성
+function ChangeCompositionCard({ data }: { data: ChangeCompositionStat[] }) {
+  return (
+    <Card>
+      <h2 style={{ fontSize: 19, fontWeight: 700, marginBottom: 18 }}>변경 구성 추이</h2>
+      <ComposedChart width={1060} height={260} data={data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="period" />
+        <YAxis allowDecimals={false} />
+        <Tooltip />
+        <Legend iconType="circle" />
+        <Bar dataKey="features" name="기능" stackId="change" fill={colorAt(1)} />
+        <Bar dataKey="fixes" name="수정" stackId="change" fill={colorAt(0)} />
+        <Bar dataKey="breakingChanges" name="브레이킹" stackId="change" fill={colorAt(4)} />
+        <Line dataKey="pullRequests" name="참조 PR" stroke={colorAt(5)} dot={false} />
+      </ComposedChart>
+    </Card>
+  )
+}
+
+export default ChangeCompositionCard
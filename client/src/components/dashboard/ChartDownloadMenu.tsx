@@ -0,0 +1,89 @@
+import { RefObject, useContext, useState } from 'react'
+import { downloadBlob } from '../../utils/download'
+import { ChartFilterContext, buildChartImage, svgToPng } from './chartImage'
+
+type ImageFormat = 'svg' | 'png'
+
+const menuItemStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  padding: '6px 16px',
+  fontSize: 14,
+  textAlign: 'left',
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+  whiteSpace: 'nowrap'
+}
+
+// 카드의 차트를 제목/필터와 함께 SVG 또는 PNG로 저장하는 메뉴
+function ChartDownloadMenu({ cardRef }: { cardRef: RefObject<HTMLDivElement> }) {
+  const filterLabel = useContext(ChartFilterContext)
+  const [open, setOpen] = useState(false)
+
+  const download = async (format: ImageFormat) => {
+    setOpen(false)
+    const card = cardRef.current
+    if (!card) return
+
+    const title = card.querySelector('h2')?.textContent?.trim() || '차트'
+    const image = buildChartImage(card, title, filterLabel)
+    if (!image) return
+
+    const filename = `${title.replace(/[\s/\\:*?"<>|]+/g, '-')}.${format}`
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), filename)
+      } else {
+        downloadBlob(await svgToPng(image.svg, image.width, image.height), filename)
+      }
+    } catch (err) {
+      console.error('Failed to download chart:', err)
+      alert('차트 이미지를 저장하는데 실패했습니다.')
+    }
+  }
+
+  return (
+    <div style={{ position: 'absolute', top: 16, right: 16 }}>
+      <button
+        type="button"
+        aria-label="차트 다운로드"
+        onClick={() => setOpen(value => !value)}
+        style={{
+          fontSize: 13,
+          color: '#555',
+          padding: '2px 10px',
+          borderRadius: 7,
+          border: '1px solid #ddd',
+          background: '#fff',
+          cursor: 'pointer'
+        }}
+      >
+        다운로드 ▾
+      </button>
+      {open && (
+        <div
+          style={{
+            position: 'absolute',
+            right: 0,
+            marginTop: 4,
+            background: '#fff',
+            borderRadius: 8,
+            boxShadow: '0 2px 12px #0002',
+            padding: '4px 0',
+            zIndex: 10
+          }}
+        >
+          <button type="button" style={menuItemStyle} onClick={() => download('png')}>
+            PNG 이미지
+          </button>
+          <button type="button" style={menuItemStyle} onClick={() => download('svg')}>
+            SVG 이미지
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ChartDownloadMenu
@@ -0,0 +1,238 @@
+import { useState } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts'
+import { DashboardComparison } from '../../types/dashboard'
+import Card from './Card'
+import { colorAt } from './colors'
+import { ReleaseDrilldown } from './drilldown'
+
+interface ComparisonViewProps {
+  comparison: DashboardComparison
+  repoLabels: Record<string, string>
+  allYears: string[]
+  selectedYear: string
+  onYearChange: (year: string) => void
+  onDrilldown: (drilldown: ReleaseDrilldown) => void
+}
+
+const titleStyle: React.CSSProperties = { fontSize: 19, fontWeight: 700, marginBottom: 18 }
+
+const cellStyle: React.CSSProperties = {
+  padding: '10px 14px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'right'
+}
+
+// 저장소별 시리즈 막대 차트 (그룹/스택)
+function RepoSeriesBarChart({
+  data,
+  xKey,
+  repos,
+  repoLabels,
+  stacked,
+  onBarClick
+}: {
+  data: { counts: Record<string, number> }[]
+  xKey: string
+  repos: string[]
+  repoLabels: Record<string, string>
+  stacked: boolean
+  onBarClick: (repo: string, x: string) => void
+}) {
+  return (
+    <BarChart width={480} height={240} data={data}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis dataKey={xKey} />
+      <YAxis allowDecimals={false} />
+      <Tooltip />
+      <Legend iconType="circle" />
+      {repos.map((repo, idx) => (
+        <Bar
+          key={repo}
+          // 저장소 이름에 '.'이 들어갈 수 있어 경로 문자열 대신 함수로 값을 꺼낸다
+          dataKey={(row: { counts: Record<string, number> }) => row.counts[repo] ?? 0}
+          name={repoLabels[repo] ?? repo}
+          stackId={stacked ? 'repo' : undefined}
+          fill={colorAt(idx)}
+          cursor="pointer"
+          onClick={bar => onBarClick(repo, bar.payload[xKey])}
+        />
+      ))}
+    </BarChart>
+  )
+}
+
+// 저장소 비교 모드 화면
+function ComparisonView({
+  comparison,
+  repoLabels,
+  allYears,
+  selectedYear,
+  onYearChange,
+  onDrilldown
+}: ComparisonViewProps) {
+  const [stacked, setStacked] = useState(false)
+  const label = (repo: string) => repoLabels[repo] ?? repo
+
+  const releaseTypeData = comparison.repoStats.map(stat => ({
+    fullName: stat.repo,
+    repo: label(stat.repo),
+    Release: stat.releaseTypes.release,
+    Prerelease: stat.releaseTypes.prerelease,
+    Draft: stat.releaseTypes.draft
+  }))
+
+  const intervalData = comparison.repoStats.map(stat => ({
+    repo: label(stat.repo),
+    days: stat.avgReleaseInterval,
+    workingDays: stat.avgWorkingDayInterval
+  }))
+
+  return (
+    <>
+      <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: 16 }}>
+        <label style={{ fontSize: 14, color: '#555', display: 'flex', alignItems: 'center' }}>
+          <input
+            type="checkbox"
+            checked={stacked}
+            onChange={e => setStacked(e.target.checked)}
+            style={{ marginRight: 6 }}
+          />
+          누적 막대로 보기
+        </label>
+      </div>
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr',
+          gap: 32,
+          alignItems: 'stretch'
+        }}
+      >
+        <Card>
+          <h2 style={titleStyle}>저장소별 연도별 릴리즈 수</h2>
+          <RepoSeriesBarChart
+            data={comparison.yearStats}
+            xKey="year"
+            repos={comparison.repos}
+            repoLabels={repoLabels}
+            stacked={stacked}
+            onBarClick={(repo, year) => onDrilldown({ repo, year })}
+          />
+        </Card>
+        <Card>
+          <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+            <h2 style={{ ...titleStyle, margin: 0, marginRight: 16 }}>
+              {selectedYear}년 저장소별 월별 릴리즈 수
+            </h2>
+            <select
+              style={{
+                fontSize: 16,
+                padding: '2px 12px',
+                borderRadius: 7,
+                border: '1px solid #eee'
+              }}
+              value={selectedYear}
+              onChange={e => onYearChange(e.target.value)}
+            >
+              {allYears.map(y => (
+                <option key={y} value={y}>
+                  {y}년
+                </option>
+              ))}
+            </select>
+          </div>
+          <RepoSeriesBarChart
+            data={comparison.monthStats[selectedYear] || []}
+            xKey="month"
+            repos={comparison.repos}
+            repoLabels={repoLabels}
+            stacked={stacked}
+            onBarClick={(repo, month) => onDrilldown({ repo, year: selectedYear, month })}
+          />
+        </Card>
+        <Card>
+          <h2 style={titleStyle}>저장소별 릴리즈 유형 비율</h2>
+          <BarChart width={480} height={240} data={releaseTypeData} layout="vertical">
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" allowDecimals={false} />
+            <YAxis type="category" dataKey="repo" width={120} />
+            <Tooltip />
+            <Legend iconType="circle" />
+            <Bar
+              dataKey="Release"
+              stackId="type"
+              fill={colorAt(0)}
+              cursor="pointer"
+              onClick={bar => onDrilldown({ repo: bar.payload.fullName, type: 'Release' })}
+            />
+            <Bar
+              dataKey="Prerelease"
+              stackId="type"
+              fill={colorAt(1)}
+              cursor="pointer"
+              onClick={bar => onDrilldown({ repo: bar.payload.fullName, type: 'Prerelease' })}
+            />
+            <Bar
+              dataKey="Draft"
+              stackId="type"
+              fill={colorAt(2)}
+              cursor="pointer"
+              onClick={bar => onDrilldown({ repo: bar.payload.fullName, type: 'Draft' })}
+            />
+          </BarChart>
+        </Card>
+        <Card>
+          <h2 style={titleStyle}>저장소별 평균 릴리즈 간격 (일)</h2>
+          <BarChart width={480} height={240} data={intervalData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="repo" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Legend iconType="circle" />
+            <Bar dataKey="days" name="달력일" fill={colorAt(3)} radius={[7, 7, 0, 0]} />
+            <Bar dataKey="workingDays" name="근무일" fill={colorAt(4)} radius={[7, 7, 0, 0]} />
+          </BarChart>
+        </Card>
+      </div>
+      <div style={{ marginTop: 32 }}>
+        <Card>
+          <h2 style={titleStyle}>저장소 비교표</h2>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 15 }}>
+            <thead>
+              <tr style={{ color: '#555' }}>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>저장소</th>
+                <th style={cellStyle}>전체</th>
+                <th style={cellStyle}>Release</th>
+                <th style={cellStyle}>Prerelease</th>
+                <th style={cellStyle}>Draft</th>
+                <th style={cellStyle}>평균 간격</th>
+                <th style={cellStyle}>근무일 간격</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.repoStats.map(stat => (
+                <tr key={stat.repo}>
+                  <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 700 }}>
+                    {label(stat.repo)}
+                  </td>
+                  <td style={cellStyle}>{stat.total}</td>
+                  <td style={cellStyle}>{stat.releaseTypes.release}</td>
+                  <td style={cellStyle}>{stat.releaseTypes.prerelease}</td>
+                  <td style={cellStyle}>{stat.releaseTypes.draft}</td>
+                  <td style={cellStyle}>
+                    {stat.avgReleaseInterval ? `${stat.avgReleaseInterval}일` : '데이터 부족'}
+                  </td>
+                  <td style={cellStyle}>
+                    {stat.avgReleaseInterval ? `${stat.avgWorkingDayInterval}일` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      </div>
+    </>
+  )
+}
+
+export default ComparisonView
@@ -0,0 +1,44 @@
+import { useState } from 'react'
+
+// 복사 완료 표시 유지 시간 (ms)
+const COPIED_DURATION = 2000
+
+// 현재 대시보드 화면(URL)을 클립보드에 복사
+function CopyLinkButton() {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    const url = window.location.href
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), COPIED_DURATION)
+    } catch (err) {
+      // 클립보드를 쓸 수 없는 환경(http 등)에서는 직접 복사하도록 보여준다
+      console.error('Failed to copy link:', err)
+      window.prompt('아래 링크를 복사하세요.', url)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      style={{
+        fontSize: 15,
+        fontWeight: 700,
+        padding: '8px 16px',
+        marginBottom: 16,
+        borderRadius: 8,
+        border: '1px solid #0088FE',
+        background: '#fff',
+        color: '#0088FE',
+        cursor: 'pointer'
+      }}
+    >
+      {copied ? '복사됨' : '링크 복사'}
+    </button>
+  )
+}
+
+export default CopyLinkButton
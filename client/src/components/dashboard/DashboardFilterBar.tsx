@@ -0,0 +1,136 @@
+import { Repo } from '../../types/repo'
+import { DashboardFilters } from '../../types/dashboard'
+
+interface DashboardFilterBarProps {
+  repos: Repo[]
+  filters: DashboardFilters
+  // 현재 통계에 적용된 시간대
+  timezone: string
+  onChange: (filters: DashboardFilters) => void
+}
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+  fontSize: 14,
+  padding: '4px 12px',
+  borderRadius: 999,
+  border: `1px solid ${active ? '#0088FE' : '#ddd'}`,
+  background: active ? '#0088FE' : '#fff',
+  color: active ? '#fff' : '#333',
+  cursor: 'pointer'
+})
+
+// 자주 쓰는 시간대 + 브라우저 시간대
+const TIMEZONE_OPTIONS = [
+  ...new Set(['UTC', 'Asia/Seoul', Intl.DateTimeFormat().resolvedOptions().timeZone])
+]
+
+const inputStyle: React.CSSProperties = {
+  fontSize: 14,
+  padding: '3px 8px',
+  borderRadius: 7,
+  border: '1px solid #ddd'
+}
+
+// 저장소 다중 선택 + 기간 선택 + 집계 시간대 + 주말 포함 여부 필터
+function DashboardFilterBar({ repos, filters, timezone, onChange }: DashboardFilterBarProps) {
+  const toggleRepo = (fullName: string) => {
+    const selected = filters.repos.includes(fullName)
+      ? filters.repos.filter(r => r !== fullName)
+      : [...filters.repos, fullName]
+    onChange({ ...filters, repos: selected })
+  }
+
+  const isFiltered =
+    filters.repos.length > 0 || filters.from || filters.to || filters.tz || filters.includeWeekends
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 16,
+        background: '#fff',
+        borderRadius: 12,
+        boxShadow: '0 1px 6px #0001',
+        padding: '14px 20px',
+        marginBottom: 24
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8 }}>
+        <span style={{ fontSize: 14, fontWeight: 700, color: '#555' }}>저장소</span>
+        <button
+          type="button"
+          style={chipStyle(filters.repos.length === 0)}
+          onClick={() => onChange({ ...filters, repos: [] })}
+        >
+          전체
+        </button>
+        {repos.map(repo => (
+          <button
+            key={repo.id}
+            type="button"
+            style={chipStyle(filters.repos.includes(repo.fullName))}
+            onClick={() => toggleRepo(repo.fullName)}
+            title={repo.fullName}
+          >
+            {repo.displayName || repo.fullName}
+          </button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <span style={{ fontSize: 14, fontWeight: 700, color: '#555' }}>기간</span>
+        <input
+          type="date"
+          style={inputStyle}
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={e => onChange({ ...filters, from: e.target.value })}
+        />
+        <span style={{ color: '#999' }}>~</span>
+        <input
+          type="date"
+          style={inputStyle}
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={e => onChange({ ...filters, to: e.target.value })}
+        />
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <span style={{ fontSize: 14, fontWeight: 700, color: '#555' }}>시간대</span>
+        <select
+          style={inputStyle}
+          value={filters.tz}
+          onChange={e => onChange({ ...filters, tz: e.target.value })}
+        >
+          <option value="">기본값{!filters.tz && timezone ? ` (${timezone})` : ''}</option>
+          {TIMEZONE_OPTIONS.map(tz => (
+            <option key={tz} value={tz}>
+              {tz}
+            </option>
+          ))}
+        </select>
+      </div>
+      <label style={{ fontSize: 14, color: '#555', display: 'flex', alignItems: 'center' }}>
+        <input
+          type="checkbox"
+          checked={filters.includeWeekends}
+          onChange={e => onChange({ ...filters, includeWeekends: e.target.checked })}
+          style={{ marginRight: 6 }}
+        />
+        주말 포함
+      </label>
+      {isFiltered && (
+        <button
+          type="button"
+          style={{ ...chipStyle(false), marginLeft: 'auto' }}
+          onClick={() => onChange({ repos: [], from: '', to: '', tz: '', includeWeekends: false })}
+        >
+          필터 초기화
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default DashboardFilterBar
@@ -0,0 +1,298 @@
+import { useEffect, useRef, useState } from 'react'
+import { dashboardViewService } from '../../services/api'
+import { useAuth } from '../../hooks/useAuth'
+import { DashboardFilters } from '../../types/dashboard'
+import { DashboardView, DashboardViewFilters } from '../../types/dashboardView'
+import { UserRole } from '../../types/user'
+import {
+  DASHBOARD_CARDS,
+  DEFAULT_CARD_IDS,
+  DashboardCardId,
+  isDashboardCardId
+} from './dashboardCards'
+import { DashboardViewState } from './urlState'
+
+interface DashboardViewBarProps {
+  view: DashboardViewState
+  // URL에 화면 상태가 없을 때(처음 연 대시보드)만 기본 뷰를 적용한다
+  applyDefault: boolean
+  onApply: (view: DashboardViewState, options?: { replace: boolean }) => void
+}
+
+const inputStyle: React.CSSProperties = {
+  fontSize: 14,
+  padding: '3px 8px',
+  borderRadius: 7,
+  border: '1px solid #ddd'
+}
+
+const buttonStyle: React.CSSProperties = {
+  fontSize: 14,
+  padding: '4px 12px',
+  borderRadius: 7,
+  border: '1px solid #ddd',
+  background: '#fff',
+  cursor: 'pointer'
+}
+
+const toFilters = (filters: DashboardViewFilters): DashboardFilters => ({
+  repos: filters.repos,
+  from: filters.from ?? '',
+  to: filters.to ?? '',
+  tz: filters.tz ?? '',
+  includeWeekends: filters.includeWeekends ?? false
+})
+
+const toViewFilters = (filters: DashboardFilters): DashboardViewFilters => ({
+  repos: filters.repos,
+  from: filters.from || undefined,
+  to: filters.to || undefined,
+  tz: filters.tz || undefined,
+  includeWeekends: filters.includeWeekends
+})
+
+// 모든 카드를 기본 순서로 보여주면 빈 배열로 저장한다
+const normalizeCards = (cards: DashboardCardId[]) =>
+  cards.join(',') === DEFAULT_CARD_IDS.join(',') ? [] : cards
+
+// 로그인한 사용자의 저장된 대시보드 뷰 선택/저장 + 카드 표시/순서 편집
+function DashboardViewBar({ view, applyDefault, onApply }: DashboardViewBarProps) {
+  const { user, hasRole } = useAuth()
+  // GUEST는 저장된 뷰를 고르거나 카드를 편집할 수만 있다
+  const canSave = hasRole(UserRole.ADMIN, UserRole.USER)
+  const [views, setViews] = useState<DashboardView[]>([])
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [editingCards, setEditingCards] = useState(false)
+  const defaultApplied = useRef(false)
+
+  const selected = views.find(v => v.id === selectedId) ?? null
+  const visibleCards = view.cards.length ? view.cards : DEFAULT_CARD_IDS
+  const hiddenCards = DEFAULT_CARD_IDS.filter(id => !visibleCards.includes(id))
+
+  useEffect(() => {
+    if (!user) return
+    setSelectedId(null)
+    dashboardViewService
+      .getAll()
+      .then(list => {
+        setViews(list)
+        // 처음 연 대시보드에는 기본 뷰를 한 번만 적용
+        const defaultView = list.find(v => v.isDefault)
+        if (applyDefault && defaultView && !defaultApplied.current) {
+          setSelectedId(defaultView.id)
+          applyView(defaultView, true)
+        }
+        defaultApplied.current = true
+      })
+      .catch(err => console.error('Failed to fetch dashboard views:', err))
+  }, [user?.id])
+
+  const applyView = (saved: DashboardView, replace = false) =>
+    onApply(
+      {
+        ...view,
+        filters: toFilters(saved.filters),
+        // 더 이상 없는 카드 id는 버린다
+        cards: saved.cards.filter(isDashboardCardId)
+      },
+      { replace }
+    )
+
+  const handleSelect = (id: string) => {
+    const saved = views.find(v => v.id === Number(id))
+    setSelectedId(saved?.id ?? null)
+    if (saved) applyView(saved)
+  }
+
+  const replaceView = (updated: DashboardView) =>
+    setViews(prev =>
+      prev.map(v =>
+        v.id === updated.id ? updated : updated.isDefault ? { ...v, isDefault: false } : v
+      )
+    )
+
+  const handleSaveAs = async () => {
+    const name = window.prompt('저장할 뷰 이름을 입력하세요.', selected?.name ?? '')?.trim()
+    if (!name) return
+    try {
+      const created = await dashboardViewService.create({
+        name,
+        filters: toViewFilters(view.filters),
+        cards: view.cards
+      })
+      setViews(prev => [...prev, created])
+      setSelectedId(created.id)
+    } catch (err) {
+      console.error('Failed to save dashboard view:', err)
+      alert('뷰 저장에 실패했습니다. 같은 이름의 뷰가 있는지 확인해주세요.')
+    }
+  }
+
+  const handleOverwrite = async () => {
+    if (!selected) return
+    try {
+      replaceView(
+        await dashboardViewService.update(selected.id, {
+          filters: toViewFilters(view.filters),
+          cards: view.cards
+        })
+      )
+    } catch (err) {
+      console.error('Failed to update dashboard view:', err)
+      alert('뷰 수정에 실패했습니다.')
+    }
+  }
+
+  const handleToggleDefault = async () => {
+    if (!selected) return
+    try {
+      replaceView(
+        await dashboardViewService.update(selected.id, { isDefault: !selected.isDefault })
+      )
+    } catch (err) {
+      console.error('Failed to update dashboard view:', err)
+      alert('기본 뷰 지정에 실패했습니다.')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`'${selected.name}' 뷰를 삭제하시겠습니까?`)) return
+    try {
+      await dashboardViewService.delete(selected.id)
+      setViews(prev => prev.filter(v => v.id !== selected.id))
+      setSelectedId(null)
+    } catch (err) {
+      console.error('Failed to delete dashboard view:', err)
+      alert('뷰 삭제에 실패했습니다.')
+    }
+  }
+
+  const setCards = (cards: DashboardCardId[]) => onApply({ ...view, cards: normalizeCards(cards) })
+
+  const toggleCard = (id: DashboardCardId) =>
+    setCards(
+      visibleCards.includes(id) ? visibleCards.filter(card => card !== id) : [...visibleCards, id]
+    )
+
+  const moveCard = (index: number, offset: number) => {
+    const next = [...visibleCards]
+    const [card] = next.splice(index, 1)
+    next.splice(index + offset, 0, card)
+    setCards(next)
+  }
+
+  const cardLabel = (id: DashboardCardId) => DASHBOARD_CARDS.find(card => card.id === id)!.label
+
+  return (
+    <div
+      style={{
+        background: '#fff',
+        borderRadius: 12,
+        boxShadow: '0 1px 6px #0001',
+        padding: '14px 20px',
+        marginBottom: 16
+      }}
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8 }}>
+        <span style={{ fontSize: 14, fontWeight: 700, color: '#555' }}>저장된 뷰</span>
+        <select
+          value={selectedId ?? ''}
+          onChange={e => handleSelect(e.target.value)}
+          style={inputStyle}
+          aria-label="대시보드 뷰"
+        >
+          <option value="">뷰 선택</option>
+          {views.map(v => (
+            <option key={v.id} value={v.id}>
+              {v.isDefault ? `★ ${v.name}` : v.name}
+            </option>
+          ))}
+        </select>
+        {canSave && (
+          <button type="button" style={buttonStyle} onClick={handleSaveAs}>
+            새 뷰로 저장
+          </button>
+        )}
+        {canSave && selected && (
+          <>
+            <button type="button" style={buttonStyle} onClick={handleOverwrite}>
+              현재 화면으로 덮어쓰기
+            </button>
+            <button type="button" style={buttonStyle} onClick={handleToggleDefault}>
+              {selected.isDefault ? '기본 뷰 해제' : '기본 뷰로 지정'}
+            </button>
+            <button
+              type="button"
+              style={{ ...buttonStyle, color: '#e53e3e' }}
+              onClick={handleDelete}
+            >
+              삭제
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          style={{ ...buttonStyle, marginLeft: 'auto' }}
+          onClick={() => setEditingCards(value => !value)}
+        >
+          {editingCards ? '카드 편집 닫기' : '카드 편집'}
+        </button>
+      </div>
+
+      {editingCards && (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '12px 0 0', fontSize: 14 }}>
+          {visibleCards.map((id, index) => (
+            <li
+              key={id}
+              style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '2px 0' }}
+            >
+              <input
+                type="checkbox"
+                checked
+                // 카드가 하나도 없으면 모든 카드가 표시되므로 마지막 카드는 끌 수 없다
+                disabled={visibleCards.length === 1}
+                onChange={() => toggleCard(id)}
+              />
+              <span style={{ flex: 1 }}>{cardLabel(id)}</span>
+              <button
+                type="button"
+                style={buttonStyle}
+                disabled={index === 0}
+                onClick={() => moveCard(index, -1)}
+                aria-label="위로"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                style={buttonStyle}
+                disabled={index === visibleCards.length - 1}
+                onClick={() => moveCard(index, 1)}
+                aria-label="아래로"
+              >
+                ↓
+              </button>
+            </li>
+          ))}
+          {hiddenCards.map(id => (
+            <li
+              key={id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '2px 0',
+                color: '#999'
+              }}
+            >
+              <input type="checkbox" checked={false} onChange={() => toggleCard(id)} />
+              <span>{cardLabel(id)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default DashboardViewBar
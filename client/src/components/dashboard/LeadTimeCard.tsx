@@ -0,0 +1,157 @@
+import { Link } from 'react-router-dom'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts'
+import { GapSummary, LeadTimeStats } from '../../types/dashboard'
+import { formatMinutes } from '../../utils/format'
+import Card from './Card'
+import { colorAt } from './colors'
+
+const TYPE_LABELS: Record<LeadTimeStats['byType'][number]['type'], string> = {
+  Prerelease: '프리릴리즈',
+  Release: '정식 릴리즈'
+}
+
+const bucketLabel = (minMinutes: number, maxMinutes: number | null) =>
+  maxMinutes === null
+    ? `${formatMinutes(minMinutes)} 이상`
+    : `${formatMinutes(minMinutes)}~${formatMinutes(maxMinutes)}`
+
+const SUMMARY_FIELDS: { key: keyof GapSummary; label: string }[] = [
+  { key: 'median', label: '중앙값' },
+  { key: 'p90', label: 'P90' },
+  { key: 'max', label: '최대' }
+]
+
+const cellStyle = { padding: '6px 12px', textAlign: 'right' as const }
+
+// 드래프트 생성부터 공개까지 걸린 시간의 분포와 오래 머문/공개되지 않은 드래프트
+function LeadTimeCard({
+  stats,
+  repoLabels
+}: {
+  stats: LeadTimeStats
+  repoLabels: Record<string, string>
+}) {
+  const histogram = stats.histogram.map(bucket => ({
+    label: bucketLabel(bucket.minMinutes, bucket.maxMinutes),
+    count: bucket.count
+  }))
+  const rows = [
+    ...stats.byType.map(row => ({ key: row.type, label: TYPE_LABELS[row.type], summary: row })),
+    ...stats.byRepo.map(row => ({
+      key: row.repo,
+      label: repoLabels[row.repo] || row.repo,
+      summary: row
+    }))
+  ]
+
+  return (
+    <Card>
+      <h2 style={{ fontSize: 19, fontWeight: 700, marginBottom: 18 }}>릴리즈 리드 타임</h2>
+      {stats.summary.count === 0 ? (
+        <p style={{ color: '#999' }}>리드 타임을 계산할 릴리즈가 없습니다.</p>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: 48, marginBottom: 24 }}>
+            {SUMMARY_FIELDS.map(field => (
+              <div key={field.key}>
+                <div style={{ fontSize: 14, color: '#555' }}>{field.label}</div>
+                <div style={{ fontSize: 26, fontWeight: 900, color: colorAt(0) }}>
+                  {formatMinutes(stats.summary[field.key])}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: 32, flexWrap: 'wrap' }}>
+            <div>
+              <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>리드 타임 분포</h3>
+              <BarChart width={520} height={240} data={histogram}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" interval={0} fontSize={12} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="count" name="릴리즈 수" fill={colorAt(2)} />
+              </BarChart>
+            </div>
+
+            <div>
+              <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>
+                유형/저장소별 리드 타임
+              </h3>
+              <table style={{ borderCollapse: 'collapse', fontSize: 14 }}>
+                <thead>
+                  <tr style={{ borderBottom: '1px solid #eee', color: '#555' }}>
+                    <th style={{ ...cellStyle, textAlign: 'left' }}>구분</th>
+                    <th style={cellStyle}>릴리즈</th>
+                    <th style={cellStyle}>중앙값</th>
+                    <th style={cellStyle}>P90</th>
+                    <th style={cellStyle}>최대</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} style={{ borderBottom: '1px solid #f3f3f3' }}>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>{row.label}</td>
+                      <td style={cellStyle}>{row.summary.count}</td>
+                      <td style={cellStyle}>{formatMinutes(row.summary.median)}</td>
+                      <td style={cellStyle}>{formatMinutes(row.summary.p90)}</td>
+                      <td style={cellStyle}>{formatMinutes(row.summary.max)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div style={{ display: 'flex', gap: 48, flexWrap: 'wrap', marginTop: 24 }}>
+        <div>
+          <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>
+            드래프트로 오래 머문 릴리즈
+          </h3>
+          {stats.longDrafts.length === 0 ? (
+            <p style={{ color: '#999' }}>없습니다.</p>
+          ) : (
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0, fontSize: 14 }}>
+              {stats.longDrafts.map(release => (
+                <li key={release.id} style={{ padding: '4px 0' }}>
+                  <Link to={`/releases/${release.id}`} style={{ color: '#0088FE' }}>
+                    {release.tagName}
+                  </Link>{' '}
+                  <span style={{ color: '#555' }}>{repoLabels[release.repo] || release.repo}</span>{' '}
+                  <span style={{ color: '#999' }}>{formatMinutes(release.leadTimeMinutes)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p style={{ fontSize: 13, color: '#999', marginTop: 8 }}>
+            저장소 P90의 3배 이상, 최소 7일 이상 걸린 릴리즈입니다.
+          </p>
+        </div>
+
+        <div>
+          <h3 style={{ fontSize: 15, fontWeight: 700, marginBottom: 8 }}>
+            공개되지 않은 드래프트{' '}
+            <span style={{ color: '#999', fontWeight: 400 }}>{stats.openDrafts.length}건</span>
+          </h3>
+          <ul style={{ listStyle: 'none', padding: 0, margin: 0, fontSize: 14 }}>
+            {stats.openDrafts.map(draft => (
+              <li key={draft.id} style={{ padding: '4px 0' }}>
+                <Link to={`/releases/${draft.id}`} style={{ color: '#0088FE' }}>
+                  {draft.tagName}
+                </Link>{' '}
+                <span style={{ color: '#555' }}>{repoLabels[draft.repo] || draft.repo}</span>{' '}
+                <span style={{ color: draft.stale ? colorAt(4) : '#999' }}>
+                  {formatMinutes(draft.ageMinutes)} 경과{draft.stale && ' (오래됨)'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </Card>
+  )
+}
+
+export default LeadTimeCard
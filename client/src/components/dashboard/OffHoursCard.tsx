@@ -0,0 +1,53 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts'
+import { OffHoursStats } from '../../types/dashboard'
+import Card from './Card'
+import { colorAt } from './colors'
+
+// 근무 시간 외(주말 / 공휴일 / 근무 시간 밖) 릴리즈 현황
+function OffHoursCard({
+  stats,
+  includeWeekends
+}: {
+  stats: OffHoursStats
+  includeWeekends: boolean
+}) {
+  const ratio = stats.total ? Math.round((stats.offHours / stats.total) * 100) : 0
+  const data = [
+    { label: '주말', count: stats.weekend },
+    { label: '공휴일', count: stats.holiday },
+    {
+      label: `근무 시간 밖 (${stats.workdayStartHour}~${stats.workdayEndHour}시 외)`,
+      count: stats.outsideWorkHours
+    }
+  ]
+
+  return (
+    <Card>
+      <h2 style={{ fontSize: 19, fontWeight: 700, marginBottom: 18 }}>근무 시간 외 릴리즈</h2>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 48 }}>
+        <div style={{ minWidth: 220 }}>
+          <span style={{ fontSize: 34, color: colorAt(4), fontWeight: 900 }}>
+            {stats.offHours}건
+          </span>
+          <div style={{ fontSize: 16, color: '#555', marginTop: 8 }}>
+            전체 {stats.total}건 중 {ratio}%
+          </div>
+          {!includeWeekends && (
+            <div style={{ fontSize: 13, color: '#999', marginTop: 8 }}>
+              주말 릴리즈는 집계에서 제외되어 있습니다.
+            </div>
+          )}
+        </div>
+        <BarChart width={720} height={200} data={data} layout="vertical">
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" allowDecimals={false} />
+          <YAxis type="category" dataKey="label" width={220} />
+          <Tooltip />
+          <Bar dataKey="count" name="릴리즈 수" fill={colorAt(4)} radius={[0, 7, 7, 0]} />
+        </BarChart>
+      </div>
+    </Card>
+  )
+}
+
+export default OffHoursCard
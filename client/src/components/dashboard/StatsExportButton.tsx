@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { dashboardService } from '../../services/api'
+import { DashboardFilters, DashboardGroupBy, StatsExportFormat } from '../../types/dashboard'
+import { downloadBlob } from '../../utils/download'
+
+const FORMAT_OPTIONS: { value: StatsExportFormat; label: string }[] = [
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' }
+]
+
+// 현재 필터 기준 통계를 파일로 내보내기
+function StatsExportButton({
+  filters,
+  groupBy
+}: {
+  filters: DashboardFilters
+  groupBy?: DashboardGroupBy
+}) {
+  const [format, setFormat] = useState<StatsExportFormat>('xlsx')
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const blob = await dashboardService.exportStats(filters, format, groupBy)
+      downloadBlob(blob, `release-stats.${format}`)
+    } catch (err) {
+      console.error('Failed to export stats:', err)
+      alert('통계를 내보내는데 실패했습니다.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
+      <select
+        value={format}
+        onChange={e => setFormat(e.target.value as StatsExportFormat)}
+        style={{ fontSize: 15, padding: '6px 8px', borderRadius: 8, border: '1px solid #ddd' }}
+      >
+        {FORMAT_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={exporting}
+        style={{
+          fontSize: 15,
+          fontWeight: 700,
+          padding: '8px 16px',
+          borderRadius: 8,
+          border: '1px solid #0088FE',
+          background: '#fff',
+          color: '#0088FE',
+          cursor: exporting ? 'wait' : 'pointer'
+        }}
+      >
+        {exporting ? '내보내는 중...' : '내보내기'}
+      </button>
+    </div>
+  )
+}
+
+export default StatsExportButton
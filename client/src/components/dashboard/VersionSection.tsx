@@ -0,0 +1,127 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts'
+import { VersionStats } from '../../types/dashboard'
+import Card from './Card'
+import { colorAt } from './colors'
+
+interface VersionSectionProps {
+  versionStats: VersionStats
+  repoLabels: Record<string, string>
+}
+
+const titleStyle: React.CSSProperties = { fontSize: 19, fontWeight: 700, marginBottom: 18 }
+
+const cellStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+  whiteSpace: 'nowrap'
+}
+
+const BUMP_SERIES = [
+  { key: 'major', label: 'Major' },
+  { key: 'minor', label: 'Minor' },
+  { key: 'patch', label: 'Patch' },
+  { key: 'prerelease', label: 'Prerelease' },
+  { key: 'initial', label: '최초 릴리즈' }
+]
+
+// 릴리즈 태그 semver 분석 섹션
+function VersionSection({ versionStats, repoLabels }: VersionSectionProps) {
+  const label = (repo: string) => repoLabels[repo] ?? repo
+
+  return (
+    <div style={{ marginTop: 40 }}>
+      <div style={{ fontSize: 24, fontWeight: 900, marginBottom: 16, color: '#20232a' }}>
+        버전 분석
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr', gap: 32 }}>
+        <Card>
+          <h2 style={titleStyle}>월별 버전 bump 추이</h2>
+          <BarChart width={1060} height={260} data={versionStats.bumpsByMonth}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="period" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Legend iconType="circle" />
+            {BUMP_SERIES.map((series, idx) => (
+              <Bar
+                key={series.key}
+                dataKey={series.key}
+                name={series.label}
+                stackId="bump"
+                fill={colorAt(idx)}
+              />
+            ))}
+          </BarChart>
+        </Card>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 32 }}>
+          <Card>
+            <h2 style={titleStyle}>패키지별 최신 버전</h2>
+            <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+                <thead>
+                  <tr style={{ color: '#555' }}>
+                    <th style={cellStyle}>패키지</th>
+                    <th style={cellStyle}>최신 버전</th>
+                    <th style={cellStyle}>릴리즈 수</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {versionStats.latestVersions.map(pkg => (
+                    <tr key={`${pkg.repo}:${pkg.packageName}`}>
+                      <td style={cellStyle} title={label(pkg.repo)}>
+                        {pkg.packageName}
+                      </td>
+                      <td style={cellStyle}>
+                        {pkg.latestVersion ?? '-'}
+                        {pkg.latestPrerelease && (
+                          <span style={{ color: '#8936FF', marginLeft: 6 }}>
+                            ({pkg.latestPrerelease})
+                          </span>
+                        )}
+                      </td>
+                      <td style={cellStyle}>{pkg.releaseCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+          <Card>
+            <h2 style={titleStyle}>메이저 버전 간 평균 간격</h2>
+            <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+                <thead>
+                  <tr style={{ color: '#555' }}>
+                    <th style={cellStyle}>패키지</th>
+                    <th style={cellStyle}>메이저 라인</th>
+                    <th style={cellStyle}>평균 간격</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {versionStats.majorIntervals.map(pkg => (
+                    <tr key={`${pkg.repo}:${pkg.packageName}`}>
+                      <td style={cellStyle} title={label(pkg.repo)}>
+                        {pkg.packageName}
+                      </td>
+                      <td style={cellStyle}>
+                        {pkg.majorReleases.map(major => major.version).join(' → ')}
+                      </td>
+                      <td style={cellStyle}>
+                        {pkg.averageDaysBetweenMajors !== null
+                          ? `${pkg.averageDaysBetweenMajors}일`
+                          : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default VersionSection
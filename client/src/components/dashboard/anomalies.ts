@@ -0,0 +1,27 @@
+import { Anomaly } from '../../types/dashboard'
+
+export const SEVERITY_LABELS: Record<Anomaly['severity'], string> = {
+  high: '높음',
+  medium: '중간',
+  low: '낮음'
+}
+
+export const SEVERITY_COLORS: Record<Anomaly['severity'], string> = {
+  high: '#D92B2B',
+  medium: '#FF8042',
+  low: '#FFBB28'
+}
+
+// 특이점 요약 문구 (예: "하루 31건 (평소 6.3건)")
+export function describeAnomaly(anomaly: Anomaly): string {
+  if (anomaly.kind === 'drought') {
+    return `${anomaly.value}일 공백 (평소 ${anomaly.baseline}일)`
+  }
+  const unit = anomaly.period === 'week' ? '한 주' : '하루'
+  return `${unit} ${anomaly.value}건 (평소 ${anomaly.baseline}건)`
+}
+
+// 날짜가 속한 차트 카테고리 (date 이상인 첫 시점, 없으면 마지막 시점)
+export function nearestPoint(dates: string[], date: string): string | undefined {
+  return dates.find(d => d >= date) ?? dates[dates.length - 1]
+}
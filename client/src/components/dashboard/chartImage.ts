@@ -0,0 +1,129 @@
+import { createContext } from 'react'
+import { DashboardFilters } from '../../types/dashboard'
+
+// 카드 안의 recharts 차트 (범례 아이콘 svg 제외)
+export const CHART_SELECTOR = '.recharts-wrapper > svg.recharts-surface'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+const PADDING = 24
+const TITLE_SIZE = 20
+const SUBTITLE_SIZE = 13
+const LEGEND_ROW_HEIGHT = 22
+const CHART_GAP = 16
+
+// PNG 해상도 배율 (슬라이드에 넣어도 흐리지 않도록)
+const PNG_SCALE = 2
+
+// 이미지에 함께 그릴 현재 필터 설명 (Dashboard에서 제공)
+export const ChartFilterContext = createContext('')
+
+export function describeFilters(
+  filters: DashboardFilters,
+  timezone: string,
+  repoLabels: Record<string, string>
+): string {
+  const repos = filters.repos.length
+    ? filters.repos.map(repo => repoLabels[repo] || repo).join(', ')
+    : '전체'
+  const period =
+    filters.from || filters.to ? `${filters.from || '처음'} ~ ${filters.to || '현재'}` : '전체'
+  return [
+    `저장소: ${repos}`,
+    `기간: ${period}`,
+    `시간대: ${timezone}`,
+    filters.includeWeekends ? '주말 포함' : '주말 제외'
+  ].join(' · ')
+}
+
+const svgElement = (name: string, attributes: Record<string, string | number>) => {
+  const element = document.createElementNS(SVG_NS, name)
+  Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)))
+  return element
+}
+
+const svgText = (text: string, attributes: Record<string, string | number>) => {
+  const element = svgElement('text', attributes)
+  element.textContent = text
+  return element
+}
+
+// recharts 범례는 HTML로 그려지므로 항목(색상, 이름)을 읽어 SVG로 다시 그린다
+const legendItems = (wrapper: Element) =>
+  [...wrapper.querySelectorAll('.recharts-legend-item')].map(item => {
+    const icon = item.querySelector('svg path, svg line')
+    const fill = icon?.getAttribute('fill')
+    return {
+      color: fill && fill !== 'none' ? fill : (icon?.getAttribute('stroke') ?? '#999'),
+      label: item.querySelector('.recharts-legend-item-text')?.textContent ?? ''
+    }
+  })
+
+// 카드 안의 차트들을 제목/필터 설명과 함께 하나의 SVG 문서로 합친다 (차트가 없으면 null)
+export function buildChartImage(card: HTMLElement, title: string, subtitle: string) {
+  const charts = [...card.querySelectorAll<SVGSVGElement>(CHART_SELECTOR)]
+  if (charts.length === 0) return null
+
+  const fontFamily = getComputedStyle(card).fontFamily
+  const chartWidth = Math.max(...charts.map(chart => chart.width.baseVal.value))
+  const width = chartWidth + PADDING * 2
+  const root = svgElement('svg', { width, 'font-family': fontFamily })
+  const background = svgElement('rect', { width: '100%', height: '100%', fill: '#fff' })
+  root.append(background)
+
+  let y = PADDING + TITLE_SIZE
+  root.append(svgText(title, { x: PADDING, y, 'font-size': TITLE_SIZE, 'font-weight': 700 }))
+  y += SUBTITLE_SIZE + 10
+  root.append(svgText(subtitle, { x: PADDING, y, 'font-size': SUBTITLE_SIZE, fill: '#666' }))
+  y += CHART_GAP
+
+  for (const chart of charts) {
+    const clone = chart.cloneNode(true) as SVGSVGElement
+    clone.setAttribute('x', String(PADDING))
+    clone.setAttribute('y', String(y))
+    root.append(clone)
+    y += chart.height.baseVal.value
+
+    const items = legendItems(chart.parentElement!)
+    let x = PADDING
+    for (const item of items) {
+      // 글자 폭을 알 수 없으므로 대략적인 폭으로 배치하고, 넘치면 다음 줄로
+      const itemWidth = 14 + item.label.length * 8 + 16
+      if (x > PADDING && x + itemWidth > PADDING + chartWidth) {
+        x = PADDING
+        y += LEGEND_ROW_HEIGHT
+      }
+      root.append(svgElement('circle', { cx: x + 5, cy: y + 11, r: 5, fill: item.color }))
+      root.append(svgText(item.label, { x: x + 14, y: y + 15, 'font-size': 13, fill: '#333' }))
+      x += itemWidth
+    }
+    if (items.length) y += LEGEND_ROW_HEIGHT
+    y += CHART_GAP
+  }
+
+  const height = y + PADDING - CHART_GAP
+  root.setAttribute('height', String(height))
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`)
+
+  return { svg: new XMLSerializer().serializeToString(root), width, height }
+}
+
+export function svgToPng(svg: string, width: number, height: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = width * PNG_SCALE
+      canvas.height = height * PNG_SCALE
+      const context = canvas.getContext('2d')!
+      context.scale(PNG_SCALE, PNG_SCALE)
+      context.drawImage(image, 0, 0, width, height)
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('PNG 변환 실패'))),
+        'image/png'
+      )
+    }
+    image.onerror = () => reject(new Error('SVG 이미지를 불러오지 못했습니다.'))
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  })
+}
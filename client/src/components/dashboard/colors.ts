@@ -0,0 +1,4 @@
+// 차트 색상 팔레트
+export const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#D92B2B', '#8936FF', '#FFB3DD']
+
+export const colorAt = (index: number) => COLORS[index % COLORS.length]
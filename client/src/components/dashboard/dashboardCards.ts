@@ -0,0 +1,25 @@
+// 대시보드 카드 목록 (기본 표시 순서)
+// wide가 아닌 카드는 두 칸 그리드에 배치되고, 저장소 비교 모드에서는 비교 화면으로 대체된다
+export const DASHBOARD_CARDS = [
+  { id: 'yearly', label: '연도별 릴리즈 수', wide: false },
+  { id: 'monthly', label: '월별 릴리즈 수', wide: false },
+  { id: 'weekday', label: '요일별 릴리즈 비율', wide: false },
+  { id: 'releaseType', label: '릴리즈 유형별 비율', wide: false },
+  { id: 'topMonths', label: '릴리즈가 가장 많았던 월 TOP 3', wide: false },
+  { id: 'interval', label: '평균 릴리즈 간격', wide: false },
+  { id: 'cadence', label: '릴리즈 주기 추이', wide: true },
+  { id: 'anomalies', label: '특이점', wide: true },
+  { id: 'offHours', label: '근무 시간 외 릴리즈', wide: true },
+  { id: 'changeComposition', label: '변경 구성 추이', wide: true },
+  { id: 'authors', label: '작성자 통계', wide: true },
+  { id: 'assets', label: '첨부파일 통계', wide: true },
+  { id: 'leadTime', label: '릴리즈 리드 타임', wide: true },
+  { id: 'versions', label: '버전 분석', wide: true }
+] as const
+
+export type DashboardCardId = (typeof DASHBOARD_CARDS)[number]['id']
+
+export const DEFAULT_CARD_IDS: DashboardCardId[] = DASHBOARD_CARDS.map(card => card.id)
+
+export const isDashboardCardId = (id: string): id is DashboardCardId =>
+  DEFAULT_CARD_IDS.includes(id as DashboardCardId)
@@ -0,0 +1,32 @@
+import { DashboardFilters } from '../../types/dashboard'
+
+// 차트 항목 클릭으로 전달되는 조건
+export interface ReleaseDrilldown {
+  repo?: string
+  weekday?: string
+  year?: string
+  month?: string
+  type?: string
+  // 대시보드 기간 대신 사용할 기간 (YYYY-MM-DD)
+  from?: string
+  to?: string
+}
+
+// 대시보드 필터 + 클릭한 차트 항목 -> 릴리즈 목록 경로
+export function releaseListPath(filters: DashboardFilters, drilldown: ReleaseDrilldown): string {
+  const params = new URLSearchParams()
+  const repos = drilldown.repo ? [drilldown.repo] : filters.repos
+  if (repos.length) params.set('repo', repos.join(','))
+  const from = drilldown.from ?? filters.from
+  const to = drilldown.to ?? filters.to
+  if (from) params.set('from', from)
+  if (to) params.set('to', to)
+  if (filters.tz) params.set('tz', filters.tz)
+  // 대시보드가 주말을 제외하고 집계했다면 목록도 같은 기준으로 제외한다
+  if (!filters.includeWeekends) params.set('includeWeekends', 'false')
+  if (drilldown.weekday) params.set('weekday', drilldown.weekday)
+  if (drilldown.year) params.set('year', drilldown.year)
+  if (drilldown.month) params.set('month', drilldown.month)
+  if (drilldown.type) params.set('type', drilldown.type.toLowerCase())
+  return `/releases?${params.toString()}`
+}
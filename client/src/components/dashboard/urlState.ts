@@ -0,0 +1,86 @@
+import { DashboardFilters } from '../../types/dashboard'
+import { DashboardCardId, isDashboardCardId } from './dashboardCards'
+
+// URL 쿼리스트링으로 공유되는 대시보드 화면 상태
+export interface DashboardViewState {
+  filters: DashboardFilters
+  // 월별 차트 연도 (빈 문자열이면 최신 연도)
+  year: string
+  // 저장소 비교 모드
+  compare: boolean
+  // 표시할 카드 (표시 순서), 비어 있으면 모든 카드를 기본 순서로
+  cards: DashboardCardId[]
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const YEAR_PATTERN = /^\d{4}$/
+
+// 형식뿐 아니라 실제로 있는 날짜인지 확인한다 (2025-02-30 같은 값은 버린다)
+const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+const isValidTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// 쿼리스트링 -> 화면 상태 (형식이 잘못된 값은 버린다)
+export function parseDashboardParams(params: URLSearchParams): DashboardViewState {
+  const repos = [
+    ...new Set(
+      params
+        .getAll('repo')
+        .flatMap(value => value.split(','))
+        .map(repo => repo.trim())
+        .filter(Boolean)
+    )
+  ]
+  let from = params.get('from') ?? ''
+  let to = params.get('to') ?? ''
+  if (!isValidDate(from)) from = ''
+  if (!isValidDate(to)) to = ''
+  // 기간이 뒤집혀 있으면 둘 다 무시
+  if (from && to && from > to) from = to = ''
+  const tz = params.get('tz') ?? ''
+  const year = params.get('year') ?? ''
+
+  return {
+    filters: {
+      repos,
+      from,
+      to,
+      tz: tz && isValidTimeZone(tz) ? tz : '',
+      includeWeekends: params.get('includeWeekends') === 'true'
+    },
+    year: YEAR_PATTERN.test(year) ? year : '',
+    compare: params.get('compare') === 'repo',
+    // 알 수 없는 카드 id는 버린다
+    cards: [...new Set((params.get('cards') ?? '').split(',').filter(isDashboardCardId))]
+  }
+}
+
+// 화면 상태 -> 쿼리스트링 (기본값은 생략)
+export function dashboardSearchParams({
+  filters,
+  year,
+  compare,
+  cards
+}: DashboardViewState): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.repos.length) params.set('repo', filters.repos.join(','))
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.tz) params.set('tz', filters.tz)
+  if (filters.includeWeekends) params.set('includeWeekends', 'true')
+  if (year) params.set('year', year)
+  if (compare) params.set('compare', 'repo')
+  if (cards.length) params.set('cards', cards.join(','))
+  return params
+}
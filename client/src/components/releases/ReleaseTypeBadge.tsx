@@ -0,0 +1,22 @@
+// 릴리즈 유형(Draft/Prerelease/Release) 배지
+const ReleaseTypeBadge = ({
+  isDraft,
+  isPrerelease
+}: {
+  isDraft: boolean
+  isPrerelease: boolean
+}) => (
+  <span
+    className={`px-2 py-1 text-xs rounded-full ${
+      isDraft
+        ? 'bg-neutral-100 text-neutral-800'
+        : isPrerelease
+          ? 'bg-yellow-100 text-yellow-800'
+          : 'bg-green-100 text-green-800'
+    }`}
+  >
+    {isDraft ? 'Draft' : isPrerelease ? 'Prerelease' : 'Release'}
+  </span>
+)
+
+export default ReleaseTypeBadge
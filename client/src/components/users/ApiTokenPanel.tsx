@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react'
+import { apiTokenService } from '../../services/api'
+import { ApiToken, ApiTokenScope, CreatedApiToken } from '../../types/apiToken'
+import { User, UserRole } from '../../types/user'
+
+interface ApiTokenPanelProps {
+  // 토큰 주인 (로그인한 본인)
+  user: User
+}
+
+const SCOPES: { value: ApiTokenScope; label: string; adminOnly?: boolean }[] = [
+  { value: 'read:stats', label: '대시보드 통계 조회' },
+  { value: 'read:releases', label: '릴리즈 조회' },
+  { value: 'read:repos', label: '저장소 조회' },
+  { value: 'admin:repos', label: '저장소 관리', adminOnly: true }
+]
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365]
+
+const headerCellClass =
+  'py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider'
+
+// 스크립트/봇에서 Authorization: Bearer 헤더로 쓰는 개인 API 토큰 관리
+const ApiTokenPanel = ({ user }: ApiTokenPanelProps) => {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read:stats'])
+  const [expiresInDays, setExpiresInDays] = useState(30)
+  const [created, setCreated] = useState<CreatedApiToken | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const availableScopes = SCOPES.filter(scope => !scope.adminOnly || user.role === UserRole.ADMIN)
+  // 게스트는 새 토큰을 발급할 수 없다 (이미 있는 토큰의 폐기는 가능)
+  const canCreate = user.role !== UserRole.GUEST
+
+  useEffect(() => {
+    apiTokenService
+      .getByUser(user.id)
+      .then(setTokens)
+      .catch(err => {
+        console.error('Failed to fetch API tokens:', err)
+        setError('API 토큰 목록을 불러오는데 실패했습니다.')
+      })
+  }, [user.id])
+
+  const toggleScope = (scope: ApiTokenScope) =>
+    setScopes(prev =>
+      prev.includes(scope) ? prev.filter(value => value !== scope) : [...prev, scope]
+    )
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!name.trim() || scopes.length === 0) {
+      setError('토큰 이름과 권한 범위를 하나 이상 입력해주세요.')
+      return
+    }
+
+    try {
+      const token = await apiTokenService.create(user.id, {
+        name: name.trim(),
+        scopes,
+        expiresInDays
+      })
+      const { secret: _secret, ...saved } = token
+      setTokens(prev => [saved, ...prev])
+      setCreated(token)
+      setName('')
+      setError(null)
+    } catch (err) {
+      console.error('Failed to create API token:', err)
+      setError('API 토큰 생성에 실패했습니다.')
+    }
+  }
+
+  const handleDelete = async (token: ApiToken) => {
+    if (
+      !window.confirm(
+        `'${token.name}' 토큰을 폐기하시겠습니까? 이 토큰을 쓰는 스크립트는 더 이상 동작하지 않습니다.`
+      )
+    ) {
+      return
+    }
+
+    try {
+      await apiTokenService.delete(user.id, token.id)
+      setTokens(prev => prev.filter(t => t.id !== token.id))
+      if (created?.id === token.id) setCreated(null)
+    } catch (err) {
+      console.error('Failed to delete API token:', err)
+      alert('API 토큰 폐기에 실패했습니다.')
+    }
+  }
+
+  return (
+    <div className="bg-white shadow-md rounded-lg overflow-hidden mt-6">
+      <div className="p-6">
+        <h2 className="text-lg font-bold text-neutral-900 mb-1">API 토큰</h2>
+        <p className="text-sm text-neutral-500 mb-4">
+          CI 봇이나 스크립트에서 <code>Authorization: Bearer &lt;토큰&gt;</code> 헤더로 API를 호출할
+          때 사용합니다.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-4">
+            <p>{error}</p>
+          </div>
+        )}
+
+        {created && (
+          <div className="bg-green-50 border border-green-200 text-green-800 rounded-md p-4 mb-4">
+            <p className="mb-2">
+              '{created.name}' 토큰이 발급되었습니다. 이 화면을 벗어나면 다시 볼 수 없으니 지금
+              복사해두세요.
+            </p>
+            <code className="block break-all bg-white border border-green-200 rounded p-2 text-sm">
+              {created.secret}
+            </code>
+          </div>
+        )}
+
+        {!canCreate && (
+          <p className="text-sm text-neutral-500 mb-6">
+            게스트 계정은 API 토큰을 발급할 수 없습니다.
+          </p>
+        )}
+
+        {canCreate && (
+          <form onSubmit={handleCreate} className="mb-6">
+            <div className="flex flex-wrap gap-2 mb-3">
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="토큰 이름 (예: release-bot)"
+                className="input flex-1 min-w-[200px]"
+                maxLength={100}
+                required
+              />
+              <select
+                value={expiresInDays}
+                onChange={e => setExpiresInDays(Number(e.target.value))}
+                className="input w-auto"
+                aria-label="만료 기간"
+              >
+                {EXPIRY_OPTIONS.map(days => (
+                  <option key={days} value={days}>
+                    {days}일 후 만료
+                  </option>
+                ))}
+              </select>
+              <button type="submit" className="btn btn-primary">
+                토큰 발급
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {availableScopes.map(scope => (
+                <label key={scope.value} className="flex items-center text-sm text-neutral-700">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope.value)}
+                    onChange={() => toggleScope(scope.value)}
+                    className="mr-2"
+                  />
+                  {scope.label} <code className="ml-1 text-neutral-500">{scope.value}</code>
+                </label>
+              ))}
+            </div>
+          </form>
+        )}
+
+        {tokens.length === 0 ? (
+          <p className="text-neutral-500">발급된 API 토큰이 없습니다.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white border border-neutral-200 rounded-lg">
+              <thead className="bg-neutral-50">
+                <tr>
+                  <th className={headerCellClass}>이름</th>
+                  <th className={headerCellClass}>토큰</th>
+                  <th className={headerCellClass}>권한 범위</th>
+                  <th className={headerCellClass}>만료</th>
+                  <th className={headerCellClass}>마지막 사용</th>
+                  <th className={`${headerCellClass} text-right`}>작업</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-200">
+                {tokens.map(token => {
+                  const expired = new Date(token.expiresAt) <= new Date()
+                  return (
+                    <tr key={token.id} className="hover:bg-neutral-50">
+                      <td className="py-3 px-4 whitespace-nowrap">{token.name}</td>
+                      <td className="py-3 px-4 whitespace-nowrap">
+                        <code className="text-sm">{token.prefix}…</code>
+                      </td>
+                      <td className="py-3 px-4 text-sm">{token.scopes.join(', ')}</td>
+                      <td
+                        className={`py-3 px-4 whitespace-nowrap ${expired ? 'text-red-600' : ''}`}
+                      >
+                        {new Date(token.expiresAt).toLocaleDateString()}
+                        {expired && ' (만료됨)'}
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap">
+                        {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : '-'}
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => handleDelete(token)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          폐기
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ApiTokenPanel
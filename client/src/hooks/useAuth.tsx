@@ -0,0 +1,63 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react'
+import { authService, setUnauthorizedHandler } from '../services/api'
+import { LoginDto, User, UserRole } from '../types/user'
+
+interface AuthContextValue {
+  // 로그인한 사용자 (로그인하지 않았으면 null)
+  user: User | null
+  // 세션 확인 중
+  loading: boolean
+  login: (credentials: LoginDto) => Promise<User>
+  logout: () => Promise<void>
+  hasRole: (...roles: UserRole[]) => boolean
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null)
+
+// 세션 쿠키로 현재 사용자를 확인하고 하위 컴포넌트에 제공
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    authService
+      .me()
+      .then(setUser)
+      .catch(err => console.error('Failed to fetch current user:', err))
+      .finally(() => setLoading(false))
+
+    // 세션이 만료되면 로그인 화면으로 돌아가도록 사용자를 비운다
+    setUnauthorizedHandler(() => setUser(null))
+    return () => setUnauthorizedHandler(null)
+  }, [])
+
+  const login = useCallback(async (credentials: LoginDto) => {
+    const loggedIn = await authService.login(credentials)
+    setUser(loggedIn)
+    return loggedIn
+  }, [])
+
+  const logout = useCallback(async () => {
+    await authService.logout()
+    setUser(null)
+  }, [])
+
+  const hasRole = useCallback(
+    (...roles: UserRole[]) => user !== null && roles.includes(user.role),
+    [user]
+  )
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, logout, hasRole }}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error('useAuth는 AuthProvider 안에서만 사용할 수 있습니다.')
+  }
+  return context
+}
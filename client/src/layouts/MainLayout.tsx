@@ -1,6 +1,26 @@
-import { Outlet, Link } from 'react-router-dom'
+import { Outlet, Link, useNavigate } from 'react-router-dom'
+import { useAuth } from '../hooks/useAuth'
+import { UserRole } from '../types/user'
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.ADMIN]: '관리자',
+  [UserRole.USER]: '일반 사용자',
+  [UserRole.GUEST]: '게스트'
+}
 
 const MainLayout = () => {
+  const { user, logout } = useAuth()
+  const navigate = useNavigate()
+
+  const handleLogout = async () => {
+    try {
+      await logout()
+      navigate('/login')
+    } catch (err) {
+      console.error('Failed to logout:', err)
+    }
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       <header className="bg-white shadow-sm">
@@ -24,13 +44,45 @@ const MainLayout = () => {
               >
                 유저 관리
               </Link>
+              <Link
+                to="/repos"
+                className="text-neutral-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium"
+              >
+                저장소 관리
+              </Link>
+              <Link
+                to="/releases"
+                className="text-neutral-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium"
+              >
+                릴리즈
+              </Link>
               <Link
                 to="/dashboard"
                 className="text-neutral-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium"
               >
                 대시보드
               </Link>
+              <Link
+                to="/calendar"
+                className="text-neutral-600 hover:text-primary-600 px-3 py-2 rounded-md text-sm font-medium"
+              >
+                근무 캘린더
+              </Link>
             </nav>
+            {user && (
+              <div className="flex items-center space-x-3 text-sm">
+                <span className="text-neutral-600">
+                  {user.name} ({ROLE_LABELS[user.role]})
+                </span>
+                <button
+                  type="button"
+                  onClick={handleLogout}
+                  className="text-neutral-600 hover:text-primary-600 font-medium"
+                >
+                  로그아웃
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -50,4 +102,4 @@ const MainLayout = () => {
   )
 }
 
-export default MainLayout
\ No newline at end of file
+export default MainLayout
@@ -0,0 +1,301 @@
+import { useState, useEffect, ChangeEvent } from 'react'
+import { calendarService } from '../services/api'
+import { Holiday } from '../types/calendar'
+import { UserRole } from '../types/user'
+import { useAuth } from '../hooks/useAuth'
+
+const WEEKDAYS = [
+  { value: 'Monday', label: '월' },
+  { value: 'Tuesday', label: '화' },
+  { value: 'Wednesday', label: '수' },
+  { value: 'Thursday', label: '목' },
+  { value: 'Friday', label: '금' },
+  { value: 'Saturday', label: '토' },
+  { value: 'Sunday', label: '일' }
+]
+
+const headerCellClass =
+  'py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider'
+
+const CalendarPage = () => {
+  const [weekendDays, setWeekendDays] = useState<string[]>([])
+  const [workdayStartHour, setWorkdayStartHour] = useState(9)
+  const [workdayEndHour, setWorkdayEndHour] = useState(18)
+  const [holidays, setHolidays] = useState<Holiday[]>([])
+  const [newDate, setNewDate] = useState('')
+  const [newName, setNewName] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  // 설정과 공휴일은 관리자만 바꿀 수 있다
+  const { hasRole } = useAuth()
+  const isAdmin = hasRole(UserRole.ADMIN)
+
+  useEffect(() => {
+    const fetchCalendar = async () => {
+      try {
+        setLoading(true)
+        const data = await calendarService.get()
+        setWeekendDays(data.weekendDays)
+        setWorkdayStartHour(data.workdayStartHour)
+        setWorkdayEndHour(data.workdayEndHour)
+        setHolidays(data.holidays)
+        setError(null)
+      } catch (err) {
+        console.error('Failed to fetch calendar:', err)
+        setError('근무 캘린더를 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCalendar()
+  }, [])
+
+  const toggleWeekendDay = (day: string) => {
+    setWeekendDays(days => (days.includes(day) ? days.filter(d => d !== day) : [...days, day]))
+  }
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (workdayStartHour >= workdayEndHour) {
+      setError('근무 시작 시간은 종료 시간보다 빨라야 합니다.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      await calendarService.update({ weekendDays, workdayStartHour, workdayEndHour })
+      setError(null)
+      setMessage('근무 캘린더가 저장되었습니다.')
+    } catch (err) {
+      console.error('Failed to update calendar:', err)
+      setError('근무 캘린더 수정에 실패했습니다.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newDate) return
+
+    try {
+      const holiday = await calendarService.createHoliday({ date: newDate, name: newName.trim() })
+      setHolidays([...holidays, holiday].sort((a, b) => a.date.localeCompare(b.date)))
+      setNewDate('')
+      setNewName('')
+      setError(null)
+    } catch (err) {
+      console.error('Failed to create holiday:', err)
+      setError('공휴일 추가에 실패했습니다. 이미 등록된 날짜인지 확인해주세요.')
+    }
+  }
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const result = await calendarService.importHolidays(await file.text())
+      setHolidays(result.holidays)
+      setError(null)
+      setMessage(`${result.imported}개의 공휴일을 가져왔습니다.`)
+    } catch (err) {
+      console.error('Failed to import holidays:', err)
+      setError('공휴일 가져오기에 실패했습니다. iCal(.ics) 파일인지 확인해주세요.')
+    }
+  }
+
+  const handleDeleteHoliday = async (id: number) => {
+    try {
+      await calendarService.deleteHoliday(id)
+      setHolidays(holidays.filter(holiday => holiday.id !== id))
+    } catch (err) {
+      console.error('Failed to delete holiday:', err)
+      alert('공휴일 삭제에 실패했습니다.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-neutral-600">로딩 중...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-neutral-900">근무 캘린더</h1>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+      {message && !error && (
+        <div className="bg-green-50 border border-green-200 text-green-800 rounded-md p-4 mb-6">
+          <p>{message}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden mb-6">
+        <form onSubmit={handleSaveSettings} className="p-6">
+          <div className="mb-4">
+            <span className="block text-sm font-medium text-neutral-700 mb-2">주말 요일</span>
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAYS.map(day => (
+                <label key={day.value} className="flex items-center text-sm text-neutral-700">
+                  <input
+                    type="checkbox"
+                    checked={weekendDays.includes(day.value)}
+                    onChange={() => toggleWeekendDay(day.value)}
+                    disabled={!isAdmin}
+                    className="mr-2"
+                  />
+                  {day.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="mb-6 grid grid-cols-2 gap-4 max-w-md">
+            <div>
+              <label
+                htmlFor="workdayStartHour"
+                className="block text-sm font-medium text-neutral-700 mb-1"
+              >
+                근무 시작 (시)
+              </label>
+              <input
+                type="number"
+                id="workdayStartHour"
+                min={0}
+                max={23}
+                value={workdayStartHour}
+                onChange={e => setWorkdayStartHour(Number(e.target.value))}
+                disabled={!isAdmin}
+                className="input"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="workdayEndHour"
+                className="block text-sm font-medium text-neutral-700 mb-1"
+              >
+                근무 종료 (시)
+              </label>
+              <input
+                type="number"
+                id="workdayEndHour"
+                min={1}
+                max={24}
+                value={workdayEndHour}
+                onChange={e => setWorkdayEndHour(Number(e.target.value))}
+                disabled={!isAdmin}
+                className="input"
+              />
+            </div>
+          </div>
+
+          {isAdmin && (
+            <div className="flex justify-end">
+              <button type="submit" className="btn btn-primary" disabled={saving}>
+                {saving ? '저장 중...' : '설정 저장'}
+              </button>
+            </div>
+          )}
+        </form>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-bold text-neutral-900">
+              공휴일 <span className="text-neutral-500 font-normal">({holidays.length})</span>
+            </h2>
+            {isAdmin && (
+              <label className="btn btn-secondary cursor-pointer">
+                iCal 파일 가져오기
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+              </label>
+            )}
+          </div>
+
+          {isAdmin && (
+            <form onSubmit={handleAddHoliday} className="flex flex-wrap gap-2 mb-4">
+              <input
+                type="date"
+                value={newDate}
+                onChange={e => setNewDate(e.target.value)}
+                className="input w-auto"
+                required
+              />
+              <input
+                type="text"
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                placeholder="공휴일 이름"
+                className="input flex-1 min-w-[200px]"
+              />
+              <button type="submit" className="btn btn-primary">
+                추가
+              </button>
+            </form>
+          )}
+
+          {holidays.length === 0 ? (
+            <p className="text-neutral-500">등록된 공휴일이 없습니다.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full bg-white border border-neutral-200 rounded-lg">
+                <thead className="bg-neutral-50">
+                  <tr>
+                    <th className={headerCellClass}>날짜</th>
+                    <th className={headerCellClass}>이름</th>
+                    <th className={headerCellClass}>출처</th>
+                    <th className={`${headerCellClass} text-right`}>작업</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-200">
+                  {holidays.map(holiday => (
+                    <tr key={holiday.id} className="hover:bg-neutral-50">
+                      <td className="py-3 px-4 whitespace-nowrap">{holiday.date}</td>
+                      <td className="py-3 px-4">{holiday.name || '-'}</td>
+                      <td className="py-3 px-4 whitespace-nowrap">
+                        {holiday.source === 'ical' ? 'iCal' : '직접 입력'}
+                      </td>
+                      <td className="py-3 px-4 whitespace-nowrap text-right text-sm font-medium">
+                        {isAdmin && (
+                          <button
+                            onClick={() => handleDeleteHoliday(holiday.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            삭제
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CalendarPage
@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { useNavigate, Link } from 'react-router-dom'
+import { repoService } from '../services/api'
+
+const CreateRepoPage = () => {
+  const navigate = useNavigate()
+  const [fullName, setFullName] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [defaultBranch, setDefaultBranch] = useState('main')
+  const [enabled, setEnabled] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!/^[^/\s]+\/[^/\s]+$/.test(fullName.trim())) {
+      setError('저장소는 owner/name 형식으로 입력해주세요.')
+      return
+    }
+
+    try {
+      setLoading(true)
+      await repoService.create({
+        fullName: fullName.trim(),
+        displayName: displayName.trim(),
+        defaultBranch: defaultBranch.trim() || 'main',
+        enabled
+      })
+      navigate('/repos')
+    } catch (err) {
+      console.error('Failed to create repo:', err)
+      setError('저장소 추가에 실패했습니다.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-neutral-900">새 저장소 추가</h1>
+        <Link to="/repos" className="btn btn-secondary">
+          취소
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="mb-4">
+            <label htmlFor="fullName" className="block text-sm font-medium text-neutral-700 mb-1">
+              저장소
+            </label>
+            <input
+              type="text"
+              id="fullName"
+              value={fullName}
+              onChange={e => setFullName(e.target.value)}
+              className="input"
+              placeholder="daangn/stackflow"
+              required
+            />
+          </div>
+
+          <div className="mb-4">
+            <label
+              htmlFor="displayName"
+              className="block text-sm font-medium text-neutral-700 mb-1"
+            >
+              표시 이름
+            </label>
+            <input
+              type="text"
+              id="displayName"
+              value={displayName}
+              onChange={e => setDisplayName(e.target.value)}
+              className="input"
+              placeholder="Stackflow"
+            />
+          </div>
+
+          <div className="mb-4">
+            <label
+              htmlFor="defaultBranch"
+              className="block text-sm font-medium text-neutral-700 mb-1"
+            >
+              기본 브랜치
+            </label>
+            <input
+              type="text"
+              id="defaultBranch"
+              value={defaultBranch}
+              onChange={e => setDefaultBranch(e.target.value)}
+              className="input"
+              placeholder="main"
+            />
+          </div>
+
+          <div className="mb-6 flex items-center">
+            <input
+              type="checkbox"
+              id="enabled"
+              checked={enabled}
+              onChange={e => setEnabled(e.target.checked)}
+              className="mr-2"
+            />
+            <label htmlFor="enabled" className="text-sm font-medium text-neutral-700">
+              릴리즈 동기화 활성화
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <button type="submit" className="btn btn-primary" disabled={loading}>
+              {loading ? '처리 중...' : '저장소 추가'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default CreateRepoPage
@@ -7,6 +7,8 @@ const CreateUserPage = () => {
   const navigate = useNavigate()
   const [name, setName] = useState('')
   const [email, setEmail] = useState('')
+  const [githubLogin, setGithubLogin] = useState('')
+  const [password, setPassword] = useState('')
   const [role, setRole] = useState<UserRole>(UserRole.USER)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -24,7 +26,9 @@ const CreateUserPage = () => {
       await userService.create({
         name,
         email,
-        role
+        role,
+        githubLogin: githubLogin.trim() || null,
+        password: password || undefined
       })
       navigate('/users')
     } catch (err) {
@@ -82,6 +86,44 @@ const CreateUserPage = () => {
             />
           </div>
 
+          <div className="mb-4">
+            <label
+              htmlFor="githubLogin"
+              className="block text-sm font-medium text-neutral-700 mb-1"
+            >
+              GitHub 로그인 <span className="text-neutral-400">(선택)</span>
+            </label>
+            <input
+              type="text"
+              id="githubLogin"
+              value={githubLogin}
+              onChange={e => setGithubLogin(e.target.value)}
+              className="input"
+              placeholder="octocat"
+            />
+            <p className="mt-1 text-xs text-neutral-500">
+              릴리즈 작성자와 연결해 사용자 상세에서 릴리즈 이력을 보여줍니다.
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <label htmlFor="password" className="block text-sm font-medium text-neutral-700 mb-1">
+              비밀번호 <span className="text-neutral-400">(선택)</span>
+            </label>
+            <input
+              type="password"
+              id="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="input"
+              minLength={8}
+              autoComplete="new-password"
+            />
+            <p className="mt-1 text-xs text-neutral-500">
+              8자 이상. 비밀번호가 없는 사용자는 로그인할 수 없습니다.
+            </p>
+          </div>
+
           <div className="mb-6">
             <label htmlFor="role" className="block text-sm font-medium text-neutral-700 mb-1">
               역할
@@ -1,47 +1,36 @@
-import React, { useEffect, useState } from "react";
-import axios from "axios";
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import {
-    BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, PieChart, Pie, Cell, Legend
+    BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, PieChart, Pie, Cell, Legend, ReferenceLine
 } from "recharts";
-
-// --- 서버 API 응답 타입 ---
-interface DashboardStats {
-    yearStats: { year: string; count: number }[];
-    monthStats: Record<string, { month: string; count: number }[]>;
-    allYears: string[];
-    weekdayStats: { weekday: string; count: number }[];
-    releaseTypeStats: { type: string; count: number }[];
-    top3Months: { month: string; count: number }[];
-    avgReleaseInterval: number;
-}
-
-// --- 색상 팔레트 ---
-const COLORS = [
-    "#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#D92B2B", "#8936FF", "#FFB3DD"
-];
-
-// --- 카드 컴포넌트 ---
-function Card({ children }: { children: React.ReactNode }) {
-    return (
-        <div style={{
-            background: "#fafbfc",
-            borderRadius: 16,
-            boxShadow: "0 2px 12px #0001",
-            padding: 28,
-            minHeight: 350,
-            width: "100%",
-            display: "flex",
-            flexDirection: "column",
-            justifyContent: "center",
-        }}>
-            {children}
-        </div>
-    );
-}
+import { dashboardService, repoService } from "../services/api";
+import { Anomaly, DashboardStats, DashboardFilters } from "../types/dashboard";
+import { Repo } from "../types/repo";
+import DashboardFilterBar from "../components/dashboard/DashboardFilterBar";
+import ComparisonView from "../components/dashboard/ComparisonView";
+import VersionSection from "../components/dashboard/VersionSection";
+import ChangeCompositionCard from "../components/dashboard/ChangeCompositionCard";
+import OffHoursCard from "../components/dashboard/OffHoursCard";
+import CadenceCard from "../components/dashboard/CadenceCard";
+import AnomalyCard from "../components/dashboard/AnomalyCard";
+import AuthorStatsCard from "../components/dashboard/AuthorStatsCard";
+import AssetStatsCard from "../components/dashboard/AssetStatsCard";
+import LeadTimeCard from "../components/dashboard/LeadTimeCard";
+import StatsExportButton from "../components/dashboard/StatsExportButton";
+import { SEVERITY_COLORS } from "../components/dashboard/anomalies";
+import { ChartFilterContext, describeFilters } from "../components/dashboard/chartImage";
+import Card from "../components/dashboard/Card";
+import { COLORS } from "../components/dashboard/colors";
+import { ReleaseDrilldown, releaseListPath } from "../components/dashboard/drilldown";
+import { DashboardViewState, dashboardSearchParams, parseDashboardParams } from "../components/dashboard/urlState";
+import CopyLinkButton from "../components/dashboard/CopyLinkButton";
+import DashboardViewBar from "../components/dashboard/DashboardViewBar";
+import { DASHBOARD_CARDS, DEFAULT_CARD_IDS, DashboardCardId } from "../components/dashboard/dashboardCards";
 
 // --- 바 차트 ---
-function SimpleBarChart({ data, dataKey, xKey, title, color }: {
+function SimpleBarChart({ data, dataKey, xKey, title, color, onItemClick }: {
     data: any[]; dataKey: string; xKey: string; title: string; color: string;
+    onItemClick?: (item: any) => void;
 }) {
     return (
         <>
@@ -51,15 +40,22 @@ function SimpleBarChart({ data, dataKey, xKey, title, color }: {
                 <XAxis dataKey={xKey} />
                 <YAxis allowDecimals={false} />
                 <Tooltip />
-                <Bar dataKey={dataKey} fill={color} radius={[7, 7, 0, 0]} />
+                <Bar
+                    dataKey={dataKey}
+                    fill={color}
+                    radius={[7, 7, 0, 0]}
+                    cursor={onItemClick ? "pointer" : undefined}
+                    onClick={bar => onItemClick?.(bar.payload)}
+                />
             </BarChart>
         </>
     );
 }
 
 // --- 파이 차트 ---
-function SimplePieChart({ data, dataKey, nameKey, title }: {
+function SimplePieChart({ data, dataKey, nameKey, title, onItemClick }: {
     data: any[]; dataKey: string; nameKey: string; title: string;
+    onItemClick?: (item: any) => void;
 }) {
     return (
         <>
@@ -72,6 +68,8 @@ function SimplePieChart({ data, dataKey, nameKey, title }: {
                     cx="50%"
                     cy="50%"
                     outerRadius={75}
+                    cursor={onItemClick ? "pointer" : undefined}
+                    onClick={slice => onItemClick?.(slice.payload)}
                 >
                     {data.map((_, idx) => (
                         <Cell key={idx} fill={COLORS[idx % COLORS.length]} />
@@ -86,120 +84,320 @@ function SimplePieChart({ data, dataKey, nameKey, title }: {
 
 // --- 메인 대시보드 컴포넌트 ---
 function Dashboard() {
+    const navigate = useNavigate();
+    // 화면 상태(필터/연도/비교 모드)는 URL 쿼리스트링에 두어 새로고침/링크 공유 시 같은 화면을 보여준다
+    const [searchParams, setSearchParams] = useSearchParams();
+    const view = useMemo(() => parseDashboardParams(searchParams), [searchParams]);
+    const { filters, compare: compareMode } = view;
+    const filterKey = JSON.stringify(filters);
+    // 처음 열었을 때 URL에 화면 상태가 없으면 저장된 기본 뷰를 적용한다
+    const [isPristine] = useState(() => searchParams.toString() === "");
     const [stats, setStats] = useState<DashboardStats | null>(null);
-    const [selectedYear, setSelectedYear] = useState<string>("");
+    const [repos, setRepos] = useState<Repo[]>([]);
+    const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+    const [statsError, setStatsError] = useState<string | null>(null);
+    const [reposError, setReposError] = useState<string | null>(null);
+
+    const updateView = (updates: Partial<DashboardViewState>) =>
+        setSearchParams(dashboardSearchParams({ ...view, ...updates }));
+    const applyView = (next: DashboardViewState, options?: { replace: boolean }) =>
+        setSearchParams(dashboardSearchParams(next), options);
+    const setFilters = (next: DashboardFilters) => updateView({ filters: next });
 
-    // 최초 로딩 시 전체 통계 fetch
+    // 필터 선택지로 쓸 저장소 목록
+    // (각 fetch effect는 cleanup에서 cancelled를 세워, 언마운트/필터 변경 뒤 늦게 온 응답은 버린다)
     useEffect(() => {
-        axios.get<DashboardStats>("/api/dashboard/stats")
-            .then(res => {
-                setStats(res.data);
-                // 연도 선택 기본값: 최신 연도
-                if (res.data.allYears.length) {
-                    setSelectedYear(res.data.allYears[res.data.allYears.length - 1]);
-                }
+        let cancelled = false;
+        repoService.getAll()
+            .then(data => {
+                if (cancelled) return;
+                setRepos(data);
+                setReposError(null);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error("Failed to fetch repos:", err);
+                setReposError("저장소 목록을 불러오는데 실패했습니다.");
             });
+        return () => {
+            cancelled = true;
+        };
     }, []);
 
+    // 형식이 잘못된 값과 등록되지 않은 저장소는 URL에서 정리한다
+    useEffect(() => {
+        const knownRepos = repos.length
+            ? filters.repos.filter(name => repos.some(repo => repo.fullName === name))
+            : filters.repos;
+        const normalized = dashboardSearchParams({ ...view, filters: { ...filters, repos: knownRepos } });
+        if (normalized.toString() !== searchParams.toString()) {
+            setSearchParams(normalized, { replace: true });
+        }
+    }, [searchParams, repos]);
+
+    // 필터가 바뀔 때마다 통계 fetch
+    useEffect(() => {
+        let cancelled = false;
+        dashboardService.getStats(filters, compareMode ? "repo" : undefined)
+            .then(data => {
+                if (cancelled) return;
+                setStats(data);
+                setStatsError(null);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error("Failed to fetch dashboard stats:", err);
+                setStatsError("통계 데이터를 불러오는데 실패했습니다.");
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [filterKey, compareMode]);
+
+    // 특이점은 비교 모드와 무관하게 필터 기준으로 fetch
+    useEffect(() => {
+        let cancelled = false;
+        dashboardService.getAnomalies(filters)
+            .then(data => {
+                if (!cancelled) setAnomalies(data.anomalies);
+            })
+            .catch(err => console.error("Failed to fetch anomalies:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, [filterKey]);
+
+    // 선택한 연도가 없거나 필터 결과에 없으면 최신 연도
+    const allYears = stats?.allYears ?? [];
+    const selectedYear = allYears.includes(view.year) ? view.year : allYears[allYears.length - 1] ?? "";
+    const setSelectedYear = (year: string) => updateView({ year });
+
+    // 차트 항목 클릭 -> 해당 릴리즈 목록으로 이동
+    const drilldown = (target: ReleaseDrilldown) => navigate(releaseListPath(filters, target));
+
+    const repoLabels = Object.fromEntries(repos.map(r => [r.fullName, r.displayName || r.fullName]));
+
+    // 선택한 연도의 burst를 월별 차트에 표시 (같은 월은 가장 높은 심각도 하나만)
+    const monthBursts = new Map<string, Anomaly>();
+    for (const anomaly of anomalies) {
+        if (anomaly.kind !== "burst" || !anomaly.start.startsWith(`${selectedYear}-`)) continue;
+        const month = anomaly.start.slice(5, 7);
+        if (!monthBursts.has(month)) monthBursts.set(month, anomaly);
+    }
+
     if (!stats) {
         return (
             <div className="w-full flex justify-center items-center" style={{ minHeight: 480 }}>
-                <div className="text-xl text-neutral-600">통계 데이터를 불러오는 중...</div>
+                {statsError
+                    ? <div className="text-xl text-red-800">{statsError}</div>
+                    : <div className="text-xl text-neutral-600">통계 데이터를 불러오는 중...</div>}
             </div>
         );
     }
 
-    return (
-        <div style={{ background: "#f4f6fa", minHeight: "100vh", padding: "32px 0" }}>
-            <div style={{
-                maxWidth: 1180, margin: "0 auto", padding: 8,
-            }}>
-                <div style={{ marginBottom: 24 }}>
-                    <div style={{ fontSize: 32, fontWeight: 900, marginBottom: 8, color: "#20232a" }}>
-                        Release Tracker Dashboard
-                    </div>
-                    <div style={{ fontSize: 17, color: "#555", marginBottom: 16 }}>
-                        GitHub Release 통계를 한눈에 시각화합니다.
-                    </div>
+    // 이미 받은 통계가 있으면 그대로 보여주고 실패 메시지만 위에 띄운다
+    const loadErrors = [statsError, reposError].filter(Boolean);
+
+    // 카드 id -> 카드 (표시 여부와 순서는 URL/저장된 뷰의 cards)
+    const cardContent: Record<DashboardCardId, ReactNode> = {
+        yearly: (
+            <Card>
+                <SimpleBarChart
+                    data={stats.yearStats}
+                    dataKey="count"
+                    xKey="year"
+                    title="연도별 릴리즈 수"
+                    color="#0088FE"
+                    onItemClick={item => drilldown({ year: item.year })}
+                />
+            </Card>
+        ),
+        monthly: (
+            <Card>
+                <div style={{ display: "flex", alignItems: "center", marginBottom: 8 }}>
+                    <h2 style={{ fontSize: 19, fontWeight: 700, margin: 0, marginRight: 16 }}>
+                        {selectedYear}년 월별 릴리즈 수
+                    </h2>
+                    <select
+                        style={{ fontSize: 16, padding: "2px 12px", borderRadius: 7, border: "1px solid #eee" }}
+                        value={selectedYear}
+                        onChange={e => setSelectedYear(e.target.value)}
+                    >
+                        {stats.allYears.map(y => (
+                            <option key={y} value={y}>{y}년</option>
+                        ))}
+                    </select>
                 </div>
-                {/* 카드 그리드 레이아웃 */}
+                <BarChart width={380} height={220} data={stats.monthStats[selectedYear] || []}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    {[...monthBursts].map(([month, anomaly]) => (
+                        <ReferenceLine
+                            key={month}
+                            x={month}
+                            stroke={SEVERITY_COLORS[anomaly.severity]}
+                            strokeDasharray="4 4"
+                        />
+                    ))}
+                    <Bar
+                        dataKey="count"
+                        fill="#00C49F"
+                        radius={[7, 7, 0, 0]}
+                        cursor="pointer"
+                        onClick={bar => drilldown({ year: selectedYear, month: bar.payload.month })}
+                    />
+                </BarChart>
+            </Card>
+        ),
+        weekday: (
+            <Card>
+                <SimplePieChart
+                    data={stats.weekdayStats}
+                    dataKey="count"
+                    nameKey="weekday"
+                    title="요일별 릴리즈 비율"
+                    onItemClick={item => drilldown({ weekday: item.weekday })}
+                />
+            </Card>
+        ),
+        releaseType: (
+            <Card>
+                <SimplePieChart
+                    data={stats.releaseTypeStats}
+                    dataKey="count"
+                    nameKey="type"
+                    title="릴리즈 유형별 비율 (Draft / Prerelease / Release)"
+                    onItemClick={item => drilldown({ type: item.type })}
+                />
+            </Card>
+        ),
+        topMonths: (
+            <Card>
+                <SimpleBarChart
+                    data={stats.top3Months}
+                    dataKey="count"
+                    xKey="month"
+                    title="역대 릴리즈가 가장 많았던 월 TOP 3"
+                    color="#FFBB28"
+                    onItemClick={item => drilldown({ month: item.month })}
+                />
+            </Card>
+        ),
+        interval: (
+            <Card>
                 <div style={{
-                    display: "grid",
-                    gridTemplateColumns: "1fr 1fr",
-                    gap: 32,
-                    alignItems: "stretch",
+                    width: "100%", height: "100%",
+                    display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center"
                 }}>
-                    <Card>
-                        <SimpleBarChart
-                            data={stats.yearStats}
-                            dataKey="count"
-                            xKey="year"
-                            title="연도별 릴리즈 수"
-                            color="#0088FE"
-                        />
-                    </Card>
-                    <Card>
-                        <div style={{ display: "flex", alignItems: "center", marginBottom: 8 }}>
-                            <h2 style={{ fontSize: 19, fontWeight: 700, margin: 0, marginRight: 16 }}>
-                                {selectedYear}년 월별 릴리즈 수
-                            </h2>
-                            <select
-                                style={{ fontSize: 16, padding: "2px 12px", borderRadius: 7, border: "1px solid #eee" }}
-                                value={selectedYear}
-                                onChange={e => setSelectedYear(e.target.value)}
+                    <div style={{ fontSize: 22, fontWeight: 700, marginBottom: 8 }}>평균 릴리즈 간격</div>
+                    <span style={{ fontSize: 34, color: "#0088FE", fontWeight: 900 }}>
+                        {stats.avgReleaseInterval ? `${stats.avgReleaseInterval}일` : "데이터 부족"}
+                    </span>
+                    {stats.avgReleaseInterval > 0 && (
+                        <span style={{ fontSize: 16, color: "#555", marginTop: 8 }}>
+                            근무일 기준 {stats.releaseIntervals.workingDays}일
+                        </span>
+                    )}
+                    {stats.cadence.summary.count > 0 && (
+                        <span style={{ fontSize: 14, color: "#777", marginTop: 4 }}>
+                            저장소별 중앙값 {stats.cadence.summary.median}일 · P90 {stats.cadence.summary.p90}일
+                        </span>
+                    )}
+                </div>
+            </Card>
+        ),
+        cadence: <CadenceCard cadence={stats.cadence} repoLabels={repoLabels} anomalies={anomalies} />,
+        anomalies: <AnomalyCard anomalies={anomalies} repoLabels={repoLabels} onDrilldown={drilldown} />,
+        offHours: <OffHoursCard stats={stats.offHours} includeWeekends={stats.includeWeekends} />,
+        changeComposition: <ChangeCompositionCard data={stats.changeComposition} />,
+        authors: <AuthorStatsCard stats={stats.authorStats} repoLabels={repoLabels} />,
+        assets: <AssetStatsCard stats={stats.assetStats} />,
+        leadTime: <LeadTimeCard stats={stats.leadTime} repoLabels={repoLabels} />,
+        versions: <VersionSection versionStats={stats.versionStats} repoLabels={repoLabels} />
+    };
+
+    // 저장소 비교 모드에서는 두 칸 카드 대신 비교 화면을 보여준다
+    const showComparison = compareMode && stats.comparison;
+    const visibleCards = (view.cards.length ? view.cards : DEFAULT_CARD_IDS)
+        .map(id => DASHBOARD_CARDS.find(card => card.id === id)!)
+        .filter(card => card.wide || !showComparison);
+
+    // 차트 이미지에 함께 그릴 필터 설명
+    const filterLabel = describeFilters(filters, stats.timezone, repoLabels);
+
+    return (
+        <ChartFilterContext.Provider value={filterLabel}>
+            <div style={{ background: "#f4f6fa", minHeight: "100vh", padding: "32px 0" }}>
+                <div style={{
+                    maxWidth: 1180, margin: "0 auto", padding: 8,
+                }}>
+                    <div style={{ marginBottom: 24, display: "flex", alignItems: "flex-end", justifyContent: "space-between" }}>
+                        <div>
+                            <div style={{ fontSize: 32, fontWeight: 900, marginBottom: 8, color: "#20232a" }}>
+                                Release Tracker Dashboard
+                            </div>
+                            <div style={{ fontSize: 17, color: "#555", marginBottom: 16 }}>
+                                GitHub Release 통계를 한눈에 시각화합니다.
+                            </div>
+                        </div>
+                        <div style={{ display: "flex", gap: 12 }}>
+                            <CopyLinkButton />
+                            <StatsExportButton filters={filters} groupBy={compareMode ? "repo" : undefined} />
+                            <button
+                                type="button"
+                                onClick={() => updateView({ compare: !compareMode })}
+                                style={{
+                                    fontSize: 15, fontWeight: 700, padding: "8px 16px", marginBottom: 16, borderRadius: 8,
+                                    border: "1px solid #0088FE", cursor: "pointer",
+                                    background: compareMode ? "#0088FE" : "#fff",
+                                    color: compareMode ? "#fff" : "#0088FE",
+                                }}
                             >
-                                {stats.allYears.map(y => (
-                                    <option key={y} value={y}>{y}년</option>
-                                ))}
-                            </select>
+                                {compareMode ? "전체 보기" : "저장소 비교"}
+                            </button>
                         </div>
-                        <BarChart width={380} height={220} data={stats.monthStats[selectedYear] || []}>
-                            <CartesianGrid strokeDasharray="3 3" />
-                            <XAxis dataKey="month" />
-                            <YAxis allowDecimals={false} />
-                            <Tooltip />
-                            <Bar dataKey="count" fill="#00C49F" radius={[7, 7, 0, 0]} />
-                        </BarChart>
-                    </Card>
-                    <Card>
-                        <SimplePieChart
-                            data={stats.weekdayStats}
-                            dataKey="count"
-                            nameKey="weekday"
-                            title="요일별 릴리즈 비율"
-                        />
-                    </Card>
-                    <Card>
-                        <SimplePieChart
-                            data={stats.releaseTypeStats}
-                            dataKey="count"
-                            nameKey="type"
-                            title="릴리즈 유형별 비율 (Draft / Prerelease / Release)"
-                        />
-                    </Card>
-                    <Card>
-                        <SimpleBarChart
-                            data={stats.top3Months}
-                            dataKey="count"
-                            xKey="month"
-                            title="역대 릴리즈가 가장 많았던 월 TOP 3"
-                            color="#FFBB28"
-                        />
-                    </Card>
-                    <Card>
-                        <div style={{
-                            width: "100%", height: "100%",
-                            display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center"
-                        }}>
-                            <div style={{ fontSize: 22, fontWeight: 700, marginBottom: 8 }}>평균 릴리즈 간격</div>
-                            <span style={{ fontSize: 34, color: "#0088FE", fontWeight: 900 }}>
-                                {stats.avgReleaseInterval ? `${stats.avgReleaseInterval}일` : "데이터 부족"}
-                            </span>
+                    </div>
+                    <DashboardViewBar view={view} applyDefault={isPristine} onApply={applyView} />
+                    <DashboardFilterBar
+                        repos={repos}
+                        filters={filters}
+                        timezone={stats.timezone}
+                        onChange={setFilters}
+                    />
+                    {loadErrors.map(message => (
+                        <div key={message} className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+                            <p>{message}</p>
                         </div>
-                    </Card>
+                    ))}
+                    {showComparison && (
+                        <ComparisonView
+                            comparison={stats.comparison!}
+                            repoLabels={repoLabels}
+                            allYears={stats.allYears}
+                            selectedYear={selectedYear}
+                            onYearChange={setSelectedYear}
+                            onDrilldown={drilldown}
+                        />
+                    )}
+                    {/* 카드 그리드 레이아웃 (wide 카드는 한 줄 전체) */}
+                    <div style={{
+                        display: "grid",
+                        gridTemplateColumns: "1fr 1fr",
+                        gap: 32,
+                        alignItems: "stretch",
+                        marginTop: showComparison ? 32 : 0,
+                    }}>
+                        {visibleCards.map(card => (
+                            <div key={card.id} style={{ display: "grid", gridColumn: card.wide ? "1 / -1" : undefined }}>
+                                {cardContent[card.id]}
+                            </div>
+                        ))}
+                    </div>
                 </div>
             </div>
-        </div>
+        </ChartFilterContext.Provider>
     );
 }
 
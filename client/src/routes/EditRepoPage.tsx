@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { repoService } from '../services/api'
+import { Repo } from '../types/repo'
+
+const EditRepoPage = () => {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [repo, setRepo] = useState<Repo | null>(null)
+  const [fullName, setFullName] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [defaultBranch, setDefaultBranch] = useState('')
+  const [enabled, setEnabled] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRepo = async () => {
+      if (!id) return
+
+      try {
+        setLoading(true)
+        const data = await repoService.getById(Number(id))
+        setRepo(data)
+        setFullName(data.fullName)
+        setDisplayName(data.displayName)
+        setDefaultBranch(data.defaultBranch)
+        setEnabled(data.enabled)
+        setError(null)
+      } catch (err) {
+        console.error('Failed to fetch repo:', err)
+        setError('저장소 정보를 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRepo()
+  }, [id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!repo || !id) return
+
+    if (!/^[^/\s]+\/[^/\s]+$/.test(fullName.trim())) {
+      setError('저장소는 owner/name 형식으로 입력해주세요.')
+      return
+    }
+
+    try {
+      setSaving(true)
+      await repoService.update(Number(id), {
+        fullName: fullName.trim(),
+        displayName: displayName.trim(),
+        defaultBranch: defaultBranch.trim() || 'main',
+        enabled
+      })
+      navigate('/repos')
+    } catch (err) {
+      console.error('Failed to update repo:', err)
+      setError('저장소 정보 수정에 실패했습니다.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-neutral-600">로딩 중...</div>
+      </div>
+    )
+  }
+
+  if (error && !repo) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+        <p>{error}</p>
+        <Link to="/repos" className="text-red-800 underline mt-2 inline-block">
+          저장소 목록으로 돌아가기
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-neutral-900">저장소 정보 수정</h1>
+        <div className="flex space-x-2">
+          <Link to="/repos" className="btn btn-secondary">
+            취소
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="mb-4">
+            <label htmlFor="fullName" className="block text-sm font-medium text-neutral-700 mb-1">
+              저장소
+            </label>
+            <input
+              type="text"
+              id="fullName"
+              value={fullName}
+              onChange={e => setFullName(e.target.value)}
+              className="input"
+              placeholder="daangn/stackflow"
+              required
+            />
+          </div>
+
+          <div className="mb-4">
+            <label
+              htmlFor="displayName"
+              className="block text-sm font-medium text-neutral-700 mb-1"
+            >
+              표시 이름
+            </label>
+            <input
+              type="text"
+              id="displayName"
+              value={displayName}
+              onChange={e => setDisplayName(e.target.value)}
+              className="input"
+              placeholder="Stackflow"
+            />
+          </div>
+
+          <div className="mb-4">
+            <label
+              htmlFor="defaultBranch"
+              className="block text-sm font-medium text-neutral-700 mb-1"
+            >
+              기본 브랜치
+            </label>
+            <input
+              type="text"
+              id="defaultBranch"
+              value={defaultBranch}
+              onChange={e => setDefaultBranch(e.target.value)}
+              className="input"
+              placeholder="main"
+            />
+          </div>
+
+          <div className="mb-6 flex items-center">
+            <input
+              type="checkbox"
+              id="enabled"
+              checked={enabled}
+              onChange={e => setEnabled(e.target.checked)}
+              className="mr-2"
+            />
+            <label htmlFor="enabled" className="text-sm font-medium text-neutral-700">
+              릴리즈 동기화 활성화
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <button type="submit" className="btn btn-primary" disabled={saving}>
+              {saving ? '저장 중...' : '변경사항 저장'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default EditRepoPage
@@ -9,6 +9,8 @@ const EditUserPage = () => {
   const [user, setUser] = useState<User | null>(null)
   const [name, setName] = useState('')
   const [email, setEmail] = useState('')
+  const [githubLogin, setGithubLogin] = useState('')
+  const [password, setPassword] = useState('')
   const [role, setRole] = useState<UserRole>(UserRole.USER)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
@@ -24,6 +26,7 @@ const EditUserPage = () => {
         setUser(data)
         setName(data.name)
         setEmail(data.email)
+        setGithubLogin(data.githubLogin ?? '')
         setRole(data.role)
         setError(null)
       } catch (err) {
@@ -52,7 +55,9 @@ const EditUserPage = () => {
       await userService.update(Number(id), {
         name,
         email,
-        role
+        role,
+        githubLogin: githubLogin.trim() || null,
+        password: password || undefined
       })
       navigate(`/users/${id}`)
     } catch (err) {
@@ -131,6 +136,41 @@ const EditUserPage = () => {
             />
           </div>
 
+          <div className="mb-4">
+            <label
+              htmlFor="githubLogin"
+              className="block text-sm font-medium text-neutral-700 mb-1"
+            >
+              GitHub 로그인 <span className="text-neutral-400">(선택)</span>
+            </label>
+            <input
+              type="text"
+              id="githubLogin"
+              value={githubLogin}
+              onChange={e => setGithubLogin(e.target.value)}
+              className="input"
+              placeholder="octocat"
+            />
+            <p className="mt-1 text-xs text-neutral-500">
+              릴리즈 작성자와 연결해 사용자 상세에서 릴리즈 이력을 보여줍니다.
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <label htmlFor="password" className="block text-sm font-medium text-neutral-700 mb-1">
+              새 비밀번호 <span className="text-neutral-400">(변경할 때만)</span>
+            </label>
+            <input
+              type="password"
+              id="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="input"
+              minLength={8}
+              autoComplete="new-password"
+            />
+          </div>
+
           <div className="mb-6">
             <label htmlFor="role" className="block text-sm font-medium text-neutral-700 mb-1">
               역할
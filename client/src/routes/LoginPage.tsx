@@ -0,0 +1,103 @@
+import { useState } from 'react'
+import { Location, Navigate, useLocation, useNavigate } from 'react-router-dom'
+import axios from 'axios'
+import { useAuth } from '../hooks/useAuth'
+
+const LoginPage = () => {
+  const { user, login } = useAuth()
+  const navigate = useNavigate()
+  const location = useLocation()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 로그인 후 원래 보려던 페이지로 돌아간다
+  const from = (location.state as { from?: Location } | null)?.from
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/'
+
+  if (user) {
+    return <Navigate to={redirectTo} replace />
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!email.trim() || !password) {
+      setError('이메일과 비밀번호를 입력해주세요.')
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      await login({ email: email.trim(), password })
+      navigate(redirectTo, { replace: true })
+    } catch (err) {
+      console.error('Failed to login:', err)
+      setError(
+        axios.isAxiosError(err) && err.response?.status === 401
+          ? '이메일 또는 비밀번호가 올바르지 않습니다.'
+          : '로그인에 실패했습니다.'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-neutral-50 px-4">
+      <div className="w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-neutral-900 text-center mb-6">로그인</h1>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+            <p>{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white shadow-md rounded-lg overflow-hidden">
+          <form onSubmit={handleSubmit} className="p-6">
+            <div className="mb-4">
+              <label htmlFor="email" className="block text-sm font-medium text-neutral-700 mb-1">
+                이메일
+              </label>
+              <input
+                type="email"
+                id="email"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                className="input"
+                placeholder="user@example.com"
+                autoComplete="username"
+                autoFocus
+                required
+              />
+            </div>
+
+            <div className="mb-6">
+              <label htmlFor="password" className="block text-sm font-medium text-neutral-700 mb-1">
+                비밀번호
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                className="input"
+                autoComplete="current-password"
+                required
+              />
+            </div>
+
+            <button type="submit" className="btn btn-primary w-full" disabled={loading}>
+              {loading ? '처리 중...' : '로그인'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LoginPage
@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import Markdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { releaseService } from '../services/api'
+import { ReleaseDetail } from '../types/release'
+import ReleaseTypeBadge from '../components/releases/ReleaseTypeBadge'
+import { formatBytes } from '../utils/format'
+
+// GitHub 릴리즈 첨부파일 다운로드 경로
+const assetUrl = (release: ReleaseDetail, name: string) =>
+  `https://github.com/${release.repo}/releases/download/${encodeURIComponent(
+    release.tagName
+  )}/${encodeURIComponent(name)}`
+
+const ReleaseDetailPage = () => {
+  const { id } = useParams<{ id: string }>()
+  const [release, setRelease] = useState<ReleaseDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRelease = async () => {
+      if (!id) return
+
+      try {
+        setLoading(true)
+        const data = await releaseService.getById(Number(id))
+        setRelease(data)
+        setError(null)
+      } catch (err) {
+        console.error('Failed to fetch release:', err)
+        setError('릴리즈 정보를 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRelease()
+  }, [id])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-neutral-600">로딩 중...</div>
+      </div>
+    )
+  }
+
+  if (error || !release) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+        <p>{error || '릴리즈를 찾을 수 없습니다.'}</p>
+        <Link to="/releases" className="text-red-800 underline mt-2 inline-block">
+          릴리즈 목록으로 돌아가기
+        </Link>
+      </div>
+    )
+  }
+
+  const { assets } = release
+  const { counts } = release.changelog
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-neutral-900">{release.tagName}</h1>
+          <p className="text-neutral-500 mt-1">
+            {release.repo}
+            {release.name && release.name !== release.tagName && ` · ${release.name}`}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Link to="/releases" className="btn btn-secondary">
+            목록으로
+          </Link>
+          {release.htmlUrl && (
+            <a
+              href={release.htmlUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="btn btn-primary"
+            >
+              GitHub에서 보기
+            </a>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden mb-6">
+        <div className="p-6 grid grid-cols-2 md:grid-cols-4 gap-6">
+          <div>
+            <h2 className="text-sm font-medium text-neutral-500">유형</h2>
+            <p className="mt-1">
+              <ReleaseTypeBadge isDraft={release.isDraft} isPrerelease={release.isPrerelease} />
+            </p>
+          </div>
+          <div>
+            <h2 className="text-sm font-medium text-neutral-500">작성자</h2>
+            <p className="mt-1 text-lg text-neutral-900">{release.author || '-'}</p>
+          </div>
+          <div>
+            <h2 className="text-sm font-medium text-neutral-500">배포일</h2>
+            <p className="mt-1 text-lg text-neutral-900">
+              {release.publishedAt ? new Date(release.publishedAt).toLocaleString() : '-'}
+            </p>
+          </div>
+          <div>
+            <h2 className="text-sm font-medium text-neutral-500">변경 구성</h2>
+            <p className="mt-1 text-neutral-900">
+              기능 {counts.features} · 수정 {counts.fixes} · 브레이킹 {counts.breakingChanges}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden mb-6">
+        <div className="p-6">
+          <h2 className="text-lg font-bold text-neutral-900 mb-4">릴리즈 노트</h2>
+          {release.body ? (
+            <div className="markdown-body">
+              <Markdown remarkPlugins={[remarkGfm]}>{release.body}</Markdown>
+            </div>
+          ) : (
+            <p className="text-neutral-500">릴리즈 노트가 없습니다.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="p-6">
+          <h2 className="text-lg font-bold text-neutral-900 mb-4">
+            첨부파일 <span className="text-neutral-500 font-normal">({assets.length})</span>
+          </h2>
+          {assets.length === 0 ? (
+            <p className="text-neutral-500">첨부파일이 없습니다.</p>
+          ) : (
+            <ul className="divide-y divide-neutral-200">
+              {assets.map(asset => (
+                <li key={asset.id} className="py-2 flex items-center gap-4">
+                  <a
+                    href={asset.downloadUrl || assetUrl(release, asset.name)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary-600 hover:text-primary-900"
+                  >
+                    {asset.name}
+                  </a>
+                  {asset.contentType && (
+                    <span className="text-xs text-neutral-500">{asset.contentType}</span>
+                  )}
+                  <span className="ml-auto text-sm text-neutral-500">
+                    {formatBytes(asset.size)}
+                    {asset.downloadCount !== null && ` · 다운로드 ${asset.downloadCount}회`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ReleaseDetailPage
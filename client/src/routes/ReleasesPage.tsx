@@ -0,0 +1,282 @@
+import { useState, useEffect, FormEvent } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { releaseService, repoService } from '../services/api'
+import { ReleaseListResult, ReleaseSortField } from '../types/release'
+import { Repo } from '../types/repo'
+import ReleaseTypeBadge from '../components/releases/ReleaseTypeBadge'
+import { formatMinutes } from '../utils/format'
+
+const PAGE_SIZE = 20
+
+const SORT_OPTIONS: { value: ReleaseSortField; label: string }[] = [
+  { value: 'publishedAt', label: '배포일' },
+  { value: 'createdAt', label: '생성일' },
+  { value: 'tagName', label: '태그' },
+  { value: 'name', label: '이름' },
+  { value: 'author', label: '작성자' },
+  { value: 'leadTime', label: '리드 타임' }
+]
+
+// 대시보드 드릴다운·사용자 상세에서 넘어오는 조건과 표시 이름
+const DRILLDOWN_LABELS: Record<string, string> = {
+  author: '작성자',
+  from: '시작일',
+  to: '종료일',
+  weekday: '요일',
+  year: '연도',
+  month: '월',
+  type: '유형',
+  tz: '시간대',
+  includeWeekends: '주말'
+}
+
+const formatDrilldownValue = (key: string, value: string) =>
+  key === 'includeWeekends' ? (value === 'false' ? '제외' : '포함') : value.split(',').join(', ')
+
+const headerCellClass =
+  'py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider'
+
+const ReleasesPage = () => {
+  // 검색 조건은 URL 쿼리스트링에 유지해 새로고침/공유 시에도 같은 목록을 보여준다
+  const [searchParams, setSearchParams] = useSearchParams()
+  const page = Number(searchParams.get('page')) || 1
+  const sort = (searchParams.get('sort') as ReleaseSortField) || 'publishedAt'
+  const order = searchParams.get('order') === 'asc' ? 'asc' : 'desc'
+  const q = searchParams.get('q') || ''
+  const repoParam = searchParams.get('repo') || ''
+  const repoList = repoParam.split(',').filter(Boolean)
+  const drilldown = Object.fromEntries(
+    Object.keys(DRILLDOWN_LABELS).map(key => [key, searchParams.get(key) || ''])
+  )
+  const drilldownKey = JSON.stringify(drilldown)
+
+  const [result, setResult] = useState<ReleaseListResult | null>(null)
+  const [repos, setRepos] = useState<Repo[]>([])
+  const [keyword, setKeyword] = useState(q)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    repoService
+      .getAll()
+      .then(setRepos)
+      .catch(err => console.error('Failed to fetch repos:', err))
+  }, [])
+
+  useEffect(() => {
+    setKeyword(q)
+  }, [q])
+
+  useEffect(() => {
+    const fetchReleases = async () => {
+      try {
+        setLoading(true)
+        const data = await releaseService.getAll({
+          page,
+          limit: PAGE_SIZE,
+          sort,
+          order,
+          q,
+          repos: repoList.length ? repoList : undefined,
+          ...drilldown
+        })
+        setResult(data)
+        setError(null)
+      } catch (err) {
+        console.error('Failed to fetch releases:', err)
+        setError('릴리즈 목록을 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReleases()
+  }, [page, sort, order, q, repoParam, drilldownKey])
+
+  // 조건이 바뀌면 첫 페이지로 이동
+  const updateParams = (updates: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams)
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) next.set(key, value)
+      else next.delete(key)
+    }
+    if (!('page' in updates)) next.delete('page')
+    setSearchParams(next)
+  }
+
+  const activeDrilldown = Object.entries(drilldown).filter(([, value]) => value)
+
+  const clearDrilldown = () =>
+    updateParams({
+      ...Object.fromEntries(Object.keys(DRILLDOWN_LABELS).map(key => [key, ''])),
+      ...(repoList.length > 1 && { repo: '' })
+    })
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault()
+    updateParams({ q: keyword.trim() })
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-neutral-900">릴리즈</h1>
+        {result && <span className="text-sm text-neutral-500">총 {result.total}건</span>}
+      </div>
+
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-2 mb-6">
+        <input
+          type="search"
+          value={keyword}
+          onChange={e => setKeyword(e.target.value)}
+          placeholder="태그, 이름, 작성자, 릴리즈 노트 검색"
+          className="input flex-1 min-w-[240px]"
+        />
+        <select
+          value={repoList.length === 1 ? repoList[0] : ''}
+          onChange={e => updateParams({ repo: e.target.value })}
+          className="input w-auto"
+        >
+          <option value="">전체 저장소</option>
+          {repos.map(r => (
+            <option key={r.id} value={r.fullName}>
+              {r.displayName || r.fullName}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sort}
+          onChange={e => updateParams({ sort: e.target.value })}
+          className="input w-auto"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => updateParams({ order: order === 'asc' ? 'desc' : 'asc' })}
+          className="btn btn-secondary"
+        >
+          {order === 'asc' ? '오름차순' : '내림차순'}
+        </button>
+        <button type="submit" className="btn btn-primary">
+          검색
+        </button>
+      </form>
+
+      {(activeDrilldown.length > 0 || repoList.length > 1) && (
+        <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+          <span className="text-neutral-500">적용된 조건</span>
+          {repoList.length > 1 && (
+            <span className="px-2 py-1 rounded-full bg-primary-100 text-primary-800">
+              저장소: {repoList.join(', ')}
+            </span>
+          )}
+          {activeDrilldown.map(([key, value]) => (
+            <span key={key} className="px-2 py-1 rounded-full bg-primary-100 text-primary-800">
+              {DRILLDOWN_LABELS[key]}: {formatDrilldownValue(key, value)}
+            </span>
+          ))}
+          <button
+            type="button"
+            onClick={clearDrilldown}
+            className="text-neutral-600 hover:text-neutral-900 underline"
+          >
+            조건 해제
+          </button>
+        </div>
+      )}
+
+      {error ? (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : loading && !result ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="text-neutral-600">로딩 중...</div>
+        </div>
+      ) : !result || result.releases.length === 0 ? (
+        <div className="bg-neutral-50 border border-neutral-200 rounded-md p-8 text-center">
+          <p className="text-neutral-600">조건에 맞는 릴리즈가 없습니다.</p>
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white border border-neutral-200 rounded-lg">
+              <thead className="bg-neutral-50">
+                <tr>
+                  <th className={headerCellClass}>태그</th>
+                  <th className={headerCellClass}>저장소</th>
+                  <th className={headerCellClass}>작성자</th>
+                  <th className={headerCellClass}>유형</th>
+                  <th className={headerCellClass}>배포일</th>
+                  <th className={headerCellClass}>리드 타임</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-200">
+                {result.releases.map(release => (
+                  <tr key={release.id} className="hover:bg-neutral-50">
+                    <td className="py-4 px-4">
+                      <Link
+                        to={`/releases/${release.id}`}
+                        className="text-primary-600 hover:text-primary-900 font-medium"
+                      >
+                        {release.tagName}
+                      </Link>
+                      {release.name && release.name !== release.tagName && (
+                        <div className="text-sm text-neutral-500">{release.name}</div>
+                      )}
+                    </td>
+                    <td className="py-4 px-4 whitespace-nowrap">{release.repo}</td>
+                    <td className="py-4 px-4 whitespace-nowrap">{release.author}</td>
+                    <td className="py-4 px-4 whitespace-nowrap">
+                      <ReleaseTypeBadge
+                        isDraft={release.isDraft}
+                        isPrerelease={release.isPrerelease}
+                      />
+                    </td>
+                    <td className="py-4 px-4 whitespace-nowrap">
+                      {release.publishedAt
+                        ? new Date(release.publishedAt).toLocaleDateString()
+                        : '-'}
+                    </td>
+                    <td className="py-4 px-4 whitespace-nowrap">
+                      {formatMinutes(release.leadTimeMinutes)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-center items-center gap-4 mt-6">
+            <button
+              type="button"
+              disabled={page <= 1}
+              onClick={() => updateParams({ page: String(page - 1) })}
+              className="btn btn-secondary disabled:opacity-50"
+            >
+              이전
+            </button>
+            <span className="text-sm text-neutral-600">
+              {result.page} / {Math.max(result.totalPages, 1)}
+            </span>
+            <button
+              type="button"
+              disabled={page >= result.totalPages}
+              onClick={() => updateParams({ page: String(page + 1) })}
+              className="btn btn-secondary disabled:opacity-50"
+            >
+              다음
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ReleasesPage
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { repoService } from '../services/api'
+import { Repo } from '../types/repo'
+import { UserRole } from '../types/user'
+import { useAuth } from '../hooks/useAuth'
+
+const ReposPage = () => {
+  const { hasRole } = useAuth()
+  const isAdmin = hasRole(UserRole.ADMIN)
+  const [repos, setRepos] = useState<Repo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRepos = async () => {
+      try {
+        setLoading(true)
+        const data = await repoService.getAll()
+        setRepos(data)
+        setError(null)
+      } catch (err) {
+        console.error('Failed to fetch repos:', err)
+        setError('저장소 목록을 불러오는데 실패했습니다.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRepos()
+  }, [])
+
+  const handleToggle = async (repo: Repo) => {
+    try {
+      const updated = await repoService.update(repo.id, { enabled: !repo.enabled })
+      setRepos(repos.map(r => (r.id === updated.id ? updated : r)))
+    } catch (err) {
+      console.error('Failed to update repo:', err)
+      alert('저장소 상태 변경에 실패했습니다.')
+    }
+  }
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm('이 저장소와 수집된 릴리즈를 모두 삭제하시겠습니까?')) {
+      return
+    }
+
+    try {
+      await repoService.delete(id)
+      setRepos(repos.filter(repo => repo.id !== id))
+    } catch (err) {
+      console.error('Failed to delete repo:', err)
+      alert('저장소 삭제에 실패했습니다.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-neutral-600">로딩 중...</div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+        <p>{error}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-neutral-900">저장소 관리</h1>
+        {isAdmin && (
+          <Link to="/repos/new" className="btn btn-primary">
+            새 저장소 추가
+          </Link>
+        )}
+      </div>
+
+      {repos.length === 0 ? (
+        <div className="bg-neutral-50 border border-neutral-200 rounded-md p-8 text-center">
+          <p className="text-neutral-600">추적 중인 저장소가 없습니다.</p>
+          {isAdmin && (
+            <Link to="/repos/new" className="btn btn-primary mt-4">
+              첫 저장소 추가하기
+            </Link>
+          )}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white border border-neutral-200 rounded-lg">
+            <thead className="bg-neutral-50">
+              <tr>
+                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                  표시 이름
+                </th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                  저장소
+                </th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                  기본 브랜치
+                </th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                  상태
+                </th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                  마지막 동기화
+                </th>
+                <th className="py-3 px-4 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                  작업
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200">
+              {repos.map(repo => (
+                <tr key={repo.id} className="hover:bg-neutral-50">
+                  <td className="py-4 px-4 whitespace-nowrap">
+                    {repo.displayName || repo.fullName}
+                  </td>
+                  <td className="py-4 px-4 whitespace-nowrap">
+                    <a
+                      href={`https://github.com/${repo.fullName}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary-600 hover:text-primary-900"
+                    >
+                      {repo.fullName}
+                    </a>
+                  </td>
+                  <td className="py-4 px-4 whitespace-nowrap">{repo.defaultBranch}</td>
+                  <td className="py-4 px-4 whitespace-nowrap">
+                    <button
+                      onClick={() => handleToggle(repo)}
+                      disabled={!isAdmin}
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        repo.enabled
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-neutral-100 text-neutral-800'
+                      }`}
+                    >
+                      {repo.enabled ? '활성' : '비활성'}
+                    </button>
+                  </td>
+                  <td className="py-4 px-4 whitespace-nowrap">
+                    {repo.lastSyncedAt ? new Date(repo.lastSyncedAt).toLocaleString() : '-'}
+                  </td>
+                  <td className="py-4 px-4 whitespace-nowrap text-right text-sm font-medium">
+                    {isAdmin && (
+                      <>
+                        <Link
+                          to={`/repos/${repo.id}/edit`}
+                          className="text-indigo-600 hover:text-indigo-900 mr-4"
+                        >
+                          수정
+                        </Link>
+                        <button
+                          onClick={() => handleDelete(repo.id)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          삭제
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ReposPage
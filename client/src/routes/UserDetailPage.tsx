@@ -1,12 +1,17 @@
 import { useState, useEffect } from 'react'
 import { useParams, Link, useNavigate } from 'react-router-dom'
 import { userService } from '../services/api'
-import { User } from '../types/user'
+import { User, UserReleaseSummary, UserRole } from '../types/user'
+import ReleaseTypeBadge from '../components/releases/ReleaseTypeBadge'
+import { useAuth } from '../hooks/useAuth'
+import ApiTokenPanel from '../components/users/ApiTokenPanel'
 
 const UserDetailPage = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
+  const { user: currentUser, hasRole } = useAuth()
   const [user, setUser] = useState<User | null>(null)
+  const [releaseSummary, setReleaseSummary] = useState<UserReleaseSummary | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -18,6 +23,7 @@ const UserDetailPage = () => {
         setLoading(true)
         const data = await userService.getById(Number(id))
         setUser(data)
+        setReleaseSummary(data.githubLogin ? await userService.getReleases(data.id) : null)
         setError(null)
       } catch (err) {
         console.error('Failed to fetch user:', err)
@@ -73,12 +79,16 @@ const UserDetailPage = () => {
           <Link to="/users" className="btn btn-secondary">
             목록으로
           </Link>
-          <Link to={`/users/${user.id}/edit`} className="btn btn-primary">
-            수정
-          </Link>
-          <button onClick={handleDelete} className="btn bg-red-600 text-white hover:bg-red-700">
-            삭제
-          </button>
+          {hasRole(UserRole.ADMIN) && (
+            <>
+              <Link to={`/users/${user.id}/edit`} className="btn btn-primary">
+                수정
+              </Link>
+              <button onClick={handleDelete} className="btn bg-red-600 text-white hover:bg-red-700">
+                삭제
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -97,6 +107,23 @@ const UserDetailPage = () => {
               <h2 className="text-sm font-medium text-neutral-500">이메일</h2>
               <p className="mt-1 text-lg text-neutral-900">{user.email}</p>
             </div>
+            <div>
+              <h2 className="text-sm font-medium text-neutral-500">GitHub 로그인</h2>
+              <p className="mt-1 text-lg text-neutral-900">
+                {user.githubLogin ? (
+                  <a
+                    href={`https://github.com/${user.githubLogin}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary-600 hover:text-primary-900"
+                  >
+                    {user.githubLogin}
+                  </a>
+                ) : (
+                  '-'
+                )}
+              </p>
+            </div>
             <div>
               <h2 className="text-sm font-medium text-neutral-500">역할</h2>
               <p className="mt-1">
@@ -128,6 +155,90 @@ const UserDetailPage = () => {
           </div>
         </div>
       </div>
+
+      {user.githubLogin && releaseSummary && (
+        <div className="bg-white shadow-md rounded-lg overflow-hidden mt-6">
+          <div className="p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-bold text-neutral-900">릴리즈 이력</h2>
+              {releaseSummary.total > 0 && (
+                <Link
+                  to={`/releases?author=${encodeURIComponent(user.githubLogin)}`}
+                  className="text-primary-600 hover:text-primary-900 text-sm"
+                >
+                  전체 보기
+                </Link>
+              )}
+            </div>
+
+            {releaseSummary.total === 0 ? (
+              <p className="text-neutral-500">{user.githubLogin}(으)로 작성된 릴리즈가 없습니다.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                  <div>
+                    <h3 className="text-sm font-medium text-neutral-500">릴리즈 수</h3>
+                    <p className="mt-1 text-lg text-neutral-900">{releaseSummary.total}건</p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-neutral-500">마지막 릴리즈</h3>
+                    <p className="mt-1 text-lg text-neutral-900">
+                      {releaseSummary.lastPublishedAt
+                        ? new Date(releaseSummary.lastPublishedAt).toLocaleDateString()
+                        : '-'}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-neutral-500">저장소</h3>
+                    <ul className="mt-1 text-neutral-900">
+                      {releaseSummary.repos.map(repo => (
+                        <li key={repo.repo}>
+                          <Link
+                            to={`/releases?author=${encodeURIComponent(
+                              user.githubLogin!
+                            )}&repo=${encodeURIComponent(repo.repo)}`}
+                            className="text-primary-600 hover:text-primary-900"
+                          >
+                            {repo.repo}
+                          </Link>{' '}
+                          <span className="text-neutral-500">({repo.count})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+
+                <h3 className="text-sm font-medium text-neutral-500 mb-2">최근 릴리즈</h3>
+                <ul className="divide-y divide-neutral-200">
+                  {releaseSummary.recentReleases.map(release => (
+                    <li key={release.id} className="py-2 flex items-center gap-3">
+                      <Link
+                        to={`/releases/${release.id}`}
+                        className="text-primary-600 hover:text-primary-900 font-medium"
+                      >
+                        {release.tagName}
+                      </Link>
+                      <span className="text-sm text-neutral-500">{release.repo}</span>
+                      <ReleaseTypeBadge
+                        isDraft={release.isDraft}
+                        isPrerelease={release.isPrerelease}
+                      />
+                      <span className="ml-auto text-sm text-neutral-500">
+                        {release.publishedAt
+                          ? new Date(release.publishedAt).toLocaleDateString()
+                          : '-'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* API 토큰은 본인만 관리 */}
+      {currentUser?.id === user.id && <ApiTokenPanel user={user} />}
     </div>
   )
 }
@@ -1,19 +1,49 @@
-import { useState, useEffect } from 'react'
-import { Link } from 'react-router-dom'
+import { useState, useEffect, FormEvent } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
 import { userService } from '../services/api'
-import { User } from '../types/user'
+import { UserListResult, UserRole, UserSortField } from '../types/user'
+import { useAuth } from '../hooks/useAuth'
+
+const PAGE_SIZE = 20
+
+const COLUMNS: { field: UserSortField; label: string }[] = [
+  { field: 'id', label: 'ID' },
+  { field: 'name', label: '이름' },
+  { field: 'email', label: '이메일' },
+  { field: 'role', label: '역할' },
+  { field: 'createdAt', label: '생성일' }
+]
+
+const ROLE_OPTIONS = Object.values(UserRole)
+
+const headerCellClass =
+  'py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider'
 
 const UsersPage = () => {
-  const [users, setUsers] = useState<User[]>([])
+  const { hasRole } = useAuth()
+  const isAdmin = hasRole(UserRole.ADMIN)
+  // 검색 조건은 URL 쿼리스트링에 유지해 새로고침/공유 시에도 같은 목록을 보여준다
+  const [searchParams, setSearchParams] = useSearchParams()
+  const page = Number(searchParams.get('page')) || 1
+  const sort = (searchParams.get('sort') as UserSortField) || 'id'
+  const order = searchParams.get('order') === 'desc' ? 'desc' : 'asc'
+  const q = searchParams.get('q') || ''
+  const role = (searchParams.get('role') as UserRole) || ''
+  const [result, setResult] = useState<UserListResult | null>(null)
+  const [keyword, setKeyword] = useState(q)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  useEffect(() => {
+    setKeyword(q)
+  }, [q])
+
   useEffect(() => {
     const fetchUsers = async () => {
       try {
         setLoading(true)
-        const data = await userService.getAll()
-        setUsers(data)
+        const data = await userService.getAll({ page, limit: PAGE_SIZE, sort, order, q, role })
+        setResult(data)
         setError(null)
       } catch (err) {
         console.error('Failed to fetch users:', err)
@@ -24,7 +54,30 @@ const UsersPage = () => {
     }
 
     fetchUsers()
-  }, [])
+  }, [page, sort, order, q, role])
+
+  // 조건이 바뀌면 첫 페이지로 이동
+  const updateParams = (updates: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams)
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) next.set(key, value)
+      else next.delete(key)
+    }
+    if (!('page' in updates)) next.delete('page')
+    setSearchParams(next)
+  }
+
+  // 같은 컬럼을 다시 누르면 정렬 방향을 바꾼다
+  const handleSort = (field: UserSortField) =>
+    updateParams({
+      sort: field,
+      order: field === sort && order === 'asc' ? 'desc' : 'asc'
+    })
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault()
+    updateParams({ q: keyword.trim() })
+  }
 
   const handleDelete = async (id: number) => {
     if (!window.confirm('정말로 이 사용자를 삭제하시겠습니까?')) {
@@ -33,117 +86,186 @@ const UsersPage = () => {
 
     try {
       await userService.delete(id)
-      setUsers(users.filter(user => user.id !== id))
+      setResult(
+        prev =>
+          prev && {
+            ...prev,
+            users: prev.users.filter(user => user.id !== id),
+            total: prev.total - 1
+          }
+      )
     } catch (err) {
       console.error('Failed to delete user:', err)
       alert('사용자 삭제에 실패했습니다.')
     }
   }
 
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center h-64">
-        <div className="text-neutral-600">로딩 중...</div>
-      </div>
-    )
-  }
-
-  if (error) {
-    return (
-      <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
-        <p>{error}</p>
-      </div>
-    )
-  }
+  const hasConditions = Boolean(q || role)
 
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-neutral-900">사용자 관리</h1>
-        <Link to="/users/new" className="btn btn-primary">
-          새 사용자 추가
-        </Link>
+        <div className="flex items-center gap-4">
+          {result && <span className="text-sm text-neutral-500">총 {result.total}명</span>}
+          {isAdmin && (
+            <Link to="/users/new" className="btn btn-primary">
+              새 사용자 추가
+            </Link>
+          )}
+        </div>
       </div>
 
-      {users.length === 0 ? (
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-2 mb-6">
+        <input
+          type="search"
+          value={keyword}
+          onChange={e => setKeyword(e.target.value)}
+          placeholder="이름, 이메일 검색"
+          className="input flex-1 min-w-[240px]"
+        />
+        <select
+          value={role}
+          onChange={e => updateParams({ role: e.target.value })}
+          className="input w-auto"
+          aria-label="역할"
+        >
+          <option value="">전체 역할</option>
+          {ROLE_OPTIONS.map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="btn btn-primary">
+          검색
+        </button>
+      </form>
+
+      {error ? (
+        <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 mb-6">
+          <p>{error}</p>
+        </div>
+      ) : loading && !result ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="text-neutral-600">로딩 중...</div>
+        </div>
+      ) : !result || result.users.length === 0 ? (
         <div className="bg-neutral-50 border border-neutral-200 rounded-md p-8 text-center">
-          <p className="text-neutral-600">등록된 사용자가 없습니다.</p>
-          <Link to="/users/new" className="btn btn-primary mt-4">
-            첫 사용자 추가하기
-          </Link>
+          <p className="text-neutral-600">
+            {hasConditions ? '조건에 맞는 사용자가 없습니다.' : '등록된 사용자가 없습니다.'}
+          </p>
+          {isAdmin && !hasConditions && (
+            <Link to="/users/new" className="btn btn-primary mt-4">
+              첫 사용자 추가하기
+            </Link>
+          )}
         </div>
       ) : (
-        <div className="overflow-x-auto">
-          <table className="min-w-full bg-white border border-neutral-200 rounded-lg">
-            <thead className="bg-neutral-50">
-              <tr>
-                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
-                  ID
-                </th>
-                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
-                  이름
-                </th>
-                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
-                  이메일
-                </th>
-                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
-                  역할
-                </th>
-                <th className="py-3 px-4 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
-                  생성일
-                </th>
-                <th className="py-3 px-4 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
-                  작업
-                </th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-neutral-200">
-              {users.map(user => (
-                <tr key={user.id} className="hover:bg-neutral-50">
-                  <td className="py-4 px-4 whitespace-nowrap">{user.id}</td>
-                  <td className="py-4 px-4 whitespace-nowrap">{user.name}</td>
-                  <td className="py-4 px-4 whitespace-nowrap">{user.email}</td>
-                  <td className="py-4 px-4 whitespace-nowrap">
-                    <span
-                      className={`px-2 py-1 text-xs rounded-full ${
-                        user.role === 'ADMIN'
-                          ? 'bg-purple-100 text-purple-800'
-                          : user.role === 'USER'
-                            ? 'bg-primary-100 text-primary-800'
-                            : 'bg-neutral-100 text-neutral-800'
-                      }`}
-                    >
-                      {user.role}
-                    </span>
-                  </td>
-                  <td className="py-4 px-4 whitespace-nowrap">
-                    {new Date(user.createdAt).toLocaleDateString()}
-                  </td>
-                  <td className="py-4 px-4 whitespace-nowrap text-right text-sm font-medium">
-                    <Link
-                      to={`/users/${user.id}`}
-                      className="text-primary-600 hover:text-primary-900 mr-4"
-                    >
-                      보기
-                    </Link>
-                    <Link
-                      to={`/users/${user.id}/edit`}
-                      className="text-indigo-600 hover:text-indigo-900 mr-4"
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full bg-white border border-neutral-200 rounded-lg">
+              <thead className="bg-neutral-50">
+                <tr>
+                  {COLUMNS.map(column => (
+                    <th
+                      key={column.field}
+                      className={headerCellClass}
+                      aria-sort={
+                        column.field === sort
+                          ? order === 'asc'
+                            ? 'ascending'
+                            : 'descending'
+                          : undefined
+                      }
                     >
-                      수정
-                    </Link>
-                    <button
-                      onClick={() => handleDelete(user.id)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      삭제
-                    </button>
-                  </td>
+                      <button
+                        type="button"
+                        onClick={() => handleSort(column.field)}
+                        className="uppercase tracking-wider hover:text-neutral-900"
+                      >
+                        {column.label}
+                        {column.field === sort && (order === 'asc' ? ' ▲' : ' ▼')}
+                      </button>
+                    </th>
+                  ))}
+                  <th className={`${headerCellClass} text-right`}>작업</th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+              </thead>
+              <tbody className="divide-y divide-neutral-200">
+                {result.users.map(user => (
+                  <tr key={user.id} className="hover:bg-neutral-50">
+                    <td className="py-4 px-4 whitespace-nowrap">{user.id}</td>
+                    <td className="py-4 px-4 whitespace-nowrap">{user.name}</td>
+                    <td className="py-4 px-4 whitespace-nowrap">{user.email}</td>
+                    <td className="py-4 px-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full ${
+                          user.role === 'ADMIN'
+                            ? 'bg-purple-100 text-purple-800'
+                            : user.role === 'USER'
+                              ? 'bg-primary-100 text-primary-800'
+                              : 'bg-neutral-100 text-neutral-800'
+                        }`}
+                      >
+                        {user.role}
+                      </span>
+                    </td>
+                    <td className="py-4 px-4 whitespace-nowrap">
+                      {new Date(user.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="py-4 px-4 whitespace-nowrap text-right text-sm font-medium">
+                      <Link
+                        to={`/users/${user.id}`}
+                        className="text-primary-600 hover:text-primary-900 mr-4"
+                      >
+                        보기
+                      </Link>
+                      {isAdmin && (
+                        <>
+                          <Link
+                            to={`/users/${user.id}/edit`}
+                            className="text-indigo-600 hover:text-indigo-900 mr-4"
+                          >
+                            수정
+                          </Link>
+                          <button
+                            onClick={() => handleDelete(user.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            삭제
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-center items-center gap-4 mt-6">
+            <button
+              type="button"
+              disabled={page <= 1}
+              onClick={() => updateParams({ page: String(page - 1) })}
+              className="btn btn-secondary disabled:opacity-50"
+            >
+              이전
+            </button>
+            <span className="text-sm text-neutral-600">
+              {result.page} / {Math.max(result.totalPages, 1)}
+            </span>
+            <button
+              type="button"
+              disabled={page >= result.totalPages}
+              onClick={() => updateParams({ page: String(page + 1) })}
+              className="btn btn-secondary disabled:opacity-50"
+            >
+              다음
+            </button>
+          </div>
+        </>
       )}
     </div>
   )
@@ -1,5 +1,40 @@
 import axios from 'axios'
-import { User, CreateUserDto, UpdateUserDto } from '../types/user'
+import {
+  User,
+  CreateUserDto,
+  UpdateUserDto,
+  UserListParams,
+  UserListResult,
+  UserReleaseSummary,
+  LoginDto
+} from '../types/user'
+import { Repo, CreateRepoDto, UpdateRepoDto } from '../types/repo'
+import {
+  ReleaseDetail,
+  ReleaseListParams,
+  ReleaseListResult,
+  ReleaseSummary
+} from '../types/release'
+import {
+  CalendarSettings,
+  CreateHolidayDto,
+  Holiday,
+  UpdateCalendarDto,
+  WorkingCalendar
+} from '../types/calendar'
+import {
+  AnomalyList,
+  DashboardStats,
+  DashboardFilters,
+  DashboardGroupBy,
+  StatsExportFormat
+} from '../types/dashboard'
+import {
+  CreateDashboardViewDto,
+  DashboardView,
+  UpdateDashboardViewDto
+} from '../types/dashboardView'
+import { ApiToken, CreateApiTokenDto, CreatedApiToken } from '../types/apiToken'
 
 // API 응답 타입
 interface ApiResponse<T = any> {
@@ -9,19 +44,71 @@ interface ApiResponse<T = any> {
   message?: string
 }
 
+// 페이지네이션 응답 타입
+interface PaginatedResponse<T> extends ApiResponse<T[]> {
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api'
 
 const api = axios.create({
   baseURL: API_BASE_URL,
+  // 세션 쿠키를 함께 보낸다
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json'
   }
 })
 
+// 세션이 만료되거나 없을 때(401) 호출할 핸들러 (AuthProvider가 등록)
+let unauthorizedHandler: (() => void) | null = null
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler
+}
+
+api.interceptors.response.use(undefined, error => {
+  if (axios.isAxiosError(error) && error.response?.status === 401) {
+    unauthorizedHandler?.()
+  }
+  return Promise.reject(error)
+})
+
+export const authService = {
+  login: async (credentials: LoginDto): Promise<User> => {
+    const response = await api.post<ApiResponse<User>>('/auth/login', credentials)
+    if (!response.data.data) {
+      throw new Error('로그인에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  logout: async (): Promise<void> => {
+    await api.post('/auth/logout')
+  },
+
+  // 로그인하지 않았으면 null
+  me: async (): Promise<User | null> => {
+    try {
+      const response = await api.get<ApiResponse<User>>('/auth/me')
+      return response.data.data ?? null
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) return null
+      throw err
+    }
+  }
+}
+
 export const userService = {
-  getAll: async (): Promise<User[]> => {
-    const response = await api.get<ApiResponse<User[]>>('/users')
-    return response.data.data || []
+  getAll: async (params: UserListParams): Promise<UserListResult> => {
+    // 빈 문자열 조건은 보내지 않는다
+    const query = Object.fromEntries(Object.entries(params).filter(([, value]) => value !== ''))
+    const response = await api.get<PaginatedResponse<User>>('/users', { params: query })
+    const { data, total, page, limit, totalPages } = response.data
+    return { users: data || [], total, page, limit, totalPages }
   },
 
   getById: async (id: number): Promise<User> => {
@@ -48,11 +135,207 @@ export const userService = {
     return response.data.data
   },
 
+  // GitHub 로그인이 연결되지 않은 사용자는 null
+  getReleases: async (id: number): Promise<UserReleaseSummary | null> => {
+    const response = await api.get<ApiResponse<UserReleaseSummary | null>>(`/users/${id}/releases`)
+    return response.data.data ?? null
+  },
+
   delete: async (id: number): Promise<void> => {
     await api.delete(`/users/${id}`)
   }
 }
 
+export const repoService = {
+  getAll: async (): Promise<Repo[]> => {
+    const response = await api.get<ApiResponse<Repo[]>>('/repos')
+    return response.data.data || []
+  },
+
+  getById: async (id: number): Promise<Repo> => {
+    const response = await api.get<ApiResponse<Repo>>(`/repos/${id}`)
+    if (!response.data.data) {
+      throw new Error('저장소를 찾을 수 없습니다.')
+    }
+    return response.data.data
+  },
+
+  create: async (repoData: CreateRepoDto): Promise<Repo> => {
+    const response = await api.post<ApiResponse<Repo>>('/repos', repoData)
+    if (!response.data.data) {
+      throw new Error('저장소 추가에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  update: async (id: number, repoData: UpdateRepoDto): Promise<Repo> => {
+    const response = await api.put<ApiResponse<Repo>>(`/repos/${id}`, repoData)
+    if (!response.data.data) {
+      throw new Error('저장소 정보 수정에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/repos/${id}`)
+  }
+}
+
+export const releaseService = {
+  getAll: async ({ repos, ...params }: ReleaseListParams): Promise<ReleaseListResult> => {
+    // 빈 문자열 조건은 보내지 않는다
+    const query = Object.fromEntries(Object.entries(params).filter(([, value]) => value !== ''))
+    const response = await api.get<PaginatedResponse<ReleaseSummary>>('/releases', {
+      params: { ...query, repo: repos },
+      paramsSerializer: { indexes: null }
+    })
+    const { data, total, page, limit, totalPages } = response.data
+    return { releases: data || [], total, page, limit, totalPages }
+  },
+
+  getById: async (id: number): Promise<ReleaseDetail> => {
+    const response = await api.get<ApiResponse<ReleaseDetail>>(`/releases/${id}`)
+    if (!response.data.data) {
+      throw new Error('릴리즈를 찾을 수 없습니다.')
+    }
+    return response.data.data
+  }
+}
+
+export const calendarService = {
+  get: async (): Promise<WorkingCalendar> => {
+    const response = await api.get<ApiResponse<WorkingCalendar>>('/calendar')
+    if (!response.data.data) {
+      throw new Error('근무 캘린더를 불러오는데 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  update: async (settings: UpdateCalendarDto): Promise<CalendarSettings> => {
+    const response = await api.put<ApiResponse<CalendarSettings>>('/calendar', settings)
+    if (!response.data.data) {
+      throw new Error('근무 캘린더 수정에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  createHoliday: async (holiday: CreateHolidayDto): Promise<Holiday> => {
+    const response = await api.post<ApiResponse<Holiday>>('/calendar/holidays', holiday)
+    if (!response.data.data) {
+      throw new Error('공휴일 추가에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  // iCal(.ics) 파일 내용으로 공휴일 가져오기
+  importHolidays: async (ics: string): Promise<{ imported: number; holidays: Holiday[] }> => {
+    const response = await api.post<ApiResponse<{ imported: number; holidays: Holiday[] }>>(
+      '/calendar/holidays/import',
+      { ics }
+    )
+    if (!response.data.data) {
+      throw new Error('공휴일 가져오기에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  deleteHoliday: async (id: number): Promise<void> => {
+    await api.delete(`/calendar/holidays/${id}`)
+  }
+}
+
+// 대시보드 필터 -> 쿼리 파라미터
+const dashboardFilterParams = (filters: DashboardFilters) => ({
+  repo: filters.repos,
+  from: filters.from || undefined,
+  to: filters.to || undefined,
+  tz: filters.tz || undefined,
+  includeWeekends: filters.includeWeekends || undefined
+})
+
+export const dashboardService = {
+  getStats: async (
+    filters: DashboardFilters,
+    groupBy?: DashboardGroupBy
+  ): Promise<DashboardStats> => {
+    const response = await api.get<DashboardStats>('/dashboard/stats', {
+      params: { ...dashboardFilterParams(filters), groupBy },
+      // repo=a&repo=b 형태로 직렬화
+      paramsSerializer: { indexes: null }
+    })
+    return response.data
+  },
+
+  // 통계 조회와 같은 조건으로 내보낸 파일
+  exportStats: async (
+    filters: DashboardFilters,
+    format: StatsExportFormat,
+    groupBy?: DashboardGroupBy
+  ): Promise<Blob> => {
+    const response = await api.get<Blob>('/dashboard/stats/export', {
+      params: { ...dashboardFilterParams(filters), groupBy, format },
+      paramsSerializer: { indexes: null },
+      responseType: 'blob'
+    })
+    return response.data
+  },
+
+  getAnomalies: async (filters: DashboardFilters): Promise<AnomalyList> => {
+    const response = await api.get<AnomalyList>('/dashboard/anomalies', {
+      params: dashboardFilterParams(filters),
+      paramsSerializer: { indexes: null }
+    })
+    return response.data
+  }
+}
+
+export const dashboardViewService = {
+  // 로그인한 사용자의 뷰 목록
+  getAll: async (): Promise<DashboardView[]> => {
+    const response = await api.get<ApiResponse<DashboardView[]>>('/dashboard-views')
+    return response.data.data || []
+  },
+
+  create: async (view: CreateDashboardViewDto): Promise<DashboardView> => {
+    const response = await api.post<ApiResponse<DashboardView>>('/dashboard-views', view)
+    if (!response.data.data) {
+      throw new Error('대시보드 뷰 저장에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  update: async (id: number, view: UpdateDashboardViewDto): Promise<DashboardView> => {
+    const response = await api.put<ApiResponse<DashboardView>>(`/dashboard-views/${id}`, view)
+    if (!response.data.data) {
+      throw new Error('대시보드 뷰 수정에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/dashboard-views/${id}`)
+  }
+}
+
+export const apiTokenService = {
+  getByUser: async (userId: number): Promise<ApiToken[]> => {
+    const response = await api.get<ApiResponse<ApiToken[]>>(`/users/${userId}/tokens`)
+    return response.data.data || []
+  },
+
+  create: async (userId: number, token: CreateApiTokenDto): Promise<CreatedApiToken> => {
+    const response = await api.post<ApiResponse<CreatedApiToken>>(`/users/${userId}/tokens`, token)
+    if (!response.data.data) {
+      throw new Error('API 토큰 생성에 실패했습니다.')
+    }
+    return response.data.data
+  },
+
+  delete: async (userId: number, id: number): Promise<void> => {
+    await api.delete(`/users/${userId}/tokens/${id}`)
+  }
+}
+
 export const healthService = {
   check: async (): Promise<{ status: string }> => {
     const response = await api.get<ApiResponse<{ status: string }>>('/health')
@@ -0,0 +1,25 @@
+// API 토큰 권한 범위 (admin:repos는 read:repos를 포함)
+export type ApiTokenScope = 'read:stats' | 'read:releases' | 'read:repos' | 'admin:repos'
+
+export interface ApiToken {
+  id: number
+  userId: number
+  name: string
+  // 토큰 앞부분 (목록에서 구분용)
+  prefix: string
+  scopes: ApiTokenScope[]
+  expiresAt: string
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+// 발급 직후에만 토큰 원문(secret)을 받을 수 있다
+export interface CreatedApiToken extends ApiToken {
+  secret: string
+}
+
+export interface CreateApiTokenDto {
+  name: string
+  scopes: ApiTokenScope[]
+  expiresInDays: number
+}
@@ -0,0 +1,30 @@
+export interface Holiday {
+  id: number
+  date: string
+  name: string
+  source: 'manual' | 'ical'
+  createdAt: string
+}
+
+// 근무 캘린더 설정
+export interface CalendarSettings {
+  weekendDays: string[]
+  workdayStartHour: number
+  workdayEndHour: number
+  updatedAt: string | null
+}
+
+export interface WorkingCalendar extends CalendarSettings {
+  holidays: Holiday[]
+}
+
+export interface UpdateCalendarDto {
+  weekendDays?: string[]
+  workdayStartHour?: number
+  workdayEndHour?: number
+}
+
+export interface CreateHolidayDto {
+  date: string
+  name?: string
+}
@@ -0,0 +1,213 @@
+// 대시보드 통계 API 응답 타입
+export interface DashboardStats {
+  // 요일/월/연도 버킷을 나눈 시간대
+  timezone: string
+  // 근무 캘린더의 주말 릴리즈 포함 여부
+  includeWeekends: boolean
+  yearStats: { year: string; count: number }[]
+  monthStats: Record<string, { month: string; count: number }[]>
+  allYears: string[]
+  weekdayStats: { weekday: string; count: number }[]
+  releaseTypeStats: { type: string; count: number }[]
+  top3Months: { month: string; count: number }[]
+  avgReleaseInterval: number
+  releaseIntervals: { calendarDays: number; workingDays: number }
+  cadence: CadenceStats
+  offHours: OffHoursStats
+  versionStats: VersionStats
+  changeComposition: ChangeCompositionStat[]
+  authorStats: AuthorStats
+  assetStats: AssetStats
+  leadTime: LeadTimeStats
+  comparison: DashboardComparison | null
+}
+
+// 릴리즈 간격 분포 요약 (일, 소수 첫째 자리)
+export interface GapSummary {
+  count: number
+  mean: number | null
+  median: number | null
+  p90: number | null
+  min: number | null
+  max: number | null
+}
+
+// 저장소별로 계산한 릴리즈 주기
+export interface CadenceStats {
+  summary: GapSummary
+  repos: (GapSummary & { repo: string })[]
+  // 주 단위 시점의 직전 30/90일 평균 간격
+  rolling: { date: string; rolling30: number | null; rolling90: number | null }[]
+  histogram: { minDays: number; maxDays: number | null; count: number }[]
+}
+
+// 릴리즈 특이점: 평소보다 릴리즈가 몰린 구간(burst) / 평소 주기보다 긴 공백(drought)
+export interface Anomaly {
+  kind: 'burst' | 'drought'
+  period: 'day' | 'week' | null
+  repo: string
+  start: string
+  end: string
+  severity: 'low' | 'medium' | 'high'
+  // burst: 릴리즈 수, drought: 공백 일수
+  value: number
+  baseline: number
+  releases: { id: number; tagName: string; publishedAt: string }[]
+}
+
+export interface AnomalyList {
+  timezone: string
+  includeWeekends: boolean
+  anomalies: Anomaly[]
+}
+
+// 근무 시간 외 릴리즈 (주말 / 공휴일 / 근무 시간 밖)
+export interface OffHoursStats {
+  total: number
+  offHours: number
+  weekend: number
+  holiday: number
+  outsideWorkHours: number
+  workdayStartHour: number
+  workdayEndHour: number
+}
+
+// 작성자(GitHub 로그인)별 릴리즈 통계
+export interface AuthorStats {
+  leaderboard: {
+    author: string
+    releases: number
+    repos: number
+    // 전체 릴리즈 중 비율 (%)
+    share: number
+    firstPublishedAt: string
+    lastPublishedAt: string
+    // 연결된 사용자 (없으면 null)
+    userId: number | null
+  }[]
+  topAuthors: string[]
+  // counts는 topAuthors와 '__others__'(나머지 작성자) 키로 나뉜다
+  monthly: { period: string; releasers: number; total: number; counts: Record<string, number> }[]
+  busFactor: {
+    repo: string
+    authors: number
+    // 릴리즈의 절반 이상을 담당하는 최소 작성자 수
+    busFactor: number
+    topAuthor: string
+    topAuthorShare: number
+  }[]
+}
+
+// 릴리즈 첨부파일 통계
+export interface AssetStats {
+  sizeByPeriod: {
+    period: string
+    releases: number
+    releasesWithAssets: number
+    assets: number
+    // 바이트
+    totalSize: number
+    avgReleaseSize: number
+    downloads: number
+  }[]
+  typesByPlatform: {
+    platform: string
+    total: number
+    types: { fileType: string; count: number }[]
+  }[]
+  withoutAssets: {
+    count: number
+    total: number
+    recent: { id: number; repo: string; tagName: string; publishedAt: string | null }[]
+  }
+}
+
+// 드래프트 생성 -> 공개 리드 타임 통계 (분 단위)
+export interface LeadTimeStats {
+  summary: GapSummary
+  byRepo: (GapSummary & { repo: string; longDraftThresholdMinutes: number })[]
+  byType: (GapSummary & { type: 'Prerelease' | 'Release' })[]
+  histogram: { minMinutes: number; maxMinutes: number | null; count: number }[]
+  longDrafts: {
+    id: number
+    repo: string
+    tagName: string
+    createdAt: string
+    publishedAt: string | null
+    leadTimeMinutes: number
+  }[]
+  // 아직 공개되지 않은 드래프트 (stale: 7일 이상 경과)
+  openDrafts: {
+    id: number
+    repo: string
+    tagName: string
+    createdAt: string
+    ageMinutes: number
+    stale: boolean
+  }[]
+}
+
+// 월별 릴리즈 노트 변경 구성
+export interface ChangeCompositionStat {
+  period: string
+  releases: number
+  features: number
+  fixes: number
+  breakingChanges: number
+  pullRequests: number
+}
+
+// 태그 semver 분석 통계
+export interface VersionStats {
+  bumpsByMonth: {
+    period: string
+    initial: number
+    major: number
+    minor: number
+    patch: number
+    prerelease: number
+  }[]
+  latestVersions: {
+    repo: string
+    packageName: string
+    latestVersion: string | null
+    latestPublishedAt: string | null
+    latestPrerelease: string | null
+    releaseCount: number
+  }[]
+  majorIntervals: {
+    repo: string
+    packageName: string
+    majorReleases: { version: string; publishedAt: string }[]
+    averageDaysBetweenMajors: number | null
+  }[]
+}
+
+// 저장소별 비교 통계 (groupBy=repo)
+export interface DashboardComparison {
+  repos: string[]
+  yearStats: { year: string; counts: Record<string, number> }[]
+  monthStats: Record<string, { month: string; counts: Record<string, number> }[]>
+  repoStats: {
+    repo: string
+    total: number
+    releaseTypes: { draft: number; prerelease: number; release: number }
+    avgReleaseInterval: number
+    avgWorkingDayInterval: number
+  }[]
+}
+
+export type DashboardGroupBy = 'repo'
+
+// 대시보드 통계 내보내기 형식
+export type StatsExportFormat = 'csv' | 'json' | 'xlsx'
+
+// 대시보드 통계 필터
+export interface DashboardFilters {
+  repos: string[]
+  from: string
+  to: string
+  // 빈 문자열이면 서버 기본 시간대
+  tz: string
+  includeWeekends: boolean
+}
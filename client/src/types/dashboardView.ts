@@ -0,0 +1,35 @@
+// 저장된 대시보드 뷰 API 타입
+export interface DashboardViewFilters {
+  repos: string[]
+  from?: string
+  to?: string
+  tz?: string
+  includeWeekends?: boolean
+}
+
+export interface DashboardView {
+  id: number
+  userId: number
+  name: string
+  filters: DashboardViewFilters
+  // 표시할 카드 id (표시 순서), 비어 있으면 모든 카드를 기본 순서로
+  cards: string[]
+  // 사용자의 기본 뷰 (사용자당 하나)
+  isDefault: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateDashboardViewDto {
+  name: string
+  filters: DashboardViewFilters
+  cards: string[]
+  isDefault?: boolean
+}
+
+export interface UpdateDashboardViewDto {
+  name?: string
+  filters?: DashboardViewFilters
+  cards?: string[]
+  isDefault?: boolean
+}
@@ -0,0 +1,91 @@
+export type ReleaseSortField =
+  | 'publishedAt'
+  | 'createdAt'
+  | 'tagName'
+  | 'name'
+  | 'author'
+  | 'leadTime'
+
+// 릴리즈 목록 항목 (body 제외)
+export interface ReleaseSummary {
+  id: number
+  repo: string
+  tagName: string
+  name: string
+  author: string
+  isDraft: boolean
+  isPrerelease: boolean
+  assetsCount: number
+  htmlUrl: string
+  createdAt: string
+  publishedAt: string | null
+  // 드래프트 생성 -> 공개까지 걸린 시간 (분), 공개 전이면 null
+  leadTimeMinutes: number | null
+}
+
+export type ChangeCategory = 'feature' | 'fix' | 'breaking' | 'dependency' | 'other'
+
+export interface ChangeEntry {
+  category: ChangeCategory
+  text: string
+  section: string | null
+  pullRequests: number[]
+}
+
+// 릴리즈 상세
+// 릴리즈 첨부파일 (CSV에서 가져온 첨부파일은 크기/형식/다운로드 수가 null)
+export interface ReleaseAsset {
+  id: number
+  releaseId: number
+  name: string
+  size: number | null
+  contentType: string | null
+  downloadCount: number | null
+  downloadUrl: string | null
+  platform: string
+  fileType: string
+}
+
+export interface ReleaseDetail extends ReleaseSummary {
+  repoId: number
+  body: string
+  assetsNames: string
+  assets: ReleaseAsset[]
+  publishedWeekday: string | null
+  publishedDate: string | null
+  changelog: {
+    entries: ChangeEntry[]
+    counts: {
+      features: number
+      fixes: number
+      breakingChanges: number
+      other: number
+    }
+    pullRequests: number[]
+  }
+}
+
+export interface ReleaseListParams {
+  page: number
+  limit: number
+  sort: ReleaseSortField
+  order: 'asc' | 'desc'
+  q?: string
+  author?: string
+  repos?: string[]
+  from?: string
+  to?: string
+  // 대시보드 차트 드릴다운 조건 (요일/유형은 콤마로 구분된 목록)
+  weekday?: string
+  year?: string
+  month?: string
+  type?: string
+}
+
+export interface ReleaseListResult {
+  releases: ReleaseSummary[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
@@ -0,0 +1,26 @@
+export interface Repo {
+  id: number
+  fullName: string
+  displayName: string
+  defaultBranch: string
+  enabled: boolean
+  lastReleaseId: number | null
+  etag: string | null
+  lastSyncedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateRepoDto {
+  fullName: string
+  displayName: string
+  defaultBranch: string
+  enabled: boolean
+}
+
+export interface UpdateRepoDto {
+  fullName?: string
+  displayName?: string
+  defaultBranch?: string
+  enabled?: boolean
+}
@@ -1,7 +1,11 @@
+import { ReleaseSummary } from './release'
+
 export interface User {
   id: number
   name: string
   email: string
+  // 릴리즈 작성자와 연결되는 GitHub 로그인
+  githubLogin: string | null
   role: UserRole
   createdAt: string
   updatedAt: string
@@ -17,10 +21,49 @@ export interface CreateUserDto {
   name: string
   email: string
   role: UserRole
+  githubLogin?: string | null
+  password?: string
 }
 
 export interface UpdateUserDto {
   name?: string
   email?: string
   role?: UserRole
+  githubLogin?: string | null
+  // 비워 두면 기존 비밀번호 유지
+  password?: string
+}
+
+export type UserSortField = 'id' | 'name' | 'email' | 'role' | 'createdAt'
+
+export interface UserListParams {
+  page: number
+  limit: number
+  sort: UserSortField
+  order: 'asc' | 'desc'
+  // 이름/이메일 검색어
+  q?: string
+  role?: UserRole | ''
+}
+
+export interface UserListResult {
+  users: User[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
+
+export interface LoginDto {
+  email: string
+  password: string
+}
+
+// GitHub 로그인 기준 사용자 릴리즈 요약
+export interface UserReleaseSummary {
+  author: string
+  total: number
+  lastPublishedAt: string | null
+  repos: { repo: string; count: number; lastPublishedAt: string | null }[]
+  recentReleases: ReleaseSummary[]
 }
@@ -0,0 +1,12 @@
+// 브라우저에서 Blob을 파일로 저장
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // 클릭 직후 해제하면 일부 브라우저에서 다운로드가 시작되기 전에 URL이 사라진다
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,22 @@
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB']
+
+// 바이트 -> 사람이 읽기 쉬운 크기 (예: 1.5 MB)
+export function formatBytes(bytes: number | null | undefined): string {
+  if (bytes === null || bytes === undefined) return '-'
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024
+    unit += 1
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`
+}
+
+// 분 -> 사람이 읽기 쉬운 기간 (예: 45초, 12분, 3.5시간, 2.1일)
+export function formatMinutes(minutes: number | null | undefined): string {
+  if (minutes === null || minutes === undefined) return '-'
+  if (minutes < 1) return `${Math.round(minutes * 60)}초`
+  if (minutes < 60) return `${Math.round(minutes)}분`
+  if (minutes < 60 * 24) return `${(minutes / 60).toFixed(1)}시간`
+  return `${(minutes / 60 / 24).toFixed(1)}일`
+}
@@ -0,0 +1,19 @@
+import path from "path";
+import env from "../src/config/env";
+import runMigration from "../src/db/migrate";
+import { getDb } from "../src/db";
+import { importReleasesFromCsv, DEFAULT_RELEASE_CSV_PATH } from "../src/db/importReleases";
+
+// release-raw.csv(또는 인자로 받은 CSV)를 releases 테이블로 가져오기
+async function main() {
+  const filePath = process.argv[2] ? path.resolve(process.argv[2]) : DEFAULT_RELEASE_CSV_PATH;
+  await runMigration();
+  const db = await getDb();
+  const imported = await importReleasesFromCsv(db, env.REPORT_TIMEZONE, filePath);
+  console.log(`${imported}개의 릴리즈를 ${filePath}에서 가져왔습니다.`);
+}
+
+main().catch(e => {
+  console.error("실행 중 오류:", e);
+  process.exit(1);
+});
@@ -1,5 +1,6 @@
 import dotenvSafe from 'dotenv-safe'
 import path from 'path'
+import { isValidTimeZone } from '../utils/timezone'
 
 // .env 파일 로드 (dotenv-safe 사용)
 dotenvSafe.config({
@@ -16,6 +17,11 @@ interface Env {
   DATABASE_URL: string
   CORS_ORIGIN: string
   LOG_LEVEL: string
+  GITHUB_API_URL: string
+  GITHUB_TOKEN: string
+  REPORT_TIMEZONE: string
+  SESSION_TTL_HOURS: number
+  INITIAL_PASSWORD: string
 }
 
 // 환경 변수 기본값 설정
@@ -25,7 +31,17 @@ const env: Env = {
   NODE_ENV: (process.env.NODE_ENV as Env['NODE_ENV']) || 'development',
   DATABASE_URL: process.env.DATABASE_URL || './data/database.sqlite',
   CORS_ORIGIN: process.env.CORS_ORIGIN || 'http://localhost:3000',
-  LOG_LEVEL: process.env.LOG_LEVEL || 'info'
+  LOG_LEVEL: process.env.LOG_LEVEL || 'info',
+  GITHUB_API_URL: process.env.GITHUB_API_URL || 'https://api.github.com',
+  GITHUB_TOKEN: process.env.GITHUB_TOKEN || '',
+  REPORT_TIMEZONE: process.env.REPORT_TIMEZONE || 'Asia/Seoul',
+  SESSION_TTL_HOURS: parseInt(process.env.SESSION_TTL_HOURS || '168', 10),
+  INITIAL_PASSWORD: process.env.INITIAL_PASSWORD || ''
+}
+
+// 보고 시간대는 모든 날짜 집계의 기준이므로 잘못된 값이면 서버를 시작하지 않는다
+if (!isValidTimeZone(env.REPORT_TIMEZONE)) {
+  throw new Error(`REPORT_TIMEZONE은 IANA 시간대여야 합니다. (현재 값: ${env.REPORT_TIMEZONE})`)
 }
 
 export default env
@@ -0,0 +1,191 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse
+} from '../utils/response'
+import {
+  API_TOKEN_SCOPES,
+  ApiTokenScope,
+  CreateApiTokenDto,
+  FieldError,
+  User,
+  UserRole
+} from '../types'
+import { ApiTokenService } from '../services/apiTokenService'
+import { UserService } from '../services/userService'
+
+type ApiTokenControllerDeps = {
+  apiTokenService: ApiTokenService
+  userService: UserService
+}
+
+// 관리자 역할이 있어야 쓸 수 있는 권한 범위
+const ADMIN_SCOPES: ApiTokenScope[] = ['admin:repos']
+
+const isApiTokenScope = (scope: unknown): scope is ApiTokenScope =>
+  API_TOKEN_SCOPES.includes(scope as ApiTokenScope)
+
+// 이름/권한 범위 검증 (토큰 주인의 역할로 쓸 수 없는 범위는 거부)
+// 이름 길이와 만료 일수 범위는 라우트 스키마에서 검증한다
+const validateTokenData = (
+  data: CreateApiTokenDto,
+  owner: User
+): { ok: true; value: CreateApiTokenDto } | { ok: false; error: FieldError } => {
+  const name = data.name.trim()
+
+  if (!name) {
+    return { ok: false, error: { field: 'name', message: '토큰 이름을 입력해주세요.' } }
+  }
+
+  const { scopes, expiresInDays } = data
+  if (
+    !Array.isArray(scopes) ||
+    !scopes.length ||
+    !scopes.every(isApiTokenScope) ||
+    new Set(scopes).size !== scopes.length
+  ) {
+    return {
+      ok: false,
+      error: {
+        field: 'scopes',
+        message: `${API_TOKEN_SCOPES.join(', ')} 중 하나 이상을 중복 없이 지정해야 합니다.`
+      }
+    }
+  }
+  if (owner.role !== UserRole.ADMIN && scopes.some(scope => ADMIN_SCOPES.includes(scope))) {
+    return {
+      ok: false,
+      error: { field: 'scopes', message: '관리자만 admin 권한 범위의 토큰을 만들 수 있습니다.' }
+    }
+  }
+
+  return { ok: true, value: { name, scopes, expiresInDays } }
+}
+
+export const createApiTokenController = ({
+  apiTokenService,
+  userService
+}: ApiTokenControllerDeps) => {
+  // 토큰은 본인 것만 관리할 수 있다 (관리자도 다른 사용자 명의의 토큰은 발급/조회하지 않는다)
+  const resolveOwner = async (
+    request: FastifyRequest<{ Params: { userId: string } }>
+  ): Promise<{ ok: true; owner: User } | { ok: false; code: number; error: string }> => {
+    const userId = parseInt(request.params.userId, 10)
+
+    if (isNaN(userId)) {
+      return { ok: false, code: 400, error: '유효하지 않은 사용자 ID입니다.' }
+    }
+
+    if (request.user!.id !== userId) {
+      return { ok: false, code: 403, error: '본인의 API 토큰만 관리할 수 있습니다.' }
+    }
+
+    const owner = await userService.getUserById(userId)
+    if (!owner) {
+      return { ok: false, code: 404, error: '사용자를 찾을 수 없습니다.' }
+    }
+    return { ok: true, owner }
+  }
+
+  // GET /api/users/:userId/tokens
+  const getTokens = async (
+    request: FastifyRequest<{ Params: { userId: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const resolved = await resolveOwner(request)
+
+      if (!resolved.ok) {
+        return reply.code(resolved.code).send(createErrorResponse(resolved.error))
+      }
+
+      const { owner } = resolved
+
+      const tokens = await apiTokenService.getTokensByUser(owner.id)
+      return reply.code(200).send(createSuccessResponse(tokens))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('API 토큰 목록을 불러오는데 실패했습니다.'))
+    }
+  }
+
+  // POST /api/users/:userId/tokens - 응답의 secret은 이때만 확인할 수 있다
+  const createToken = async (
+    request: FastifyRequest<{ Params: { userId: string }; Body: CreateApiTokenDto }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const resolved = await resolveOwner(request)
+
+      if (!resolved.ok) {
+        return reply.code(resolved.code).send(createErrorResponse(resolved.error))
+      }
+
+      const { owner } = resolved
+
+      // 게스트는 조회 전용이라 토큰을 발급하지 않는다 (이미 있는 토큰의 조회/폐기는 허용)
+      if (owner.role === UserRole.GUEST) {
+        return reply.code(403).send(createErrorResponse('게스트는 API 토큰을 발급할 수 없습니다.'))
+      }
+
+      const validated = validateTokenData(request.body, owner)
+
+      if (!validated.ok) {
+        return reply.code(400).send(createValidationErrorResponse([validated.error]))
+      }
+
+      const { token, secret } = await apiTokenService.createToken(owner.id, validated.value)
+      return reply
+        .code(201)
+        .send(createSuccessResponse({ ...token, secret }, 'API 토큰이 성공적으로 생성되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('API 토큰 생성에 실패했습니다.'))
+    }
+  }
+
+  // DELETE /api/users/:userId/tokens/:id
+  const deleteToken = async (
+    request: FastifyRequest<{ Params: { userId: string; id: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const resolved = await resolveOwner(request)
+
+      if (!resolved.ok) {
+        return reply.code(resolved.code).send(createErrorResponse(resolved.error))
+      }
+
+      const { owner } = resolved
+
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 토큰 ID입니다.'))
+      }
+
+      const token = await apiTokenService.getTokenById(id)
+
+      if (!token || token.userId !== owner.id) {
+        return reply.code(404).send(createErrorResponse('API 토큰을 찾을 수 없습니다.'))
+      }
+
+      await apiTokenService.deleteToken(id)
+      return reply
+        .code(200)
+        .send(createSuccessResponse(null, 'API 토큰이 성공적으로 삭제되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('API 토큰 삭제에 실패했습니다.'))
+    }
+  }
+
+  return {
+    getTokens,
+    createToken,
+    deleteToken
+  }
+}
+
+export type ApiTokenController = ReturnType<typeof createApiTokenController>
@@ -0,0 +1,73 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import { createSuccessResponse, createErrorResponse } from '../utils/response'
+import { LoginDto } from '../types'
+import { AuthService } from '../services/authService'
+import { SESSION_COOKIE } from '../plugins/auth'
+
+type AuthControllerDeps = {
+  authService: AuthService
+}
+
+export const createAuthController = ({ authService }: AuthControllerDeps) => {
+  // POST /api/auth/login - 세션 쿠키 발급
+  const login = async (request: FastifyRequest<{ Body: LoginDto }>, reply: FastifyReply) => {
+    try {
+      const { email, password } = request.body ?? {}
+
+      if (typeof email !== 'string' || !email.trim() || typeof password !== 'string' || !password) {
+        return reply.code(400).send(createErrorResponse('이메일과 비밀번호를 입력해주세요.'))
+      }
+
+      const user = await authService.verifyCredentials(email.trim(), password)
+
+      if (!user) {
+        return reply
+          .code(401)
+          .send(createErrorResponse('이메일 또는 비밀번호가 올바르지 않습니다.'))
+      }
+
+      const { token, expiresAt } = await authService.createSession(user.id)
+      reply.setCookie(SESSION_COOKIE, token, {
+        path: '/',
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: request.protocol === 'https',
+        expires: expiresAt
+      })
+      return reply.code(200).send(createSuccessResponse(user, '로그인되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('로그인에 실패했습니다.'))
+    }
+  }
+
+  // POST /api/auth/logout - 세션 삭제
+  const logout = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const token = request.cookies[SESSION_COOKIE]
+
+      if (token) {
+        await authService.deleteSession(token)
+      }
+
+      reply.clearCookie(SESSION_COOKIE, { path: '/' })
+      return reply.code(200).send(createSuccessResponse(null, '로그아웃되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('로그아웃에 실패했습니다.'))
+    }
+  }
+
+  // GET /api/auth/me - 현재 로그인한 사용자
+  const getCurrentUser = async (request: FastifyRequest, reply: FastifyReply) => {
+    return reply.code(200).send(createSuccessResponse(request.user))
+  }
+
+  return {
+    login,
+    logout,
+    getCurrentUser
+  }
+}
+
+export type AuthController = ReturnType<typeof createAuthController>
@@ -0,0 +1,157 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import { createSuccessResponse, createErrorResponse } from '../utils/response'
+import { CreateHolidayDto, UpdateCalendarDto } from '../types'
+import { CalendarService } from '../services/calendarService'
+import { isValidDate } from '../utils/filters'
+import { WEEKDAY_NAMES } from '../utils/workingCalendar'
+
+type CalendarControllerDeps = {
+  calendarService: CalendarService
+}
+
+const isHour = (value: unknown) =>
+  Number.isInteger(value) && Number(value) >= 0 && Number(value) <= 24
+
+export const createCalendarController = ({ calendarService }: CalendarControllerDeps) => {
+  const getCalendar = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const calendar = await calendarService.getCalendar()
+      return reply.code(200).send(createSuccessResponse(calendar))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('근무 캘린더를 불러오는데 실패했습니다.'))
+    }
+  }
+
+  const updateCalendar = async (
+    request: FastifyRequest<{ Body: UpdateCalendarDto }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const { weekendDays, workdayStartHour, workdayEndHour } = request.body ?? {}
+
+      if (
+        weekendDays !== undefined &&
+        (!Array.isArray(weekendDays) || weekendDays.some(day => !WEEKDAY_NAMES.includes(day)))
+      ) {
+        return reply
+          .code(400)
+          .send(
+            createErrorResponse(`weekendDays는 ${WEEKDAY_NAMES.join(', ')} 중에서 골라야 합니다.`)
+          )
+      }
+
+      if (
+        (workdayStartHour !== undefined && !isHour(workdayStartHour)) ||
+        (workdayEndHour !== undefined && !isHour(workdayEndHour))
+      ) {
+        return reply.code(400).send(createErrorResponse('근무 시간은 0~24 사이의 정수여야 합니다.'))
+      }
+
+      const current = await calendarService.getCalendar()
+      const start = workdayStartHour ?? current.workdayStartHour
+      const end = workdayEndHour ?? current.workdayEndHour
+      if (start >= end) {
+        return reply
+          .code(400)
+          .send(createErrorResponse('근무 시작 시간은 종료 시간보다 빨라야 합니다.'))
+      }
+
+      const settings = await calendarService.updateSettings({
+        weekendDays: weekendDays && [...new Set(weekendDays)],
+        workdayStartHour,
+        workdayEndHour
+      })
+      return reply
+        .code(200)
+        .send(createSuccessResponse(settings, '근무 캘린더가 성공적으로 수정되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('근무 캘린더 수정에 실패했습니다.'))
+    }
+  }
+
+  const createHoliday = async (
+    request: FastifyRequest<{ Body: CreateHolidayDto }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const holidayData = request.body ?? {}
+
+      if (!holidayData.date || !isValidDate(holidayData.date)) {
+        return reply.code(400).send(createErrorResponse('date는 YYYY-MM-DD 형식이어야 합니다.'))
+      }
+
+      const existingHoliday = await calendarService.getHolidayByDate(holidayData.date)
+      if (existingHoliday) {
+        return reply.code(409).send(createErrorResponse('이미 등록된 공휴일입니다.'))
+      }
+
+      const holiday = await calendarService.createHoliday(holidayData)
+      return reply
+        .code(201)
+        .send(createSuccessResponse(holiday, '공휴일이 성공적으로 추가되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('공휴일 추가에 실패했습니다.'))
+    }
+  }
+
+  // iCal(.ics) 텍스트에서 공휴일 가져오기
+  const importHolidays = async (
+    request: FastifyRequest<{ Body: { ics?: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const ics = request.body?.ics
+
+      if (typeof ics !== 'string' || !ics.includes('BEGIN:VCALENDAR')) {
+        return reply.code(400).send(createErrorResponse('유효한 iCal(.ics) 내용이 필요합니다.'))
+      }
+
+      const result = await calendarService.importHolidays(ics)
+      return reply
+        .code(200)
+        .send(createSuccessResponse(result, `${result.imported}개의 공휴일을 가져왔습니다.`))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('공휴일 가져오기에 실패했습니다.'))
+    }
+  }
+
+  const deleteHoliday = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 공휴일 ID입니다.'))
+      }
+
+      const deleted = await calendarService.deleteHoliday(id)
+
+      if (!deleted) {
+        return reply.code(404).send(createErrorResponse('공휴일을 찾을 수 없습니다.'))
+      }
+
+      return reply
+        .code(200)
+        .send(createSuccessResponse(null, '공휴일이 성공적으로 삭제되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('공휴일 삭제에 실패했습니다.'))
+    }
+  }
+
+  return {
+    getCalendar,
+    updateCalendar,
+    createHoliday,
+    importHolidays,
+    deleteHoliday
+  }
+}
+
+export type CalendarController = ReturnType<typeof createCalendarController>
@@ -1,9 +1,109 @@
-import { FastifyRequest, FastifyReply } from "fastify";
-import { getDashboardStats } from "../services/dashboardService";
-
-// GET /api/dashboard
-export async function getDashboard(req: FastifyRequest, reply: FastifyReply) {
-  const stats = getDashboardStats();
-  console.log(stats);
-  return reply.send(stats);
-}
\ No newline at end of file
+import { FastifyRequest, FastifyReply } from 'fastify'
+import { createErrorResponse, createValidationErrorResponse } from '../utils/response'
+import {
+  DashboardExportQuery,
+  DashboardFilterQuery,
+  DashboardStatsQuery,
+  parseDashboardFilters,
+  parseExportFormat,
+  parseGroupBy
+} from '../utils/filters'
+import { exportStats } from '../utils/statsExport'
+import { DashboardService } from '../services/dashboardService'
+
+type DashboardControllerDeps = {
+  dashboardService: DashboardService
+}
+
+export const createDashboardController = ({ dashboardService }: DashboardControllerDeps) => {
+  // GET /api/dashboard/stats?repo=owner/name&from=YYYY-MM-DD&to=YYYY-MM-DD&groupBy=repo
+  const getStats = async (
+    request: FastifyRequest<{ Querystring: DashboardStatsQuery }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const filters = parseDashboardFilters(request.query)
+
+      if (!filters.ok) {
+        return reply.code(400).send(createValidationErrorResponse([filters.error]))
+      }
+
+      const groupBy = parseGroupBy(request.query.groupBy)
+
+      if (!groupBy.ok) {
+        return reply.code(400).send(createValidationErrorResponse([groupBy.error]))
+      }
+
+      const stats = await dashboardService.getDashboardStats(filters.value, groupBy.value)
+      return reply.code(200).send(stats)
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('대시보드 통계를 불러오는데 실패했습니다.'))
+    }
+  }
+
+  // GET /api/dashboard/stats/export?format=csv|json|xlsx (필터/groupBy는 통계 조회와 동일)
+  const exportStatsFile = async (
+    request: FastifyRequest<{ Querystring: DashboardExportQuery }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const filters = parseDashboardFilters(request.query)
+
+      if (!filters.ok) {
+        return reply.code(400).send(createValidationErrorResponse([filters.error]))
+      }
+
+      const groupBy = parseGroupBy(request.query.groupBy)
+
+      if (!groupBy.ok) {
+        return reply.code(400).send(createValidationErrorResponse([groupBy.error]))
+      }
+
+      const format = parseExportFormat(request.query.format)
+
+      if (!format.ok) {
+        return reply.code(400).send(createValidationErrorResponse([format.error]))
+      }
+
+      const stats = await dashboardService.getDashboardStats(filters.value, groupBy.value)
+      const file = await exportStats(stats, format.value)
+      return reply
+        .code(200)
+        .header('Content-Type', file.contentType)
+        .header('Content-Disposition', `attachment; filename="${file.filename}"`)
+        .send(file.body)
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('대시보드 통계를 내보내는데 실패했습니다.'))
+    }
+  }
+
+  // GET /api/dashboard/anomalies?repo=owner/name&from=YYYY-MM-DD&to=YYYY-MM-DD
+  const getAnomalies = async (
+    request: FastifyRequest<{ Querystring: DashboardFilterQuery }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const filters = parseDashboardFilters(request.query)
+
+      if (!filters.ok) {
+        return reply.code(400).send(createValidationErrorResponse([filters.error]))
+      }
+
+      const result = await dashboardService.getAnomalies(filters.value)
+      return reply.code(200).send(result)
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('특이점을 불러오는데 실패했습니다.'))
+    }
+  }
+
+  return {
+    getStats,
+    exportStats: exportStatsFile,
+    getAnomalies
+  }
+}
+
+export type DashboardController = ReturnType<typeof createDashboardController>
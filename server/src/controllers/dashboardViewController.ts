@@ -0,0 +1,239 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse
+} from '../utils/response'
+import { CreateDashboardViewDto, FieldError, UpdateDashboardViewDto } from '../types'
+import { DashboardViewService } from '../services/dashboardViewService'
+import { parseViewFilters } from '../utils/filters'
+
+type DashboardViewControllerDeps = {
+  dashboardViewService: DashboardViewService
+}
+
+const MAX_NAME_LENGTH = 100
+
+// 대시보드 카드 id (client/src/components/dashboard/dashboardCards.ts의 DASHBOARD_CARDS와 같게 유지)
+const DASHBOARD_CARD_IDS = [
+  'yearly',
+  'monthly',
+  'weekday',
+  'releaseType',
+  'topMonths',
+  'interval',
+  'cadence',
+  'anomalies',
+  'offHours',
+  'changeComposition',
+  'authors',
+  'assets',
+  'leadTime',
+  'versions'
+]
+
+const isValidCards = (cards: unknown): cards is string[] =>
+  Array.isArray(cards) &&
+  cards.every(card => typeof card === 'string' && DASHBOARD_CARD_IDS.includes(card)) &&
+  new Set(cards).size === cards.length
+
+// 이름/필터/카드/기본 여부 공통 검증 (생성 시 이름 필수)
+const validateViewData = (
+  data: UpdateDashboardViewDto,
+  requireName: boolean
+): { ok: true; value: UpdateDashboardViewDto } | { ok: false; error: FieldError } => {
+  const name = typeof data.name === 'string' ? data.name.trim() : data.name
+
+  if ((requireName || name !== undefined) && (typeof name !== 'string' || !name)) {
+    return { ok: false, error: { field: 'name', message: '뷰 이름을 입력해주세요.' } }
+  }
+  if (name && name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: { field: 'name', message: `${MAX_NAME_LENGTH}자 이하여야 합니다.` } }
+  }
+
+  const filters = data.filters === undefined ? undefined : parseViewFilters(data.filters)
+  if (filters && !filters.ok) {
+    return { ok: false, error: filters.error }
+  }
+
+  if (data.cards !== undefined && !isValidCards(data.cards)) {
+    return {
+      ok: false,
+      error: {
+        field: 'cards',
+        message: `중복 없는 카드 id 배열이어야 합니다. (${DASHBOARD_CARD_IDS.join(', ')})`
+      }
+    }
+  }
+
+  if (data.isDefault !== undefined && typeof data.isDefault !== 'boolean') {
+    return { ok: false, error: { field: 'isDefault', message: 'true 또는 false여야 합니다.' } }
+  }
+
+  return {
+    ok: true,
+    value: {
+      name,
+      filters: filters?.value,
+      cards: data.cards,
+      isDefault: data.isDefault
+    }
+  }
+}
+
+export const createDashboardViewController = ({
+  dashboardViewService
+}: DashboardViewControllerDeps) => {
+  // 다른 사용자의 뷰는 없는 것으로 취급한다
+  const getOwnView = async (request: FastifyRequest, id: number) => {
+    const view = await dashboardViewService.getViewById(id)
+    return view && view.userId === request.user!.id ? view : undefined
+  }
+
+  // GET /api/dashboard-views - 로그인한 사용자의 뷰 목록
+  const getViews = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const views = await dashboardViewService.getViewsByUser(request.user!.id)
+      return reply.code(200).send(createSuccessResponse(views))
+    } catch (error) {
+      request.log.error(error)
+      return reply
+        .code(500)
+        .send(createErrorResponse('대시보드 뷰 목록을 불러오는데 실패했습니다.'))
+    }
+  }
+
+  const getViewById = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 뷰 ID입니다.'))
+      }
+
+      const view = await getOwnView(request, id)
+
+      if (!view) {
+        return reply.code(404).send(createErrorResponse('대시보드 뷰를 찾을 수 없습니다.'))
+      }
+
+      return reply.code(200).send(createSuccessResponse(view))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('대시보드 뷰를 불러오는데 실패했습니다.'))
+    }
+  }
+
+  const createView = async (
+    request: FastifyRequest<{ Body: Omit<CreateDashboardViewDto, 'userId'> }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const userId = request.user!.id
+      const validated = validateViewData(request.body ?? {}, true)
+
+      if (!validated.ok) {
+        return reply.code(400).send(createValidationErrorResponse([validated.error]))
+      }
+
+      const name = validated.value.name!
+      if (await dashboardViewService.getViewByName(userId, name)) {
+        return reply.code(409).send(createErrorResponse('같은 이름의 뷰가 이미 있습니다.'))
+      }
+
+      const view = await dashboardViewService.createView({
+        ...validated.value,
+        userId,
+        name
+      })
+      return reply
+        .code(201)
+        .send(createSuccessResponse(view, '대시보드 뷰가 성공적으로 저장되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('대시보드 뷰 저장에 실패했습니다.'))
+    }
+  }
+
+  const updateView = async (
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateDashboardViewDto }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 뷰 ID입니다.'))
+      }
+
+      const validated = validateViewData(request.body ?? {}, false)
+
+      if (!validated.ok) {
+        return reply.code(400).send(createValidationErrorResponse([validated.error]))
+      }
+
+      const existingView = await getOwnView(request, id)
+      if (!existingView) {
+        return reply.code(404).send(createErrorResponse('대시보드 뷰를 찾을 수 없습니다.'))
+      }
+
+      const { name } = validated.value
+      if (name && name !== existingView.name) {
+        if (await dashboardViewService.getViewByName(existingView.userId, name)) {
+          return reply.code(409).send(createErrorResponse('같은 이름의 뷰가 이미 있습니다.'))
+        }
+      }
+
+      const view = await dashboardViewService.updateView(id, validated.value)
+      return reply
+        .code(200)
+        .send(createSuccessResponse(view, '대시보드 뷰가 성공적으로 수정되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('대시보드 뷰 수정에 실패했습니다.'))
+    }
+  }
+
+  const deleteView = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 뷰 ID입니다.'))
+      }
+
+      if (!(await getOwnView(request, id))) {
+        return reply.code(404).send(createErrorResponse('대시보드 뷰를 찾을 수 없습니다.'))
+      }
+
+      const deleted = await dashboardViewService.deleteView(id)
+
+      if (!deleted) {
+        return reply.code(500).send(createErrorResponse('대시보드 뷰 삭제에 실패했습니다.'))
+      }
+
+      return reply
+        .code(200)
+        .send(createSuccessResponse(null, '대시보드 뷰가 성공적으로 삭제되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('대시보드 뷰 삭제에 실패했습니다.'))
+    }
+  }
+
+  return {
+    getViews,
+    getViewById,
+    createView,
+    updateView,
+    deleteView
+  }
+}
+
+export type DashboardViewController = ReturnType<typeof createDashboardViewController>
@@ -0,0 +1,65 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createPaginatedResponse
+} from '../utils/response'
+import { ReleaseListQuery, parseReleaseListQuery } from '../utils/filters'
+import { ReleaseService } from '../services/releaseService'
+
+type ReleaseControllerDeps = {
+  releaseService: ReleaseService
+}
+
+export const createReleaseController = ({ releaseService }: ReleaseControllerDeps) => {
+  const getReleases = async (
+    request: FastifyRequest<{ Querystring: ReleaseListQuery }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const options = parseReleaseListQuery(request.query)
+      if (!options.ok) {
+        return reply.code(400).send(createValidationErrorResponse([options.error]))
+      }
+
+      const { page, limit } = options.value
+      const { releases, total } = await releaseService.getReleases(options.value)
+      return reply.code(200).send(createPaginatedResponse(releases, total, page, limit))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('릴리즈 목록을 불러오는데 실패했습니다.'))
+    }
+  }
+
+  const getReleaseById = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 릴리즈 ID입니다.'))
+      }
+
+      const release = await releaseService.getReleaseById(id)
+
+      if (!release) {
+        return reply.code(404).send(createErrorResponse('릴리즈를 찾을 수 없습니다.'))
+      }
+
+      return reply.code(200).send(createSuccessResponse(release))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('릴리즈 정보를 불러오는데 실패했습니다.'))
+    }
+  }
+
+  return {
+    getReleases,
+    getReleaseById
+  }
+}
+
+export type ReleaseController = ReturnType<typeof createReleaseController>
@@ -0,0 +1,142 @@
+import { FastifyRequest, FastifyReply } from 'fastify'
+import { createSuccessResponse, createErrorResponse } from '../utils/response'
+import { CreateRepoDto, UpdateRepoDto } from '../types'
+import { RepoService } from '../services/repoService'
+
+type RepoControllerDeps = {
+  repoService: RepoService
+}
+
+export const createRepoController = ({ repoService }: RepoControllerDeps) => {
+  const getAllRepos = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const repos = await repoService.getAllRepos()
+      return reply.code(200).send(createSuccessResponse(repos))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('저장소 목록을 불러오는데 실패했습니다.'))
+    }
+  }
+
+  const getRepoById = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 저장소 ID입니다.'))
+      }
+
+      const repo = await repoService.getRepoById(id)
+
+      if (!repo) {
+        return reply.code(404).send(createErrorResponse('저장소를 찾을 수 없습니다.'))
+      }
+
+      return reply.code(200).send(createSuccessResponse(repo))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('저장소 정보를 불러오는데 실패했습니다.'))
+    }
+  }
+
+  const createRepo = async (
+    request: FastifyRequest<{ Body: CreateRepoDto }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      // owner/name 형식은 라우트 스키마에서 검증한다
+      const repoData = request.body
+
+      const existingRepo = await repoService.getRepoByFullName(repoData.fullName)
+      if (existingRepo) {
+        return reply.code(409).send(createErrorResponse('이미 추적 중인 저장소입니다.'))
+      }
+
+      const newRepo = await repoService.createRepo(repoData)
+      return reply
+        .code(201)
+        .send(createSuccessResponse(newRepo, '저장소가 성공적으로 추가되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('저장소 추가에 실패했습니다.'))
+    }
+  }
+
+  const updateRepo = async (
+    request: FastifyRequest<{ Params: { id: string }; Body: UpdateRepoDto }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+      const repoData = request.body
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 저장소 ID입니다.'))
+      }
+
+      const existingRepo = await repoService.getRepoById(id)
+      if (!existingRepo) {
+        return reply.code(404).send(createErrorResponse('저장소를 찾을 수 없습니다.'))
+      }
+
+      if (repoData.fullName && repoData.fullName !== existingRepo.fullName) {
+        const nameExists = await repoService.getRepoByFullName(repoData.fullName)
+        if (nameExists) {
+          return reply.code(409).send(createErrorResponse('이미 추적 중인 저장소입니다.'))
+        }
+      }
+
+      const updatedRepo = await repoService.updateRepo(id, repoData)
+      return reply
+        .code(200)
+        .send(createSuccessResponse(updatedRepo, '저장소 정보가 성공적으로 수정되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('저장소 정보 수정에 실패했습니다.'))
+    }
+  }
+
+  const deleteRepo = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 저장소 ID입니다.'))
+      }
+
+      const existingRepo = await repoService.getRepoById(id)
+      if (!existingRepo) {
+        return reply.code(404).send(createErrorResponse('저장소를 찾을 수 없습니다.'))
+      }
+
+      const deleted = await repoService.deleteRepo(id)
+
+      if (!deleted) {
+        return reply.code(500).send(createErrorResponse('저장소 삭제에 실패했습니다.'))
+      }
+
+      return reply
+        .code(200)
+        .send(createSuccessResponse(null, '저장소가 성공적으로 삭제되었습니다.'))
+    } catch (error) {
+      request.log.error(error)
+      return reply.code(500).send(createErrorResponse('저장소 삭제에 실패했습니다.'))
+    }
+  }
+
+  return {
+    getAllRepos,
+    getRepoById,
+    createRepo,
+    updateRepo,
+    deleteRepo
+  }
+}
+
+export type RepoController = ReturnType<typeof createRepoController>
@@ -1,17 +1,35 @@
 import { FastifyRequest, FastifyReply } from 'fastify'
-import { createSuccessResponse, createErrorResponse } from '../utils/response'
-import { CreateUserDto, UpdateUserDto } from '../types'
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createPaginatedResponse
+} from '../utils/response'
+import { UserListQuery, parseUserListQuery } from '../utils/filters'
+import { CreateUserDto, UpdateUserDto, UserRole } from '../types'
 import { UserService } from '../services/userService'
+import { ReleaseService } from '../services/releaseService'
 
 type UserControllerDeps = {
   userService: UserService
+  releaseService: ReleaseService
 }
 
-export const createUserController = ({ userService }: UserControllerDeps) => {
-  const getAllUsers = async (request: FastifyRequest, reply: FastifyReply) => {
+// GitHub 로그인 형식과 비밀번호 길이는 라우트 스키마에서 검증한다
+// 앞뒤 공백을 잘라내고 빈 문자열은 연결 해제(null)로 취급한다
+const normalizeGithubLogin = (githubLogin: string | null | undefined) =>
+  githubLogin === undefined ? undefined : githubLogin?.trim() || null
+
+export const createUserController = ({ userService, releaseService }: UserControllerDeps) => {
+  // GET /api/users?page=&limit=&sort=&order=&q=&role=
+  const getUsers = async (
+    request: FastifyRequest<{ Querystring: UserListQuery }>,
+    reply: FastifyReply
+  ) => {
     try {
-      const users = await userService.getAllUsers()
-      return reply.code(200).send(createSuccessResponse(users))
+      const options = parseUserListQuery(request.query)
+      const { page, limit } = options
+      const { users, total } = await userService.getUsers(options)
+      return reply.code(200).send(createPaginatedResponse(users, total, page, limit))
     } catch (error) {
       request.log.error(error)
       return reply.code(500).send(createErrorResponse('사용자 목록을 불러오는데 실패했습니다.'))
@@ -47,13 +65,18 @@ export const createUserController = ({ userService }: UserControllerDeps) => {
     reply: FastifyReply
   ) => {
     try {
-      const userData = request.body
+      const githubLogin = normalizeGithubLogin(request.body.githubLogin)
+      const userData = { ...request.body, githubLogin }
 
       const existingUser = await userService.getUserByEmail(userData.email)
       if (existingUser) {
         return reply.code(409).send(createErrorResponse('이미 사용 중인 이메일입니다.'))
       }
 
+      if (githubLogin && (await userService.getUserByGithubLogin(githubLogin))) {
+        return reply.code(409).send(createErrorResponse('이미 연결된 GitHub 로그인입니다.'))
+      }
+
       const newUser = await userService.createUser(userData)
       return reply
         .code(201)
@@ -70,12 +93,18 @@ export const createUserController = ({ userService }: UserControllerDeps) => {
   ) => {
     try {
       const id = parseInt(request.params.id, 10)
-      const userData = request.body
+      const githubLogin = normalizeGithubLogin(request.body.githubLogin)
+      const userData = { ...request.body, githubLogin }
 
       if (isNaN(id)) {
         return reply.code(400).send(createErrorResponse('유효하지 않은 사용자 ID입니다.'))
       }
 
+      // 관리자가 자기 권한을 내려 관리자가 없어지는 것을 막는다
+      if (id === request.user!.id && userData.role && userData.role !== UserRole.ADMIN) {
+        return reply.code(400).send(createErrorResponse('본인의 관리자 권한은 해제할 수 없습니다.'))
+      }
+
       const existingUser = await userService.getUserById(id)
       if (!existingUser) {
         return reply.code(404).send(createErrorResponse('사용자를 찾을 수 없습니다.'))
@@ -88,6 +117,13 @@ export const createUserController = ({ userService }: UserControllerDeps) => {
         }
       }
 
+      if (githubLogin) {
+        const loginOwner = await userService.getUserByGithubLogin(githubLogin)
+        if (loginOwner && loginOwner.id !== id) {
+          return reply.code(409).send(createErrorResponse('이미 연결된 GitHub 로그인입니다.'))
+        }
+      }
+
       const updatedUser = await userService.updateUser(id, userData)
       return reply
         .code(200)
@@ -98,6 +134,38 @@ export const createUserController = ({ userService }: UserControllerDeps) => {
     }
   }
 
+  // GET /api/users/:id/releases - 연결된 GitHub 로그인으로 작성한 릴리즈 요약
+  const getUserReleases = async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const id = parseInt(request.params.id, 10)
+
+      if (isNaN(id)) {
+        return reply.code(400).send(createErrorResponse('유효하지 않은 사용자 ID입니다.'))
+      }
+
+      const user = await userService.getUserById(id)
+
+      if (!user) {
+        return reply.code(404).send(createErrorResponse('사용자를 찾을 수 없습니다.'))
+      }
+
+      if (!user.githubLogin) {
+        return reply.code(200).send(createSuccessResponse(null))
+      }
+
+      const summary = await releaseService.getAuthorSummary(user.githubLogin)
+      return reply.code(200).send(createSuccessResponse(summary))
+    } catch (error) {
+      request.log.error(error)
+      return reply
+        .code(500)
+        .send(createErrorResponse('사용자 릴리즈 정보를 불러오는데 실패했습니다.'))
+    }
+  }
+
   const deleteUser = async (
     request: FastifyRequest<{ Params: { id: string } }>,
     reply: FastifyReply
@@ -109,6 +177,10 @@ export const createUserController = ({ userService }: UserControllerDeps) => {
         return reply.code(400).send(createErrorResponse('유효하지 않은 사용자 ID입니다.'))
       }
 
+      if (id === request.user!.id) {
+        return reply.code(400).send(createErrorResponse('본인 계정은 삭제할 수 없습니다.'))
+      }
+
       const existingUser = await userService.getUserById(id)
       if (!existingUser) {
         return reply.code(404).send(createErrorResponse('사용자를 찾을 수 없습니다.'))
@@ -130,10 +202,11 @@ export const createUserController = ({ userService }: UserControllerDeps) => {
   }
 
   return {
-    getAllUsers,
+    getUsers,
     getUserById,
     createUser,
     updateUser,
+    getUserReleases,
     deleteUser
   }
 }
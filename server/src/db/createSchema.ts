@@ -0,0 +1,177 @@
+import Database from 'better-sqlite3'
+
+// 이전 버전에서 생성된 테이블에 누락된 컬럼 추가
+function ensureColumn(
+  sqlite: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+  if (!columns.some(c => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+  }
+}
+
+// 테이블/인덱스 생성 (이미 있으면 건너뛰고, 이전 버전 테이블에는 누락된 컬럼을 추가한다)
+export function createSchema(sqlite: Database.Database) {
+  // users 테이블 생성
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL UNIQUE,
+      github_login TEXT,
+      role TEXT NOT NULL DEFAULT 'USER',
+      password_hash TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `)
+  ensureColumn(sqlite, 'users', 'github_login', 'TEXT')
+  ensureColumn(sqlite, 'users', 'password_hash', 'TEXT')
+  sqlite.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS users_github_login_idx ON users (lower(github_login))
+  `)
+
+  // repos 테이블 생성
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS repos (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      full_name TEXT NOT NULL UNIQUE,
+      display_name TEXT NOT NULL DEFAULT '',
+      default_branch TEXT NOT NULL DEFAULT 'main',
+      enabled INTEGER NOT NULL DEFAULT 1,
+      last_release_id INTEGER,
+      etag TEXT,
+      last_synced_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `)
+  ensureColumn(sqlite, 'repos', 'display_name', "TEXT NOT NULL DEFAULT ''")
+  ensureColumn(sqlite, 'repos', 'default_branch', "TEXT NOT NULL DEFAULT 'main'")
+  ensureColumn(sqlite, 'repos', 'enabled', 'INTEGER NOT NULL DEFAULT 1')
+  ensureColumn(sqlite, 'repos', 'last_release_id', 'INTEGER')
+  ensureColumn(sqlite, 'repos', 'etag', 'TEXT')
+  ensureColumn(sqlite, 'repos', 'last_synced_at', 'TEXT')
+
+  // releases 테이블 생성
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS releases (
+      id INTEGER PRIMARY KEY,
+      repo_id INTEGER NOT NULL REFERENCES repos(id) ON DELETE CASCADE,
+      tag_name TEXT NOT NULL,
+      name TEXT NOT NULL DEFAULT '',
+      author TEXT NOT NULL DEFAULT '',
+      body TEXT NOT NULL DEFAULT '',
+      is_draft INTEGER NOT NULL DEFAULT 0,
+      is_prerelease INTEGER NOT NULL DEFAULT 0,
+      assets_count INTEGER NOT NULL DEFAULT 0,
+      assets_names TEXT NOT NULL DEFAULT '',
+      html_url TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL,
+      published_at TEXT,
+      published_weekday TEXT,
+      published_date TEXT,
+      published_year TEXT,
+      published_month TEXT,
+      published_week INTEGER,
+      feature_count INTEGER,
+      fix_count INTEGER,
+      breaking_count INTEGER,
+      pull_request_count INTEGER
+    )
+  `)
+  ensureColumn(sqlite, 'releases', 'feature_count', 'INTEGER')
+  ensureColumn(sqlite, 'releases', 'fix_count', 'INTEGER')
+  ensureColumn(sqlite, 'releases', 'breaking_count', 'INTEGER')
+  ensureColumn(sqlite, 'releases', 'pull_request_count', 'INTEGER')
+  sqlite.exec(`
+    CREATE INDEX IF NOT EXISTS releases_repo_published_idx ON releases (repo_id, published_at);
+    CREATE INDEX IF NOT EXISTS releases_published_year_idx ON releases (published_year, published_month);
+    CREATE INDEX IF NOT EXISTS releases_published_date_idx ON releases (published_date);
+    CREATE INDEX IF NOT EXISTS releases_published_at_idx ON releases (published_at)
+  `)
+
+  // release_assets 테이블 생성
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS release_assets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      release_id INTEGER NOT NULL REFERENCES releases(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      size INTEGER,
+      content_type TEXT,
+      download_count INTEGER,
+      download_url TEXT,
+      platform TEXT NOT NULL DEFAULT 'any',
+      file_type TEXT NOT NULL DEFAULT ''
+    );
+    CREATE INDEX IF NOT EXISTS release_assets_release_idx ON release_assets (release_id)
+  `)
+
+  // 근무 캘린더 테이블 생성 (설정은 id = 1 단일 행)
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS calendar_settings (
+      id INTEGER PRIMARY KEY,
+      weekend_days TEXT NOT NULL DEFAULT 'Saturday,Sunday',
+      workday_start_hour INTEGER NOT NULL DEFAULT 9,
+      workday_end_hour INTEGER NOT NULL DEFAULT 18,
+      updated_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS holidays (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      date TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL DEFAULT '',
+      source TEXT NOT NULL DEFAULT 'manual',
+      created_at TEXT NOT NULL
+    )
+  `)
+  sqlite
+    .prepare('INSERT OR IGNORE INTO calendar_settings (id, updated_at) VALUES (1, ?)')
+    .run(new Date().toISOString())
+
+  // dashboard_views 테이블 생성 (사용자당 이름은 유일, 기본 뷰는 하나)
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS dashboard_views (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      filters TEXT NOT NULL DEFAULT '{"repos":[]}',
+      cards TEXT NOT NULL DEFAULT '[]',
+      is_default INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS dashboard_views_user_name_idx ON dashboard_views (user_id, name);
+    CREATE UNIQUE INDEX IF NOT EXISTS dashboard_views_user_default_idx
+      ON dashboard_views (user_id) WHERE is_default = 1
+  `)
+
+  // sessions 테이블 생성
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      expires_at TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions (user_id)
+  `)
+
+  // api_tokens 테이블 생성
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      prefix TEXT NOT NULL,
+      scopes TEXT NOT NULL DEFAULT '[]',
+      expires_at TEXT NOT NULL,
+      last_used_at TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS api_tokens_user_id_idx ON api_tokens (user_id)
+  `)
+}
@@ -0,0 +1,118 @@
+import fs from 'fs'
+import path from 'path'
+import Papa from 'papaparse'
+import { eq } from 'drizzle-orm'
+import { releases, releaseAssets, repos, NewRelease, NewReleaseAsset, Repo } from './schema'
+import { Database, Transaction } from '../types/database'
+import { assetColumns } from '../utils/assets'
+import { releaseNoteColumns } from '../utils/releaseNotes'
+import { derivePublishedColumns } from '../utils/releaseDates'
+
+export type ReleaseAssetInput = Omit<NewReleaseAsset, 'id' | 'releaseId' | 'platform' | 'fileType'>
+
+// release-raw.csv 행 타입 (이전 release-analyze 스크립트가 만들던 CSV 헤더)
+// Published* 집계 컬럼은 머신 시간대 기준이라 읽지 않고 PublishedAt에서 다시 계산한다
+interface RawReleaseRow {
+  Repo: string
+  ReleaseID: string
+  Tag: string
+  ReleaseName: string
+  Author: string
+  CreatedAt: string
+  PublishedAt: string
+  IsDraft: string
+  IsPrerelease: string
+  Body: string
+  AssetsCount: string
+  AssetsNames: string
+  HtmlUrl: string
+}
+
+export const DEFAULT_RELEASE_CSV_PATH = path.join(__dirname, '../../release-raw.csv')
+
+// 저장소 조회 (없으면 생성)
+export async function ensureRepo(db: Database, fullName: string): Promise<Repo> {
+  const existing = await db.select().from(repos).where(eq(repos.fullName, fullName)).limit(1)
+  if (existing[0]) return existing[0]
+
+  const now = new Date().toISOString()
+  const result = await db
+    .insert(repos)
+    .values({ fullName, displayName: fullName, createdAt: now, updatedAt: now })
+    .returning()
+  return result[0]
+}
+
+// ';'로 이어 붙인 첨부파일 이름 -> 첨부파일 (크기 등은 알 수 없음)
+export function assetsFromNames(assetsNames: string): ReleaseAssetInput[] {
+  return assetsNames
+    .split(';')
+    .filter(Boolean)
+    .map(name => ({ name }))
+}
+
+// 릴리즈의 첨부파일 행을 통째로 교체 (다운로드 수 등은 동기화할 때마다 바뀐다)
+export function replaceReleaseAssets(
+  tx: Transaction,
+  releaseId: number,
+  assets: ReleaseAssetInput[]
+) {
+  tx.delete(releaseAssets).where(eq(releaseAssets.releaseId, releaseId)).run()
+  if (!assets.length) return
+  tx.insert(releaseAssets)
+    .values(assets.map(asset => ({ ...asset, releaseId, ...assetColumns(asset.name) })))
+    .run()
+}
+
+// CSV 행 -> 릴리즈 레코드 변환
+function toNewRelease(row: RawReleaseRow, repoId: number, timezone: string): NewRelease {
+  return {
+    id: parseInt(row.ReleaseID, 10),
+    repoId,
+    tagName: row.Tag,
+    name: row.ReleaseName ?? '',
+    author: row.Author ?? '',
+    body: row.Body ?? '',
+    isDraft: row.IsDraft === 'true',
+    isPrerelease: row.IsPrerelease === 'true',
+    assetsCount: parseInt(row.AssetsCount, 10) || 0,
+    assetsNames: row.AssetsNames ?? '',
+    htmlUrl: row.HtmlUrl ?? '',
+    createdAt: row.CreatedAt,
+    publishedAt: row.PublishedAt || null,
+    ...derivePublishedColumns(row.PublishedAt || null, timezone),
+    ...releaseNoteColumns(row.Body)
+  }
+}
+
+// release-raw.csv를 releases 테이블로 가져오기 (release id 기준 upsert)
+export async function importReleasesFromCsv(
+  db: Database,
+  timezone: string,
+  filePath: string = DEFAULT_RELEASE_CSV_PATH
+): Promise<number> {
+  const csvStr = fs.readFileSync(filePath, 'utf-8')
+  const parsed = Papa.parse<RawReleaseRow>(csvStr, { header: true, skipEmptyLines: true })
+  const rows = parsed.data.filter(row => row.Repo && row.ReleaseID)
+
+  const repoIds = new Map<string, number>()
+  for (const repoName of new Set(rows.map(row => row.Repo))) {
+    const repo = await ensureRepo(db, repoName)
+    repoIds.set(repoName, repo.id)
+  }
+
+  db.transaction(tx => {
+    for (const row of rows) {
+      const { id, ...values } = toNewRelease(row, repoIds.get(row.Repo)!, timezone)
+      tx.insert(releases)
+        .values({ id, ...values })
+        .onConflictDoUpdate({ target: releases.id, set: values })
+        .run()
+      replaceReleaseAssets(tx, id!, assetsFromNames(values.assetsNames ?? ''))
+    }
+  })
+
+  return rows.length
+}
+
+export default importReleasesFromCsv
@@ -2,6 +2,7 @@ import { drizzle } from 'drizzle-orm/better-sqlite3'
 import Database from 'better-sqlite3'
 import env from '../config/env'
 import * as schema from './schema'
+import { registerLocalTimeFunctions } from './localTime'
 import { Database as DrizzleDatabase } from '../types/database'
 
 let db: DrizzleDatabase | null = null
@@ -9,6 +10,8 @@ let db: DrizzleDatabase | null = null
 export async function getDb(): Promise<DrizzleDatabase> {
   if (!db) {
     const sqlite = new Database(env.DATABASE_URL)
+    sqlite.pragma('foreign_keys = ON')
+    registerLocalTimeFunctions(sqlite)
     db = drizzle(sqlite, { schema }) as DrizzleDatabase
   }
   return db
@@ -0,0 +1,79 @@
+import BetterSqlite3 from 'better-sqlite3'
+import { and, gte, lt, lte, sql, SQL } from 'drizzle-orm'
+import { releases } from './schema'
+import { toLocalDateParts } from '../utils/timezone'
+
+// SQLite에서 published_at을 보고 시간대 기준으로 나누기 위한 사용자 정의 함수 등록
+//   local_date(iso, tz)    -> 'YYYY-MM-DD'
+//   local_weekday(iso, tz) -> 'Monday' ~ 'Sunday'
+//   local_hour(iso, tz)    -> 0 ~ 23
+export function registerLocalTimeFunctions(sqlite: BetterSqlite3.Database) {
+  const options = { deterministic: true }
+  sqlite.function('local_date', options, (iso: unknown, tz: unknown) =>
+    typeof iso === 'string' ? toLocalDateParts(iso, String(tz)).date : null
+  )
+  sqlite.function('local_weekday', options, (iso: unknown, tz: unknown) =>
+    typeof iso === 'string' ? toLocalDateParts(iso, String(tz)).weekday : null
+  )
+  sqlite.function('local_hour', options, (iso: unknown, tz: unknown) =>
+    typeof iso === 'string' ? toLocalDateParts(iso, String(tz)).hour : null
+  )
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().slice(0, 10)
+}
+
+// 보고 시간대 기준 published_at 버킷
+// 서버 보고 시간대(REPORT_TIMEZONE)면 그 시간대로 채워 둔 published_* 컬럼(인덱스 사용)을 쓰고,
+// 다른 시간대면 사용자 정의 함수로 행마다 다시 계산한다. 시(hour)는 저장 컬럼이 없어 항상 계산한다
+export function publishedBuckets(tz: string, reportTimezone: string) {
+  const hour = sql<number>`local_hour(${releases.publishedAt}, ${tz})`
+  if (tz === reportTimezone) {
+    return {
+      stored: true,
+      date: sql<string>`${releases.publishedDate}`,
+      year: sql<string>`${releases.publishedYear}`,
+      month: sql<string>`${releases.publishedMonth}`,
+      period: sql<string>`substr(${releases.publishedDate}, 1, 7)`,
+      weekday: sql<string>`${releases.publishedWeekday}`,
+      hour
+    }
+  }
+
+  const date = sql<string>`local_date(${releases.publishedAt}, ${tz})`
+  return {
+    stored: false,
+    date,
+    year: sql<string>`substr(${date}, 1, 4)`,
+    month: sql<string>`substr(${date}, 6, 2)`,
+    period: sql<string>`substr(${date}, 1, 7)`,
+    weekday: sql<string>`local_weekday(${releases.publishedAt}, ${tz})`,
+    hour
+  }
+}
+
+// 보고 시간대 기준 기간(YYYY-MM-DD, 양끝 포함) 조건
+// 다시 계산하는 시간대면 UTC published_at 범위(앞뒤 하루 여유)로 먼저 좁혀 인덱스를 타게 한다
+export function publishedDateRange(
+  b: PublishedBuckets,
+  from: string | undefined,
+  to: string | undefined
+): SQL | undefined {
+  return and(
+    from && !b.stored ? gte(releases.publishedAt, addDays(from, -1)) : undefined,
+    to && !b.stored ? lt(releases.publishedAt, addDays(to, 2)) : undefined,
+    from ? gte(b.date, from) : undefined,
+    to ? lte(b.date, to) : undefined
+  )
+}
+
+export type PublishedBuckets = ReturnType<typeof publishedBuckets>
+
+// 생성(created_at)부터 공개(published_at)까지 걸린 시간 (분 단위, 공개 전이면 null)
+// 태그 커밋 시각이 더 늦게 기록되는 경우가 있어 음수는 0으로 본다
+export const leadTimeMinutes = sql<number | null>`
+  max(0, (julianday(${releases.publishedAt}) - julianday(${releases.createdAt})) * 1440)
+`
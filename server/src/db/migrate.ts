@@ -1,10 +1,17 @@
 import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { and, eq, isNotNull, isNull, ne, notExists } from 'drizzle-orm'
 import Database from 'better-sqlite3'
 import { mkdir } from 'fs/promises'
 import { dirname } from 'path'
 import env from '../config/env'
-import { users } from './schema'
+import * as schema from './schema'
+import { users, repos, releases, releaseAssets } from './schema'
+import { createSchema } from './createSchema'
 import { UserRole } from '../types'
+import { assetsFromNames, importReleasesFromCsv, replaceReleaseAssets } from './importReleases'
+import { releaseNoteColumns } from '../utils/releaseNotes'
+import { derivePublishedColumns } from '../utils/releaseDates'
+import { hashPassword } from '../utils/password'
 
 // 데이터베이스 디렉토리 생성 함수
 async function ensureDatabaseDirectory() {
@@ -44,6 +51,26 @@ const initialUsers = [
   }
 ]
 
+// 초기 추적 저장소 데이터
+const initialRepos = [
+  {
+    fullName: 'daangn/stackflow',
+    displayName: 'Stackflow',
+    defaultBranch: 'main',
+    enabled: true,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  },
+  {
+    fullName: 'daangn/seed-design',
+    displayName: 'SEED Design',
+    defaultBranch: 'main',
+    enabled: true,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  }
+]
+
 // 데이터베이스 마이그레이션 및 초기 데이터 삽입
 async function runMigration() {
   try {
@@ -52,22 +79,12 @@ async function runMigration() {
 
     // 데이터베이스 연결
     const sqlite = new Database(env.DATABASE_URL)
-    const db = drizzle(sqlite)
+    sqlite.pragma('foreign_keys = ON')
+    const db = drizzle(sqlite, { schema })
 
     // 스키마 생성
     console.log('데이터베이스 스키마 생성 중...')
-
-    // users 테이블 생성
-    sqlite.exec(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        email TEXT NOT NULL UNIQUE,
-        role TEXT NOT NULL DEFAULT 'USER',
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
-    `)
+    createSchema(sqlite)
 
     // 초기 데이터 삽입
     console.log('초기 데이터 삽입 중...')
@@ -75,16 +92,131 @@ async function runMigration() {
     // 기존 데이터 확인
     const existingUsers = db.select().from(users)
 
+    const initialPasswordHash = env.INITIAL_PASSWORD
+      ? await hashPassword(env.INITIAL_PASSWORD)
+      : null
+
     if ((await existingUsers).length === 0) {
       // 초기 사용자 데이터 삽입
       for (const user of initialUsers) {
-        await db.insert(users).values(user)
+        await db.insert(users).values({ ...user, passwordHash: initialPasswordHash })
       }
       console.log(`${initialUsers.length}명의 사용자가 추가되었습니다.`)
     } else {
       console.log('사용자 데이터가 이미 존재합니다. 초기 데이터 삽입을 건너뜁니다.')
     }
 
+    // 로그인할 수 있는 관리자가 없으면 관리자 계정에 초기 비밀번호 설정
+    const adminWithPassword = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.role, UserRole.ADMIN), isNotNull(users.passwordHash)))
+      .limit(1)
+
+    if (adminWithPassword.length === 0 && initialPasswordHash) {
+      const updated = await db
+        .update(users)
+        .set({ passwordHash: initialPasswordHash })
+        .where(eq(users.role, UserRole.ADMIN))
+        .returning({ id: users.id })
+      console.log(`${updated.length}명의 관리자 계정에 초기 비밀번호를 설정했습니다.`)
+    }
+
+    // 추적 저장소 확인
+    const existingRepos = await db.select({ id: repos.id }).from(repos).limit(1)
+
+    if (existingRepos.length === 0) {
+      await db.insert(repos).values(initialRepos)
+      console.log(`${initialRepos.length}개의 추적 저장소가 추가되었습니다.`)
+    } else {
+      console.log('저장소 데이터가 이미 존재합니다. 초기 데이터 삽입을 건너뜁니다.')
+    }
+
+    // 릴리즈 데이터가 비어 있으면 release-raw.csv에서 가져오기
+    const existingReleases = await db.select({ id: releases.id }).from(releases).limit(1)
+
+    if (existingReleases.length === 0) {
+      const imported = await importReleasesFromCsv(db, env.REPORT_TIMEZONE)
+      console.log(`${imported}개의 릴리즈를 release-raw.csv에서 가져왔습니다.`)
+    } else {
+      console.log('릴리즈 데이터가 이미 존재합니다. CSV 가져오기를 건너뜁니다.')
+    }
+
+    // 릴리즈 노트가 아직 파싱되지 않은 릴리즈 채우기
+    const unparsed = await db
+      .select({ id: releases.id, body: releases.body })
+      .from(releases)
+      .where(isNull(releases.featureCount))
+
+    if (unparsed.length > 0) {
+      db.transaction(tx => {
+        for (const release of unparsed) {
+          tx.update(releases)
+            .set(releaseNoteColumns(release.body))
+            .where(eq(releases.id, release.id))
+            .run()
+        }
+      })
+      console.log(`${unparsed.length}개 릴리즈의 릴리즈 노트를 파싱했습니다.`)
+    }
+
+    // 게시일 집계 컬럼을 보고 시간대 기준으로 다시 계산 (CSV나 이전 버전이 머신 시간대로 채운 값, 시간대 변경 반영)
+    const published = await db
+      .select({
+        id: releases.id,
+        publishedAt: releases.publishedAt,
+        publishedDate: releases.publishedDate,
+        publishedWeekday: releases.publishedWeekday
+      })
+      .from(releases)
+      .where(isNotNull(releases.publishedAt))
+    const outdated = published
+      .map(release => ({
+        release,
+        next: derivePublishedColumns(release.publishedAt, env.REPORT_TIMEZONE)
+      }))
+      .filter(
+        ({ release, next }) =>
+          release.publishedDate !== next.publishedDate ||
+          release.publishedWeekday !== next.publishedWeekday
+      )
+
+    if (outdated.length > 0) {
+      db.transaction(tx => {
+        for (const { release, next } of outdated) {
+          tx.update(releases).set(next).where(eq(releases.id, release.id)).run()
+        }
+      })
+      console.log(
+        `${outdated.length}개 릴리즈의 게시일 컬럼을 ${env.REPORT_TIMEZONE} 기준으로 다시 계산했습니다.`
+      )
+    }
+
+    // 첨부파일 행이 없는 릴리즈는 assets_names에서 채우기 (이전 버전에서 가져온 데이터)
+    const withoutAssetRows = await db
+      .select({ id: releases.id, assetsNames: releases.assetsNames })
+      .from(releases)
+      .where(
+        and(
+          ne(releases.assetsNames, ''),
+          notExists(
+            db
+              .select({ id: releaseAssets.id })
+              .from(releaseAssets)
+              .where(eq(releaseAssets.releaseId, releases.id))
+          )
+        )
+      )
+
+    if (withoutAssetRows.length > 0) {
+      db.transaction(tx => {
+        for (const release of withoutAssetRows) {
+          replaceReleaseAssets(tx, release.id, assetsFromNames(release.assetsNames))
+        }
+      })
+      console.log(`${withoutAssetRows.length}개 릴리즈의 첨부파일 정보를 채웠습니다.`)
+    }
+
     console.log('데이터베이스 마이그레이션이 완료되었습니다.')
   } catch (error) {
     console.error('데이터베이스 마이그레이션 중 오류가 발생했습니다:', error)
@@ -5,9 +5,13 @@ export const users = sqliteTable('users', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
   email: text('email').notNull().unique(),
+  // 릴리즈 작성자(author)와 연결되는 GitHub 로그인 (대소문자 구분 없이 유일)
+  githubLogin: text('github_login'),
   role: text('role', { enum: ['ADMIN', 'USER', 'GUEST'] })
     .notNull()
     .default('USER'),
+  // scrypt 비밀번호 해시 (utils/password.ts), 없으면 로그인할 수 없다
+  passwordHash: text('password_hash'),
   createdAt: text('created_at')
     .notNull()
     .$defaultFn(() => new Date().toISOString()),
@@ -16,7 +20,185 @@ export const users = sqliteTable('users', {
     .$defaultFn(() => new Date().toISOString())
 })
 
-// 사용자 타입 정의
-export type User = typeof users.$inferSelect
+// 사용자 타입 정의 (비밀번호 해시는 응답에 포함하지 않는다)
+export type User = Omit<typeof users.$inferSelect, 'passwordHash'>
 export type NewUser = typeof users.$inferInsert
 export type UpdateUser = Partial<Omit<NewUser, 'id' | 'createdAt'>>
+
+// 저장소 테이블 스키마
+export const repos = sqliteTable('repos', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  fullName: text('full_name').notNull().unique(),
+  displayName: text('display_name').notNull().default(''),
+  defaultBranch: text('default_branch').notNull().default('main'),
+  enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+  lastReleaseId: integer('last_release_id'),
+  etag: text('etag'),
+  lastSyncedAt: text('last_synced_at'),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString())
+})
+
+// 릴리즈 테이블 스키마 (id는 GitHub release id)
+export const releases = sqliteTable('releases', {
+  id: integer('id').primaryKey(),
+  repoId: integer('repo_id')
+    .notNull()
+    .references(() => repos.id, { onDelete: 'cascade' }),
+  tagName: text('tag_name').notNull(),
+  name: text('name').notNull().default(''),
+  author: text('author').notNull().default(''),
+  body: text('body').notNull().default(''),
+  isDraft: integer('is_draft', { mode: 'boolean' }).notNull().default(false),
+  isPrerelease: integer('is_prerelease', { mode: 'boolean' }).notNull().default(false),
+  assetsCount: integer('assets_count').notNull().default(0),
+  assetsNames: text('assets_names').notNull().default(''),
+  htmlUrl: text('html_url').notNull().default(''),
+  createdAt: text('created_at').notNull(),
+  publishedAt: text('published_at'),
+  publishedWeekday: text('published_weekday'),
+  publishedDate: text('published_date'),
+  publishedYear: text('published_year'),
+  publishedMonth: text('published_month'),
+  publishedWeek: integer('published_week'),
+  // 릴리즈 노트 파싱 결과 (null이면 아직 파싱되지 않음)
+  featureCount: integer('feature_count'),
+  fixCount: integer('fix_count'),
+  breakingCount: integer('breaking_count'),
+  pullRequestCount: integer('pull_request_count')
+})
+
+// 릴리즈 첨부파일 테이블
+// CSV에서 가져온 첨부파일은 이름만 알 수 있어 크기/형식/다운로드 수가 null이다
+export const releaseAssets = sqliteTable('release_assets', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  releaseId: integer('release_id')
+    .notNull()
+    .references(() => releases.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  // 바이트
+  size: integer('size'),
+  contentType: text('content_type'),
+  downloadCount: integer('download_count'),
+  downloadUrl: text('download_url'),
+  // 파일 이름에서 추정한 플랫폼 / 파일 형식 (utils/assets)
+  platform: text('platform').notNull().default('any'),
+  fileType: text('file_type').notNull().default('')
+})
+
+// 저장소/릴리즈 타입 정의
+export type Repo = typeof repos.$inferSelect
+export type NewRepo = typeof repos.$inferInsert
+export type UpdateRepo = Partial<Omit<NewRepo, 'id' | 'createdAt'>>
+export type Release = typeof releases.$inferSelect
+export type NewRelease = typeof releases.$inferInsert
+export type ReleaseAsset = typeof releaseAssets.$inferSelect
+export type NewReleaseAsset = typeof releaseAssets.$inferInsert
+
+// 근무 캘린더 설정 테이블 (단일 행, id = 1)
+export const calendarSettings = sqliteTable('calendar_settings', {
+  id: integer('id').primaryKey(),
+  // 주말로 취급할 요일 (콤마 구분, 예: Saturday,Sunday)
+  weekendDays: text('weekend_days').notNull().default('Saturday,Sunday'),
+  // 근무 시간 [시작, 종료) - 보고 시간대 기준 시(0~24)
+  workdayStartHour: integer('workday_start_hour').notNull().default(9),
+  workdayEndHour: integer('workday_end_hour').notNull().default(18),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString())
+})
+
+// 공휴일 테이블
+export const holidays = sqliteTable('holidays', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  // YYYY-MM-DD
+  date: text('date').notNull().unique(),
+  name: text('name').notNull().default(''),
+  source: text('source', { enum: ['manual', 'ical'] })
+    .notNull()
+    .default('manual'),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString())
+})
+
+// 근무 캘린더 타입 정의
+export type CalendarSettings = typeof calendarSettings.$inferSelect
+export type Holiday = typeof holidays.$inferSelect
+export type NewHoliday = typeof holidays.$inferInsert
+
+// 저장된 대시보드 뷰의 필터
+export interface DashboardViewFilters {
+  repos: string[]
+  from?: string
+  to?: string
+  tz?: string
+  includeWeekends?: boolean
+}
+
+// 저장된 대시보드 뷰 테이블 (사용자별 필터 + 표시할 카드와 순서)
+// 사용자당 이름은 유일하고 기본 뷰는 하나뿐이다 (migrate.ts의 unique index)
+export const dashboardViews = sqliteTable('dashboard_views', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  filters: text('filters', { mode: 'json' })
+    .$type<DashboardViewFilters>()
+    .notNull()
+    .default({ repos: [] }),
+  // 표시할 카드 id (표시 순서), 비어 있으면 모든 카드를 기본 순서로
+  cards: text('cards', { mode: 'json' }).$type<string[]>().notNull().default([]),
+  isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString())
+})
+
+// 대시보드 뷰 타입 정의
+export type DashboardView = typeof dashboardViews.$inferSelect
+export type NewDashboardView = typeof dashboardViews.$inferInsert
+
+// 로그인 세션 테이블 (id는 쿠키에 담긴 토큰의 SHA-256 해시)
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey(),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  expiresAt: text('expires_at').notNull(),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString())
+})
+
+// 세션 타입 정의
+export type Session = typeof sessions.$inferSelect
+
+// 개인 API 토큰 테이블 (스크립트/봇용, 토큰 원문 대신 SHA-256 해시를 저장)
+export const apiTokens = sqliteTable('api_tokens', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id')
+    .notNull()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  // 목록에서 토큰을 구분하기 위한 앞부분 (예: pat_AbCd1234)
+  prefix: text('prefix').notNull(),
+  scopes: text('scopes', { mode: 'json' }).$type<string[]>().notNull().default([]),
+  expiresAt: text('expires_at').notNull(),
+  lastUsedAt: text('last_used_at'),
+  createdAt: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString())
+})
+
+// API 토큰 타입 정의 (해시는 응답에 포함하지 않는다)
+export type ApiToken = Omit<typeof apiTokens.$inferSelect, 'tokenHash'>
@@ -0,0 +1,5 @@
+import { AnyColumn, sql } from 'drizzle-orm'
+
+// 대소문자 구분 없는 부분 문자열 검색 (LIKE 와일드카드 이스케이프가 필요 없도록 instr 사용)
+export const contains = (column: AnyColumn, term: string) =>
+  sql`instr(lower(${column}), lower(${term})) > 0`
@@ -1,12 +1,21 @@
 import Fastify from 'fastify'
 import cors from '@fastify/cors'
+import cookie from '@fastify/cookie'
 import env from './config/env'
 import { initializeDatabase, getDb } from './db'
 import runMigration from './db/migrate'
 import { createUserService } from './services/userService'
+import { createDashboardService } from './services/dashboardService'
+import { createRepoService } from './services/repoService'
+import { createReleaseService } from './services/releaseService'
+import { createCalendarService } from './services/calendarService'
+import { createDashboardViewService } from './services/dashboardViewService'
+import { createAuthService } from './services/authService'
+import { createApiTokenService } from './services/apiTokenService'
+import { createAuthPlugin } from './plugins/auth'
+import { errorHandler } from './plugins/errorHandler'
 import { createRoutes } from './routes'
 import { AppContext } from './types/context'
-import dashboardRoutes from './routes/dashboardRoutes'
 
 // Fastify 인스턴스 생성
 const fastify = Fastify({
@@ -19,6 +28,13 @@ const fastify = Fastify({
         ignore: 'pid,hostname'
       }
     }
+  },
+  // 검증 실패 필드를 모두 모으고, 정의되지 않은 필드는 지우지 않고 거부한다
+  ajv: {
+    customOptions: {
+      allErrors: true,
+      removeAdditional: false
+    }
   }
 })
 
@@ -32,16 +48,37 @@ async function start() {
       credentials: true
     })
 
+    // 요청 검증 실패 등 에러 응답을 ApiResponse 형식으로
+    fastify.setErrorHandler(errorHandler)
+
+    // 세션 쿠키 파싱
+    await fastify.register(cookie)
+
     // 데이터베이스 마이그레이션 및 초기화
     await runMigration()
     await initializeDatabase()
 
     // 서비스 및 컨텍스트 초기화
     const db = await getDb()
+    const calendarService = createCalendarService({ db })
     const context: AppContext = {
-      userService: createUserService({ db })
+      userService: createUserService({ db }),
+      dashboardService: createDashboardService({
+        db,
+        calendarService,
+        timezone: env.REPORT_TIMEZONE
+      }),
+      repoService: createRepoService({ db }),
+      releaseService: createReleaseService({ db, calendarService, timezone: env.REPORT_TIMEZONE }),
+      calendarService,
+      dashboardViewService: createDashboardViewService({ db }),
+      authService: createAuthService({ db, sessionTtl: env.SESSION_TTL_HOURS * 60 * 60 * 1000 }),
+      apiTokenService: createApiTokenService({ db })
     }
 
+    // 세션 쿠키 또는 API 토큰으로 현재 사용자 확인
+    await fastify.register(createAuthPlugin(context))
+
     // 라우트 등록
     await fastify.register(createRoutes(context))
 
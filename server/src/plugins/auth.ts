@@ -0,0 +1,101 @@
+import { FastifyReply, FastifyRequest } from 'fastify'
+import fp from 'fastify-plugin'
+import { AuthService } from '../services/authService'
+import { ApiTokenService } from '../services/apiTokenService'
+import { ApiTokenScope, User, UserRole } from '../types'
+import { createErrorResponse } from '../utils/response'
+
+// 세션 토큰을 담는 쿠키 이름
+export const SESSION_COOKIE = 'session'
+
+// 상위 권한 범위가 포함하는 하위 범위
+const IMPLIED_SCOPES: Partial<Record<ApiTokenScope, ApiTokenScope[]>> = {
+  'admin:repos': ['read:repos']
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // 세션 쿠키 또는 API 토큰으로 확인한 현재 사용자 (인증하지 않았으면 null)
+    user: User | null
+    // API 토큰으로 인증한 요청의 권한 범위 (세션이면 null)
+    tokenScopes: string[] | null
+  }
+}
+
+type AuthPluginDeps = {
+  authService: AuthService
+  apiTokenService: ApiTokenService
+}
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i
+
+const hasScope = (scopes: string[], scope: ApiTokenScope) =>
+  scopes.some(
+    granted => granted === scope || IMPLIED_SCOPES[granted as ApiTokenScope]?.includes(scope)
+  )
+
+// 모든 요청에 현재 사용자를 붙인다 (인가는 라우트별 가드에서)
+// Authorization: Bearer 헤더가 있으면 세션 쿠키 대신 API 토큰으로 인증한다
+// (Basic 등 다른 방식의 Authorization 헤더는 무시하고 세션 쿠키로 인증한다)
+export const createAuthPlugin = ({ authService, apiTokenService }: AuthPluginDeps) =>
+  fp(
+    async fastify => {
+      fastify.decorateRequest('user', null)
+      fastify.decorateRequest('tokenScopes', null)
+
+      fastify.addHook('onRequest', async (request, reply) => {
+        const secret = BEARER_PATTERN.exec(request.headers.authorization ?? '')?.[1]
+        if (secret) {
+          const verified = await apiTokenService.verifyToken(secret)
+          if (!verified) {
+            return reply
+              .code(401)
+              .send(createErrorResponse('유효하지 않거나 만료된 API 토큰입니다.'))
+          }
+          request.user = verified.user
+          request.tokenScopes = verified.scopes
+          return
+        }
+
+        const token = request.cookies[SESSION_COOKIE]
+        request.user = token ? ((await authService.getSessionUser(token)) ?? null) : null
+      })
+    },
+    { name: 'auth', dependencies: ['@fastify/cookie'] }
+  )
+
+// 로그인한 사용자만 허용 (GUEST 포함, 조회용)
+// 권한 범위가 정해지지 않은 API라 API 토큰으로는 호출할 수 없다
+export const authenticate = async (request: FastifyRequest, reply: FastifyReply) => {
+  if (!request.user) {
+    return reply.code(401).send(createErrorResponse('로그인이 필요합니다.'))
+  }
+  if (request.tokenScopes) {
+    return reply.code(403).send(createErrorResponse('API 토큰으로 사용할 수 없는 API입니다.'))
+  }
+}
+
+// 로그인한 사용자 또는 해당 권한 범위를 가진 API 토큰만 허용
+export const requireScope =
+  (scope: ApiTokenScope) => async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user) {
+      return reply.code(401).send(createErrorResponse('로그인이 필요합니다.'))
+    }
+    if (request.tokenScopes && !hasScope(request.tokenScopes, scope)) {
+      return reply
+        .code(403)
+        .send(createErrorResponse(`API 토큰에 ${scope} 권한 범위가 필요합니다.`))
+    }
+  }
+
+// 지정한 역할의 사용자만 허용
+export const requireRole =
+  (...roles: UserRole[]) =>
+  async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.user) {
+      return reply.code(401).send(createErrorResponse('로그인이 필요합니다.'))
+    }
+    if (!roles.includes(request.user.role as UserRole)) {
+      return reply.code(403).send(createErrorResponse('권한이 없습니다.'))
+    }
+  }
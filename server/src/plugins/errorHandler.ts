@@ -0,0 +1,88 @@
+import { FastifyError, FastifyReply, FastifyRequest } from 'fastify'
+import { FieldError } from '../types'
+import { createErrorResponse, createValidationErrorResponse } from '../utils/response'
+
+type ValidationError = NonNullable<FastifyError['validation']>[number]
+type ValidationContext = FastifyError['validationContext']
+
+const TYPE_LABELS: Record<string, string> = {
+  string: '문자열',
+  integer: '정수',
+  number: '숫자',
+  boolean: 'true 또는 false',
+  array: '배열',
+  object: '객체',
+  null: 'null'
+}
+
+const FORMAT_MESSAGES: Record<string, string> = {
+  email: '올바른 이메일 형식이 아닙니다.'
+}
+
+// ajv 에러 -> 한국어 메시지
+const describe = ({ keyword, params, message }: ValidationError): string => {
+  switch (keyword) {
+    case 'required':
+      return '필수 항목입니다.'
+    case 'additionalProperties':
+      return '허용되지 않는 항목입니다.'
+    case 'type':
+      return `${String(params.type)
+        .split(',')
+        .map(type => TYPE_LABELS[type] ?? type)
+        .join(' 또는 ')} 값이어야 합니다.`
+    case 'enum':
+      return `${(params.allowedValues as unknown[]).join(', ')} 중 하나여야 합니다.`
+    case 'minLength':
+      return params.limit === 1 ? '값을 입력해주세요.' : `${params.limit}자 이상이어야 합니다.`
+    case 'maxLength':
+      return `${params.limit}자 이하여야 합니다.`
+    case 'minimum':
+      return `${params.limit} 이상이어야 합니다.`
+    case 'maximum':
+      return `${params.limit} 이하여야 합니다.`
+    case 'pattern':
+      return '형식이 올바르지 않습니다.'
+    case 'format':
+      return FORMAT_MESSAGES[params.format as string] ?? '형식이 올바르지 않습니다.'
+    default:
+      return message ?? '값이 올바르지 않습니다.'
+  }
+}
+
+// 에러가 난 필드 경로 (/filters/repos/0 -> filters.repos.0, 최상위면 요청 위치)
+const fieldOf = (
+  { keyword, instancePath, params }: ValidationError,
+  context: ValidationContext
+): string => {
+  const path = instancePath.split('/').filter(Boolean)
+  if (keyword === 'required') path.push(String(params.missingProperty))
+  if (keyword === 'additionalProperties') path.push(String(params.additionalProperty))
+  return path.join('.') || context || 'request'
+}
+
+const formatValidationErrors = (
+  errors: ValidationError[],
+  context: ValidationContext
+): FieldError[] =>
+  errors.map(error => ({ field: fieldOf(error, context), message: describe(error) }))
+
+// 스키마 검증 실패는 필드별 메시지와 함께 400으로, 그 밖의 에러도 ApiResponse 형식으로 응답한다
+export const errorHandler = (error: FastifyError, request: FastifyRequest, reply: FastifyReply) => {
+  if (error.validation) {
+    return reply
+      .code(400)
+      .send(
+        createValidationErrorResponse(
+          formatValidationErrors(error.validation, error.validationContext)
+        )
+      )
+  }
+
+  const statusCode = error.statusCode && error.statusCode >= 400 ? error.statusCode : 500
+  if (statusCode >= 500) {
+    request.log.error(error)
+    return reply.code(statusCode).send(createErrorResponse('서버 오류가 발생했습니다.'))
+  }
+  return reply.code(statusCode).send(createErrorResponse(error.message))
+}
@@ -0,0 +1,25 @@
+import { FastifyInstance } from 'fastify'
+import { AppContext } from '../types/context'
+import { createApiTokenController } from '../controllers/apiTokenController'
+import { apiTokenSchemas } from '../schemas/apiTokenSchemas'
+import { authenticate } from '../plugins/auth'
+
+// 사용자별 API 토큰 관련 라우트 등록 (/api/users/:userId/tokens)
+export const createApiTokenRoutes = (context: AppContext) => async (fastify: FastifyInstance) => {
+  const apiTokenController = createApiTokenController({
+    apiTokenService: context.apiTokenService,
+    userService: context.userService
+  })
+
+  // 토큰 관리는 로그인 세션으로만 (토큰으로 토큰을 만들 수 없다)
+  fastify.addHook('onRequest', authenticate)
+
+  // 사용자의 API 토큰 목록 조회
+  fastify.get('/', { schema: apiTokenSchemas.getTokens }, apiTokenController.getTokens)
+
+  // API 토큰 발급
+  fastify.post('/', { schema: apiTokenSchemas.createToken }, apiTokenController.createToken)
+
+  // API 토큰 폐기
+  fastify.delete('/:id', { schema: apiTokenSchemas.deleteToken }, apiTokenController.deleteToken)
+}
@@ -0,0 +1,25 @@
+import { FastifyInstance } from 'fastify'
+import { AppContext } from '../types/context'
+import { createAuthController } from '../controllers/authController'
+import { authSchemas } from '../schemas/authSchemas'
+import { authenticate } from '../plugins/auth'
+
+// 인증 관련 라우트 등록
+export const createAuthRoutes = (context: AppContext) => async (fastify: FastifyInstance) => {
+  const authController = createAuthController({
+    authService: context.authService
+  })
+
+  // 로그인
+  fastify.post('/login', { schema: authSchemas.login }, authController.login)
+
+  // 로그아웃
+  fastify.post('/logout', { schema: authSchemas.logout }, authController.logout)
+
+  // 현재 로그인한 사용자 조회
+  fastify.get(
+    '/me',
+    { onRequest: authenticate, schema: authSchemas.getCurrentUser },
+    authController.getCurrentUser
+  )
+}
@@ -0,0 +1,48 @@
+import { FastifyInstance } from 'fastify'
+import { AppContext } from '../types/context'
+import { UserRole } from '../types'
+import { authenticate, requireRole } from '../plugins/auth'
+import { createCalendarController } from '../controllers/calendarController'
+import { calendarSchemas } from '../schemas/calendarSchemas'
+
+// 근무 캘린더 관련 라우트 등록
+export const createCalendarRoutes = (context: AppContext) => async (fastify: FastifyInstance) => {
+  const calendarController = createCalendarController({
+    calendarService: context.calendarService
+  })
+
+  // 로그인한 사용자만 조회할 수 있다
+  fastify.addHook('onRequest', authenticate)
+
+  // 근무 캘린더 설정 + 공휴일 조회
+  fastify.get('/', { schema: calendarSchemas.getCalendar }, calendarController.getCalendar)
+
+  // 캘린더 설정과 공휴일 변경은 관리자만
+  fastify.register(async (scope: FastifyInstance) => {
+    scope.addHook('onRequest', requireRole(UserRole.ADMIN))
+
+    // 근무 캘린더 설정 수정 (주말 요일, 근무 시간)
+    scope.put('/', { schema: calendarSchemas.updateCalendar }, calendarController.updateCalendar)
+
+    // 공휴일 추가
+    scope.post(
+      '/holidays',
+      { schema: calendarSchemas.createHoliday },
+      calendarController.createHoliday
+    )
+
+    // iCal 파일에서 공휴일 가져오기
+    scope.post(
+      '/holidays/import',
+      { schema: calendarSchemas.importHolidays },
+      calendarController.importHolidays
+    )
+
+    // 공휴일 삭제
+    scope.delete(
+      '/holidays/:id',
+      { schema: calendarSchemas.deleteHoliday },
+      calendarController.deleteHoliday
+    )
+  })
+}
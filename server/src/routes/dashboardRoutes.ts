@@ -1,6 +1,32 @@
-import { FastifyInstance } from "fastify";
-import { getDashboard } from "../controllers/dashboardController";
+import { FastifyInstance } from 'fastify'
+import { AppContext } from '../types/context'
+import { requireScope } from '../plugins/auth'
+import { createDashboardController } from '../controllers/dashboardController'
+import { dashboardSchemas } from '../schemas/dashboardSchemas'
 
-export default async function dashboardRoutes(fastify: FastifyInstance) {
-  fastify.get("/stats", getDashboard);
-}
\ No newline at end of file
+// 대시보드 관련 라우트 등록
+export const createDashboardRoutes = (context: AppContext) => async (fastify: FastifyInstance) => {
+  const dashboardController = createDashboardController({
+    dashboardService: context.dashboardService
+  })
+
+  // 로그인한 사용자 또는 read:stats 권한의 API 토큰만 조회할 수 있다
+  fastify.addHook('onRequest', requireScope('read:stats'))
+
+  // 대시보드 통계 조회
+  fastify.get('/stats', { schema: dashboardSchemas.getStats }, dashboardController.getStats)
+
+  // 대시보드 통계 파일 내보내기 (csv / json / xlsx)
+  fastify.get(
+    '/stats/export',
+    { schema: dashboardSchemas.exportStats },
+    dashboardController.exportStats
+  )
+
+  // 릴리즈 burst / drought 특이점 목록
+  fastify.get(
+    '/anomalies',
+    { schema: dashboardSchemas.getAnomalies },
+    dashboardController.getAnomalies
+  )
+}
@@ -0,0 +1,53 @@
+import { FastifyInstance } from 'fastify'
+import { AppContext } from '../types/context'
+import { UserRole } from '../types'
+import { authenticate, requireRole } from '../plugins/auth'
+import { createDashboardViewController } from '../controllers/dashboardViewController'
+import { dashboardViewSchemas } from '../schemas/dashboardViewSchemas'
+
+// 저장된 대시보드 뷰 관련 라우트 등록
+export const createDashboardViewRoutes =
+  (context: AppContext) => async (fastify: FastifyInstance) => {
+    const dashboardViewController = createDashboardViewController({
+      dashboardViewService: context.dashboardViewService
+    })
+
+    // 뷰는 로그인한 사용자 본인 것만 다룬다
+    fastify.addHook('onRequest', authenticate)
+
+    // 내 대시보드 뷰 목록 조회
+    fastify.get('/', { schema: dashboardViewSchemas.getViews }, dashboardViewController.getViews)
+
+    // ID로 대시보드 뷰 조회
+    fastify.get(
+      '/:id',
+      { schema: dashboardViewSchemas.getViewById },
+      dashboardViewController.getViewById
+    )
+
+    // 뷰 저장/수정/삭제는 GUEST를 제외한 사용자만
+    fastify.register(async (scope: FastifyInstance) => {
+      scope.addHook('onRequest', requireRole(UserRole.ADMIN, UserRole.USER))
+
+      // 대시보드 뷰 생성
+      scope.post(
+        '/',
+        { schema: dashboardViewSchemas.createView },
+        dashboardViewController.createView
+      )
+
+      // 대시보드 뷰 수정 (기본 뷰 지정 포함)
+      scope.put(
+        '/:id',
+        { schema: dashboardViewSchemas.updateView },
+        dashboardViewController.updateView
+      )
+
+      // 대시보드 뷰 삭제
+      scope.delete(
+        '/:id',
+        { schema: dashboardViewSchemas.deleteView },
+        dashboardViewController.deleteView
+      )
+    })
+  }
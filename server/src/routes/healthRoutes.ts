@@ -1,5 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { createSuccessResponse } from '../utils/response'
+import { healthSchemas } from '../schemas/healthSchemas'
 
 // 헬스 체크 핸들러
 async function healthCheck(_request: FastifyRequest, reply: FastifyReply) {
@@ -8,5 +9,5 @@ async function healthCheck(_request: FastifyRequest, reply: FastifyReply) {
 
 // 헬스 체크 라우트 등록
 export default async function healthRoutes(fastify: FastifyInstance) {
-  fastify.get('/', healthCheck)
+  fastify.get('/', { schema: healthSchemas.healthCheck }, healthCheck)
 }
@@ -2,16 +2,40 @@ import { FastifyInstance } from 'fastify'
 import { AppContext } from '../types/context'
 import { createUserRoutes } from './userRoutes'
 import healthRoutes from './healthRoutes'
-import dashboardRoutes from './dashboardRoutes'
+import { createDashboardRoutes } from './dashboardRoutes'
+import { createRepoRoutes } from './repoRoutes'
+import { createReleaseRoutes } from './releaseRoutes'
+import { createCalendarRoutes } from './calendarRoutes'
+import { createDashboardViewRoutes } from './dashboardViewRoutes'
+import { createAuthRoutes } from './authRoutes'
+import { createApiTokenRoutes } from './apiTokenRoutes'
 
 // 모든 라우트 등록
 export const createRoutes = (context: AppContext) => async (fastify: FastifyInstance) => {
   // 헬스 체크 라우트
   fastify.register(healthRoutes, { prefix: '/api/health' })
 
+  // 인증 관련 라우트
+  fastify.register(createAuthRoutes(context), { prefix: '/api/auth' })
+
   // 사용자 관련 라우트
   fastify.register(createUserRoutes(context), { prefix: '/api/users' })
 
+  // 사용자별 API 토큰 관련 라우트
+  fastify.register(createApiTokenRoutes(context), { prefix: '/api/users/:userId/tokens' })
+
+  // 추적 저장소 관련 라우트
+  fastify.register(createRepoRoutes(context), { prefix: '/api/repos' })
+
+  // 릴리즈 관련 라우트
+  fastify.register(createReleaseRoutes(context), { prefix: '/api/releases' })
+
+  // 근무 캘린더 관련 라우트
+  fastify.register(createCalendarRoutes(context), { prefix: '/api/calendar' })
+
   // 대시보드 관련 라우트
-  fastify.register(dashboardRoutes, { prefix: '/api/dashboard' })
+  fastify.register(createDashboardRoutes(context), { prefix: '/api/dashboard' })
+
+  // 저장된 대시보드 뷰 관련 라우트
+  fastify.register(createDashboardViewRoutes(context), { prefix: '/api/dashboard-views' })
 }
@@ -0,0 +1,21 @@
+import { FastifyInstance } from 'fastify'
+import { AppContext } from '../types/context'
+import { requireScope } from '../plugins/auth'
+import { createReleaseController } from '../controllers/releaseController'
+import { releaseSchemas } from '../schemas/releaseSchemas'
+
+// 릴리즈 관련 라우트 등록
+export const createReleaseRoutes = (context: AppContext) => async (fastify: FastifyInstance) => {
+  const releaseController = createReleaseController({
+    releaseService: context.releaseService
+  })
+
+  // 로그인한 사용자 또는 read:releases 권한의 API 토큰만 조회할 수 있다
+  fastify.addHook('onRequest', requireScope('read:releases'))
+
+  // 릴리즈 목록 조회 (페이지네이션/정렬/검색)
+  fastify.get('/', { schema: releaseSchemas.getReleases }, releaseController.getReleases)
+
+  // ID로 릴리즈 조회
+  fastify.get('/:id', { schema: releaseSchemas.getReleaseById }, releaseController.getReleaseById)
+}
@@ -0,0 +1,35 @@
+import { FastifyInstance } from 'fastify'
+import { AppContext } from '../types/context'
+import { UserRole } from '../types'
+import { requireRole, requireScope } from '../plugins/auth'
+import { createRepoController } from '../controllers/repoController'
+import { repoSchemas } from '../schemas/repoSchemas'
+
+// 추적 저장소 관련 라우트 등록
+export const createRepoRoutes = (context: AppContext) => async (fastify: FastifyInstance) => {
+  const repoController = createRepoController({ repoService: context.repoService })
+
+  // 로그인한 사용자 또는 read:repos 권한의 API 토큰만 조회할 수 있다
+  fastify.addHook('onRequest', requireScope('read:repos'))
+
+  // 모든 저장소 조회
+  fastify.get('/', { schema: repoSchemas.getAllRepos }, repoController.getAllRepos)
+
+  // ID로 저장소 조회
+  fastify.get('/:id', { schema: repoSchemas.getRepoById }, repoController.getRepoById)
+
+  // 추가/수정/삭제는 관리자만 (API 토큰은 admin:repos 권한 범위 필요)
+  fastify.register(async (scope: FastifyInstance) => {
+    scope.addHook('onRequest', requireScope('admin:repos'))
+    scope.addHook('onRequest', requireRole(UserRole.ADMIN))
+
+    // 저장소 추가
+    scope.post('/', { schema: repoSchemas.createRepo }, repoController.createRepo)
+
+    // 저장소 수정
+    scope.put('/:id', { schema: repoSchemas.updateRepo }, repoController.updateRepo)
+
+    // 저장소 삭제
+    scope.delete('/:id', { schema: repoSchemas.deleteRepo }, repoController.deleteRepo)
+  })
+}
@@ -1,23 +1,44 @@
 import { FastifyInstance } from 'fastify'
 import { AppContext } from '../types/context'
+import { UserRole } from '../types'
+import { authenticate, requireRole } from '../plugins/auth'
 import { createUserController } from '../controllers/userController'
+import { userSchemas } from '../schemas/userSchemas'
 
 // 사용자 관련 라우트 등록
 export const createUserRoutes = (context: AppContext) => async (fastify: FastifyInstance) => {
-  const userController = createUserController({ userService: context.userService })
+  const userController = createUserController({
+    userService: context.userService,
+    releaseService: context.releaseService
+  })
 
-  // 모든 사용자 조회
-  fastify.get('/', userController.getAllUsers)
+  // 로그인한 사용자만 조회할 수 있다
+  fastify.addHook('onRequest', authenticate)
+
+  // 사용자 목록 조회 (페이지네이션/정렬/검색/역할 필터)
+  fastify.get('/', { schema: userSchemas.getUsers }, userController.getUsers)
 
   // ID로 사용자 조회
-  fastify.get('/:id', userController.getUserById)
+  fastify.get('/:id', { schema: userSchemas.getUserById }, userController.getUserById)
+
+  // 사용자의 릴리즈 요약 (GitHub 로그인 기준)
+  fastify.get(
+    '/:id/releases',
+    { schema: userSchemas.getUserReleases },
+    userController.getUserReleases
+  )
+
+  // 추가/수정/삭제는 관리자만
+  fastify.register(async (scope: FastifyInstance) => {
+    scope.addHook('onRequest', requireRole(UserRole.ADMIN))
 
-  // 사용자 생성
-  fastify.post('/', userController.createUser)
+    // 사용자 생성
+    scope.post('/', { schema: userSchemas.createUser }, userController.createUser)
 
-  // 사용자 수정
-  fastify.put('/:id', userController.updateUser)
+    // 사용자 수정
+    scope.put('/:id', { schema: userSchemas.updateUser }, userController.updateUser)
 
-  // 사용자 삭제
-  fastify.delete('/:id', userController.deleteUser)
+    // 사용자 삭제
+    scope.delete('/:id', { schema: userSchemas.deleteUser }, userController.deleteUser)
+  })
 }
@@ -0,0 +1,60 @@
+import { API_TOKEN_SCOPES } from '../types'
+import {
+  arrayOf,
+  emptyResponse,
+  errorResponses,
+  idParam,
+  integerType,
+  nullable,
+  objectSchema,
+  strictObject,
+  stringType,
+  successResponse
+} from './common'
+
+// 토큰 해시는 정의하지 않아 응답에 포함되지 않는다
+const apiTokenProperties = {
+  id: integerType,
+  userId: integerType,
+  name: stringType,
+  prefix: stringType,
+  scopes: arrayOf(stringType),
+  expiresAt: stringType,
+  lastUsedAt: nullable(stringType),
+  createdAt: stringType
+}
+
+const userIdParams = strictObject({ userId: idParam }, ['userId'])
+
+const MAX_NAME_LENGTH = 100
+const MAX_EXPIRES_IN_DAYS = 365
+
+// 공백뿐인 이름/중복 권한 범위/역할별 권한 범위는 컨트롤러에서 검증한다
+const createApiTokenBody = strictObject(
+  {
+    name: { type: 'string', minLength: 1, maxLength: MAX_NAME_LENGTH },
+    scopes: arrayOf({ type: 'string', enum: API_TOKEN_SCOPES }),
+    expiresInDays: { type: 'integer', minimum: 1, maximum: MAX_EXPIRES_IN_DAYS }
+  },
+  ['name', 'scopes', 'expiresInDays']
+)
+
+export const apiTokenSchemas = {
+  getTokens: {
+    params: userIdParams,
+    response: { 200: successResponse(arrayOf(objectSchema(apiTokenProperties))), ...errorResponses }
+  },
+  // 토큰 원문(secret)은 발급 응답에만 포함된다
+  createToken: {
+    params: userIdParams,
+    body: createApiTokenBody,
+    response: {
+      201: successResponse(objectSchema({ ...apiTokenProperties, secret: stringType })),
+      ...errorResponses
+    }
+  },
+  deleteToken: {
+    params: strictObject({ userId: idParam, id: idParam }, ['userId', 'id']),
+    response: { 200: emptyResponse, ...errorResponses }
+  }
+}
@@ -0,0 +1,21 @@
+import { emptyResponse, errorResponses, strictObject, successResponse } from './common'
+import { user } from './userSchemas'
+
+export const authSchemas = {
+  login: {
+    body: strictObject(
+      {
+        email: { type: 'string', minLength: 1 },
+        password: { type: 'string', minLength: 1 }
+      },
+      ['email', 'password']
+    ),
+    response: { 200: successResponse(user), ...errorResponses }
+  },
+  logout: {
+    response: { 200: emptyResponse, ...errorResponses }
+  },
+  getCurrentUser: {
+    response: { 200: successResponse(user), ...errorResponses }
+  }
+}
@@ -0,0 +1,63 @@
+import { WEEKDAY_NAMES } from '../utils/workingCalendar'
+import {
+  arrayOf,
+  emptyResponse,
+  errorResponses,
+  idParams,
+  integerType,
+  nullable,
+  objectSchema,
+  strictObject,
+  stringType,
+  successResponse
+} from './common'
+
+const holiday = objectSchema({
+  id: integerType,
+  date: stringType,
+  name: stringType,
+  source: stringType,
+  createdAt: stringType
+})
+
+const calendarSettingsProperties = {
+  weekendDays: arrayOf(stringType),
+  workdayStartHour: integerType,
+  workdayEndHour: integerType,
+  updatedAt: nullable(stringType)
+}
+
+// 근무 시간 범위와 날짜 형식은 컨트롤러에서 검증한다
+export const calendarSchemas = {
+  getCalendar: {
+    response: {
+      200: successResponse(
+        objectSchema({ ...calendarSettingsProperties, holidays: arrayOf(holiday) })
+      ),
+      ...errorResponses
+    }
+  },
+  updateCalendar: {
+    body: strictObject({
+      weekendDays: arrayOf({ type: 'string', enum: WEEKDAY_NAMES }),
+      workdayStartHour: integerType,
+      workdayEndHour: integerType
+    }),
+    response: { 200: successResponse(objectSchema(calendarSettingsProperties)), ...errorResponses }
+  },
+  createHoliday: {
+    body: strictObject({ date: stringType, name: stringType }, ['date']),
+    response: { 201: successResponse(holiday), ...errorResponses }
+  },
+  importHolidays: {
+    body: strictObject({ ics: stringType }, ['ics']),
+    response: {
+      200: successResponse(objectSchema({ imported: integerType, holidays: arrayOf(holiday) })),
+      ...errorResponses
+    }
+  },
+  deleteHoliday: {
+    params: idParams,
+    response: { 200: emptyResponse, ...errorResponses }
+  }
+}
@@ -0,0 +1,77 @@
+// 라우트 스키마 공통 조각
+// 요청 스키마는 형태(필수 항목/타입/허용 값)를 검증하고, 값의 의미 검증은 컨트롤러가 맡는다
+// 응답 스키마는 Fastify 직렬화에 쓰이며 정의하지 않은 필드는 응답에서 빠진다
+
+export const stringType = { type: 'string' }
+export const integerType = { type: 'integer' }
+export const numberType = { type: 'number' }
+export const booleanType = { type: 'boolean' }
+
+export const objectSchema = (properties: Record<string, object>) => ({
+  type: 'object',
+  properties
+})
+
+export const arrayOf = (items: object) => ({ type: 'array', items })
+
+export const nullable = (schema: object) => ({ ...schema, nullable: true })
+
+// 정의하지 않은 필드를 허용하지 않는 요청 객체 (본문/경로 파라미터, 어기면 400)
+export const strictObject = (properties: Record<string, object>, required: string[] = []) => ({
+  type: 'object',
+  required,
+  properties,
+  additionalProperties: false
+})
+
+// 경로의 숫자 ID (컨트롤러에서 정수로 변환)
+export const idParam = { type: 'string', pattern: '^\\d+$' }
+
+export const idParams = strictObject({ id: idParam }, ['id'])
+
+// 목록 쿼리의 페이지 번호/크기 (쿼리스트링 값은 정수로 변환되어 컨트롤러에 전달된다)
+export const pageParam = { type: 'integer', minimum: 1 }
+export const limitParam = (maximum: number) => ({ type: 'integer', minimum: 1, maximum })
+
+// 정해진 값 중 하나인 문자열
+export const enumOf = (values: readonly string[]) => ({ type: 'string', enum: values })
+
+// YYYY-MM-DD 날짜 (실제로 있는 날짜인지는 컨트롤러에서 검증)
+export const dateParam = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' }
+
+// 반복 지정(?repo=a&repo=b)과 콤마 구분(?repo=a,b)을 모두 받는 쿼리 파라미터
+export const stringListParam = arrayOf(stringType)
+
+// 에러 응답 (스키마 검증 실패면 필드별 errors 포함)
+export const errorResponse = objectSchema({
+  success: booleanType,
+  error: stringType,
+  errors: arrayOf(objectSchema({ field: stringType, message: stringType }))
+})
+
+export const errorResponses = {
+  '4xx': errorResponse,
+  '5xx': errorResponse
+}
+
+// ApiResponse<T> 성공 응답
+export const successResponse = (data: object) =>
+  objectSchema({
+    success: booleanType,
+    data,
+    message: stringType
+  })
+
+// 삭제/로그아웃처럼 data가 null인 응답
+export const emptyResponse = successResponse({ type: 'null' })
+
+// PaginatedResponse<T> 응답
+export const paginatedResponse = (item: object) =>
+  objectSchema({
+    success: booleanType,
+    data: arrayOf(item),
+    total: integerType,
+    page: integerType,
+    limit: integerType,
+    totalPages: integerType
+  })
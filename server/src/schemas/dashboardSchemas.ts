@@ -0,0 +1,297 @@
+import { EXPORT_FORMATS, GROUP_BY_VALUES } from '../utils/filters'
+import {
+  arrayOf,
+  booleanType,
+  dateParam,
+  enumOf,
+  errorResponses,
+  integerType,
+  nullable,
+  numberType,
+  objectSchema,
+  stringListParam,
+  stringType
+} from './common'
+
+// 대시보드 필터 쿼리 파라미터
+// 실제로 있는 날짜/시간대인지와 from <= to는 parseDashboardFilters에서 검증한다
+export const dashboardFilterQueryProperties = {
+  repo: stringListParam,
+  from: dateParam,
+  to: dateParam,
+  // IANA 시간대 이름 (예: Asia/Seoul, Etc/GMT+9, 비우면 서버 기본값)
+  tz: { type: 'string', pattern: '^([A-Za-z][\\w+-]*(/[\\w+-]+)*)?$' },
+  includeWeekends: enumOf(['true', 'false', '1', '0'])
+}
+
+const statsQuery = objectSchema({
+  ...dashboardFilterQueryProperties,
+  groupBy: enumOf(GROUP_BY_VALUES)
+})
+
+const countBy = (key: string) => objectSchema({ [key]: stringType, count: integerType })
+
+// 저장소/작성자 이름별 건수
+const countsRecord = { type: 'object', additionalProperties: integerType }
+
+// 간격 분포 요약 (값이 없으면 null)
+const gapSummaryProperties = {
+  count: integerType,
+  mean: nullable(numberType),
+  median: nullable(numberType),
+  p90: nullable(numberType),
+  min: nullable(numberType),
+  max: nullable(numberType)
+}
+
+const cadenceStats = objectSchema({
+  summary: objectSchema(gapSummaryProperties),
+  repos: arrayOf(objectSchema({ ...gapSummaryProperties, repo: stringType })),
+  rolling: arrayOf(
+    objectSchema({
+      date: stringType,
+      rolling30: nullable(numberType),
+      rolling90: nullable(numberType)
+    })
+  ),
+  histogram: arrayOf(
+    objectSchema({ minDays: numberType, maxDays: nullable(numberType), count: integerType })
+  )
+})
+
+const offHoursStats = objectSchema({
+  total: integerType,
+  offHours: integerType,
+  weekend: integerType,
+  holiday: integerType,
+  outsideWorkHours: integerType,
+  workdayStartHour: integerType,
+  workdayEndHour: integerType
+})
+
+const versionStats = objectSchema({
+  bumpsByMonth: arrayOf(
+    objectSchema({
+      period: stringType,
+      initial: integerType,
+      major: integerType,
+      minor: integerType,
+      patch: integerType,
+      prerelease: integerType
+    })
+  ),
+  latestVersions: arrayOf(
+    objectSchema({
+      repo: stringType,
+      packageName: stringType,
+      latestVersion: nullable(stringType),
+      latestPublishedAt: nullable(stringType),
+      latestPrerelease: nullable(stringType),
+      releaseCount: integerType
+    })
+  ),
+  majorIntervals: arrayOf(
+    objectSchema({
+      repo: stringType,
+      packageName: stringType,
+      majorReleases: arrayOf(objectSchema({ version: stringType, publishedAt: stringType })),
+      averageDaysBetweenMajors: nullable(numberType)
+    })
+  )
+})
+
+const changeComposition = arrayOf(
+  objectSchema({
+    period: stringType,
+    releases: integerType,
+    features: integerType,
+    fixes: integerType,
+    breakingChanges: integerType,
+    pullRequests: integerType
+  })
+)
+
+const authorStats = objectSchema({
+  leaderboard: arrayOf(
+    objectSchema({
+      author: stringType,
+      releases: integerType,
+      repos: integerType,
+      share: numberType,
+      firstPublishedAt: stringType,
+      lastPublishedAt: stringType,
+      userId: nullable(integerType)
+    })
+  ),
+  topAuthors: arrayOf(stringType),
+  monthly: arrayOf(
+    objectSchema({
+      period: stringType,
+      releasers: integerType,
+      total: integerType,
+      counts: countsRecord
+    })
+  ),
+  busFactor: arrayOf(
+    objectSchema({
+      repo: stringType,
+      authors: integerType,
+      busFactor: integerType,
+      topAuthor: stringType,
+      topAuthorShare: numberType
+    })
+  )
+})
+
+const assetStats = objectSchema({
+  sizeByPeriod: arrayOf(
+    objectSchema({
+      period: stringType,
+      releases: integerType,
+      releasesWithAssets: integerType,
+      assets: integerType,
+      totalSize: numberType,
+      avgReleaseSize: numberType,
+      downloads: integerType
+    })
+  ),
+  typesByPlatform: arrayOf(
+    objectSchema({
+      platform: stringType,
+      total: integerType,
+      types: arrayOf(objectSchema({ fileType: stringType, count: integerType }))
+    })
+  ),
+  withoutAssets: objectSchema({
+    count: integerType,
+    total: integerType,
+    recent: arrayOf(
+      objectSchema({
+        id: integerType,
+        repo: stringType,
+        tagName: stringType,
+        publishedAt: nullable(stringType)
+      })
+    )
+  })
+})
+
+const leadTimeStats = objectSchema({
+  summary: objectSchema(gapSummaryProperties),
+  byRepo: arrayOf(
+    objectSchema({
+      ...gapSummaryProperties,
+      repo: stringType,
+      longDraftThresholdMinutes: numberType
+    })
+  ),
+  byType: arrayOf(objectSchema({ ...gapSummaryProperties, type: stringType })),
+  histogram: arrayOf(
+    objectSchema({ minMinutes: numberType, maxMinutes: nullable(numberType), count: integerType })
+  ),
+  longDrafts: arrayOf(
+    objectSchema({
+      id: integerType,
+      repo: stringType,
+      tagName: stringType,
+      createdAt: stringType,
+      publishedAt: nullable(stringType),
+      leadTimeMinutes: numberType
+    })
+  ),
+  openDrafts: arrayOf(
+    objectSchema({
+      id: integerType,
+      repo: stringType,
+      tagName: stringType,
+      createdAt: stringType,
+      ageMinutes: numberType,
+      stale: booleanType
+    })
+  )
+})
+
+// groupBy=repo일 때만 채워진다
+const comparison = nullable(
+  objectSchema({
+    repos: arrayOf(stringType),
+    yearStats: arrayOf(objectSchema({ year: stringType, counts: countsRecord })),
+    monthStats: {
+      type: 'object',
+      additionalProperties: arrayOf(objectSchema({ month: stringType, counts: countsRecord }))
+    },
+    repoStats: arrayOf(
+      objectSchema({
+        repo: stringType,
+        total: integerType,
+        releaseTypes: objectSchema({
+          draft: integerType,
+          prerelease: integerType,
+          release: integerType
+        }),
+        avgReleaseInterval: numberType,
+        avgWorkingDayInterval: numberType
+      })
+    )
+  })
+)
+
+const dashboardStats = objectSchema({
+  timezone: stringType,
+  includeWeekends: booleanType,
+  allYears: arrayOf(stringType),
+  yearStats: arrayOf(countBy('year')),
+  monthStats: { type: 'object', additionalProperties: arrayOf(countBy('month')) },
+  weekdayStats: arrayOf(countBy('weekday')),
+  releaseTypeStats: arrayOf(countBy('type')),
+  top3Months: arrayOf(countBy('month')),
+  avgReleaseInterval: numberType,
+  releaseIntervals: objectSchema({ calendarDays: numberType, workingDays: numberType }),
+  cadence: cadenceStats,
+  offHours: offHoursStats,
+  versionStats,
+  changeComposition,
+  authorStats,
+  assetStats,
+  leadTime: leadTimeStats,
+  comparison
+})
+
+const anomalyList = objectSchema({
+  timezone: stringType,
+  includeWeekends: booleanType,
+  anomalies: arrayOf(
+    objectSchema({
+      kind: stringType,
+      period: nullable(stringType),
+      repo: stringType,
+      start: stringType,
+      end: stringType,
+      severity: stringType,
+      value: numberType,
+      baseline: numberType,
+      releases: arrayOf(
+        objectSchema({ id: integerType, tagName: stringType, publishedAt: stringType })
+      )
+    })
+  )
+})
+
+export const dashboardSchemas = {
+  getStats: {
+    querystring: statsQuery,
+    response: { 200: dashboardStats, ...errorResponses }
+  },
+  // 파일 본문은 직렬화하지 않으므로 에러 응답만 정의한다
+  exportStats: {
+    querystring: objectSchema({
+      ...statsQuery.properties,
+      format: enumOf(EXPORT_FORMATS)
+    }),
+    response: errorResponses
+  },
+  getAnomalies: {
+    querystring: objectSchema(dashboardFilterQueryProperties),
+    response: { 200: anomalyList, ...errorResponses }
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  arrayOf,
+  booleanType,
+  emptyResponse,
+  errorResponses,
+  idParams,
+  integerType,
+  objectSchema,
+  strictObject,
+  stringType,
+  successResponse
+} from './common'
+
+const viewFiltersProperties = {
+  repos: arrayOf(stringType),
+  from: stringType,
+  to: stringType,
+  tz: stringType,
+  includeWeekends: booleanType
+}
+
+const dashboardView = objectSchema({
+  id: integerType,
+  userId: integerType,
+  name: stringType,
+  filters: objectSchema(viewFiltersProperties),
+  cards: arrayOf(stringType),
+  isDefault: booleanType,
+  createdAt: stringType,
+  updatedAt: stringType
+})
+
+// 이름 길이/필터 값/카드 id 형식은 컨트롤러에서 검증한다
+const viewBodyProperties = {
+  name: stringType,
+  filters: strictObject(viewFiltersProperties),
+  cards: arrayOf(stringType),
+  isDefault: booleanType
+}
+
+export const dashboardViewSchemas = {
+  getViews: {
+    response: { 200: successResponse(arrayOf(dashboardView)), ...errorResponses }
+  },
+  getViewById: {
+    params: idParams,
+    response: { 200: successResponse(dashboardView), ...errorResponses }
+  },
+  createView: {
+    body: strictObject(viewBodyProperties, ['name']),
+    response: { 201: successResponse(dashboardView), ...errorResponses }
+  },
+  updateView: {
+    params: idParams,
+    body: strictObject(viewBodyProperties),
+    response: { 200: successResponse(dashboardView), ...errorResponses }
+  },
+  deleteView: {
+    params: idParams,
+    response: { 200: emptyResponse, ...errorResponses }
+  }
+}
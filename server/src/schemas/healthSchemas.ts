@@ -0,0 +1,7 @@
+import { errorResponses, objectSchema, stringType, successResponse } from './common'
+
+export const healthSchemas = {
+  healthCheck: {
+    response: { 200: successResponse(objectSchema({ status: stringType })), ...errorResponses }
+  }
+}
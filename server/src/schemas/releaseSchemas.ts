@@ -0,0 +1,110 @@
+import { MAX_RELEASE_LIMIT, RELEASE_SORT_FIELDS, SORT_ORDERS } from '../utils/filters'
+import {
+  arrayOf,
+  booleanType,
+  enumOf,
+  errorResponses,
+  idParams,
+  integerType,
+  limitParam,
+  nullable,
+  numberType,
+  objectSchema,
+  pageParam,
+  paginatedResponse,
+  stringListParam,
+  stringType,
+  successResponse
+} from './common'
+import { dashboardFilterQueryProperties } from './dashboardSchemas'
+
+// 목록 항목 (body 제외)
+const releaseSummaryProperties = {
+  id: integerType,
+  repo: stringType,
+  tagName: stringType,
+  name: stringType,
+  author: stringType,
+  isDraft: booleanType,
+  isPrerelease: booleanType,
+  assetsCount: integerType,
+  htmlUrl: stringType,
+  createdAt: stringType,
+  publishedAt: nullable(stringType),
+  leadTimeMinutes: nullable(numberType)
+}
+
+export const releaseSummary = objectSchema(releaseSummaryProperties)
+
+const releaseAsset = objectSchema({
+  id: integerType,
+  releaseId: integerType,
+  name: stringType,
+  size: nullable(integerType),
+  contentType: nullable(stringType),
+  downloadCount: nullable(integerType),
+  downloadUrl: nullable(stringType),
+  platform: stringType,
+  fileType: stringType
+})
+
+// 릴리즈 상세 (릴리즈 컬럼 + 저장소 이름 + 첨부파일 + 파싱된 변경 항목)
+const releaseDetail = objectSchema({
+  ...releaseSummaryProperties,
+  repoId: integerType,
+  body: stringType,
+  assetsNames: stringType,
+  publishedWeekday: nullable(stringType),
+  publishedDate: nullable(stringType),
+  publishedYear: nullable(stringType),
+  publishedMonth: nullable(stringType),
+  publishedWeek: nullable(integerType),
+  featureCount: nullable(integerType),
+  fixCount: nullable(integerType),
+  breakingCount: nullable(integerType),
+  pullRequestCount: nullable(integerType),
+  assets: arrayOf(releaseAsset),
+  changelog: objectSchema({
+    entries: arrayOf(
+      objectSchema({
+        category: stringType,
+        text: stringType,
+        section: nullable(stringType),
+        pullRequests: arrayOf(integerType)
+      })
+    ),
+    counts: objectSchema({
+      features: integerType,
+      fixes: integerType,
+      breakingChanges: integerType,
+      other: integerType
+    }),
+    pullRequests: arrayOf(integerType)
+  })
+})
+
+// 기본값과 콤마로 이어 붙인 목록(weekday/type) 값 검증은 parseReleaseListQuery
+const releaseListQuery = objectSchema({
+  ...dashboardFilterQueryProperties,
+  page: pageParam,
+  limit: limitParam(MAX_RELEASE_LIMIT),
+  sort: enumOf(RELEASE_SORT_FIELDS),
+  order: enumOf(SORT_ORDERS),
+  q: stringType,
+  author: stringType,
+  weekday: stringListParam,
+  year: { type: 'string', pattern: '^\\d{4}$' },
+  month: { type: 'string', pattern: '^(0?[1-9]|1[0-2])$' },
+  type: stringListParam
+})
+
+export const releaseSchemas = {
+  getReleases: {
+    querystring: releaseListQuery,
+    response: { 200: paginatedResponse(releaseSummary), ...errorResponses }
+  },
+  getReleaseById: {
+    params: idParams,
+    response: { 200: successResponse(releaseDetail), ...errorResponses }
+  }
+}
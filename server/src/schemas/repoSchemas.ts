@@ -0,0 +1,57 @@
+import {
+  arrayOf,
+  booleanType,
+  emptyResponse,
+  errorResponses,
+  idParams,
+  integerType,
+  nullable,
+  objectSchema,
+  strictObject,
+  stringType,
+  successResponse
+} from './common'
+
+const repo = objectSchema({
+  id: integerType,
+  fullName: stringType,
+  displayName: stringType,
+  defaultBranch: stringType,
+  enabled: booleanType,
+  lastReleaseId: nullable(integerType),
+  etag: nullable(stringType),
+  lastSyncedAt: nullable(stringType),
+  createdAt: stringType,
+  updatedAt: stringType
+})
+
+const repoBodyProperties = {
+  // GitHub 저장소 이름 형식 (owner/name)
+  fullName: { type: 'string', pattern: '^[A-Za-z0-9-]+/[A-Za-z0-9._-]+$' },
+  displayName: stringType,
+  defaultBranch: stringType,
+  enabled: booleanType
+}
+
+export const repoSchemas = {
+  getAllRepos: {
+    response: { 200: successResponse(arrayOf(repo)), ...errorResponses }
+  },
+  getRepoById: {
+    params: idParams,
+    response: { 200: successResponse(repo), ...errorResponses }
+  },
+  createRepo: {
+    body: strictObject(repoBodyProperties, ['fullName']),
+    response: { 201: successResponse(repo), ...errorResponses }
+  },
+  updateRepo: {
+    params: idParams,
+    body: strictObject(repoBodyProperties),
+    response: { 200: successResponse(repo), ...errorResponses }
+  },
+  deleteRepo: {
+    params: idParams,
+    response: { 200: emptyResponse, ...errorResponses }
+  }
+}
@@ -0,0 +1,100 @@
+import { UserRole } from '../types'
+import { MAX_USER_LIMIT, SORT_ORDERS, USER_SORT_FIELDS } from '../utils/filters'
+import {
+  arrayOf,
+  emptyResponse,
+  enumOf,
+  errorResponses,
+  idParams,
+  integerType,
+  limitParam,
+  nullable,
+  objectSchema,
+  pageParam,
+  paginatedResponse,
+  strictObject,
+  stringType,
+  successResponse
+} from './common'
+import { releaseSummary } from './releaseSchemas'
+
+// 응답용 사용자 (비밀번호 해시는 정의하지 않아 직렬화 단계에서도 빠진다)
+export const user = objectSchema({
+  id: integerType,
+  name: stringType,
+  email: stringType,
+  githubLogin: nullable(stringType),
+  role: stringType,
+  createdAt: stringType,
+  updatedAt: stringType
+})
+
+const MIN_PASSWORD_LENGTH = 8
+
+const userBodyProperties = {
+  name: { type: 'string', minLength: 1 },
+  email: { type: 'string', format: 'email' },
+  role: { type: 'string', enum: Object.values(UserRole) },
+  // GitHub 로그인 형식 (영문/숫자/하이픈, 최대 39자, 봇 계정의 [bot] 접미사 허용)
+  // 앞뒤 공백은 컨트롤러에서 잘라내고, 빈 문자열은 연결 해제로 취급한다
+  githubLogin: nullable({
+    type: 'string',
+    pattern: '^\\s*([A-Za-z\\d](?:[A-Za-z\\d]|-(?=[A-Za-z\\d])){0,38}(?:\\[bot\\])?)?\\s*$'
+  }),
+  password: { type: 'string', minLength: MIN_PASSWORD_LENGTH }
+}
+
+// 기본값은 parseUserListQuery에서 채운다
+const userListQuery = objectSchema({
+  page: pageParam,
+  limit: limitParam(MAX_USER_LIMIT),
+  sort: enumOf(USER_SORT_FIELDS),
+  order: enumOf(SORT_ORDERS),
+  q: stringType,
+  role: enumOf(Object.values(UserRole))
+})
+
+// GitHub 로그인 기준 릴리즈 요약 (연결된 로그인이 없으면 null)
+const userReleaseSummary = nullable(
+  objectSchema({
+    author: stringType,
+    total: integerType,
+    lastPublishedAt: nullable(stringType),
+    repos: arrayOf(
+      objectSchema({
+        repo: stringType,
+        count: integerType,
+        lastPublishedAt: nullable(stringType)
+      })
+    ),
+    recentReleases: arrayOf(releaseSummary)
+  })
+)
+
+export const userSchemas = {
+  getUsers: {
+    querystring: userListQuery,
+    response: { 200: paginatedResponse(user), ...errorResponses }
+  },
+  getUserById: {
+    params: idParams,
+    response: { 200: successResponse(user), ...errorResponses }
+  },
+  getUserReleases: {
+    params: idParams,
+    response: { 200: successResponse(userReleaseSummary), ...errorResponses }
+  },
+  createUser: {
+    body: strictObject(userBodyProperties, ['name', 'email']),
+    response: { 201: successResponse(user), ...errorResponses }
+  },
+  updateUser: {
+    params: idParams,
+    body: strictObject(userBodyProperties),
+    response: { 200: successResponse(user), ...errorResponses }
+  },
+  deleteUser: {
+    params: idParams,
+    response: { 200: emptyResponse, ...errorResponses }
+  }
+}
@@ -0,0 +1,98 @@
+import { and, desc, eq, getTableColumns, gt } from 'drizzle-orm'
+import { apiTokens, users } from '../db/schema'
+import { ApiToken, CreateApiTokenDto, User } from '../types'
+import { Database } from '../types/database'
+import { generateToken, hashToken } from '../utils/token'
+import { userColumns } from './userService'
+
+type ApiTokenServiceDeps = {
+  db: Database
+}
+
+// 토큰 원문 접두사 (로그/시크릿 스캐너에서 알아보기 쉽도록)
+const TOKEN_PREFIX = 'pat_'
+// 목록에 보여줄 앞부분 길이 (접두사 포함)
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 8
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const { tokenHash: _tokenHash, ...tokenColumns } = getTableColumns(apiTokens)
+
+export const createApiTokenService = ({ db }: ApiTokenServiceDeps) => {
+  // 최근 생성한 토큰부터
+  const getTokensByUser = async (userId: number): Promise<ApiToken[]> => {
+    return db
+      .select(tokenColumns)
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id))
+  }
+
+  const getTokenById = async (id: number): Promise<ApiToken | undefined> => {
+    const result = await db
+      .select(tokenColumns)
+      .from(apiTokens)
+      .where(eq(apiTokens.id, id))
+      .limit(1)
+    return result[0]
+  }
+
+  // 토큰 원문은 생성할 때 한 번만 돌려준다
+  const createToken = async (
+    userId: number,
+    { name, scopes, expiresInDays }: CreateApiTokenDto
+  ): Promise<{ token: ApiToken; secret: string }> => {
+    const secret = `${TOKEN_PREFIX}${generateToken()}`
+    const now = new Date()
+    const result = await db
+      .insert(apiTokens)
+      .values({
+        userId,
+        name,
+        tokenHash: hashToken(secret),
+        prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+        scopes,
+        expiresAt: new Date(now.getTime() + expiresInDays * DAY_MS).toISOString(),
+        createdAt: now.toISOString()
+      })
+      .returning(tokenColumns)
+    return { token: result[0], secret }
+  }
+
+  const deleteToken = async (id: number): Promise<boolean> => {
+    const result = await db
+      .delete(apiTokens)
+      .where(eq(apiTokens.id, id))
+      .returning({ id: apiTokens.id })
+    return result.length > 0
+  }
+
+  // 만료되지 않은 토큰이면 사용자와 권한 범위를 돌려주고 마지막 사용 시각을 남긴다
+  const verifyToken = async (
+    secret: string
+  ): Promise<{ user: User; scopes: string[] } | undefined> => {
+    const now = new Date().toISOString()
+    const result = await db
+      .select({ tokenId: apiTokens.id, scopes: apiTokens.scopes, user: userColumns })
+      .from(apiTokens)
+      .innerJoin(users, eq(apiTokens.userId, users.id))
+      .where(and(eq(apiTokens.tokenHash, hashToken(secret)), gt(apiTokens.expiresAt, now)))
+      .limit(1)
+
+    if (!result[0]) return undefined
+
+    const { tokenId, scopes, user } = result[0]
+    await db.update(apiTokens).set({ lastUsedAt: now }).where(eq(apiTokens.id, tokenId))
+    return { user, scopes }
+  }
+
+  return {
+    getTokensByUser,
+    getTokenById,
+    createToken,
+    deleteToken,
+    verifyToken
+  }
+}
+
+export type ApiTokenService = ReturnType<typeof createApiTokenService>
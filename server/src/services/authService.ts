@@ -0,0 +1,67 @@
+import { and, eq, gt, lte } from 'drizzle-orm'
+import { sessions, users } from '../db/schema'
+import { User } from '../types'
+import { Database } from '../types/database'
+import { verifyPassword } from '../utils/password'
+import { generateToken, hashToken } from '../utils/token'
+import { userColumns } from './userService'
+
+type AuthServiceDeps = {
+  db: Database
+  // 세션 유효 시간 (ms)
+  sessionTtl: number
+}
+
+export const createAuthService = ({ db, sessionTtl }: AuthServiceDeps) => {
+  // 이메일/비밀번호가 맞으면 사용자를 돌려준다
+  const verifyCredentials = async (email: string, password: string): Promise<User | undefined> => {
+    const [row] = await db.select().from(users).where(eq(users.email, email)).limit(1)
+    if (!row?.passwordHash || !(await verifyPassword(password, row.passwordHash))) {
+      return undefined
+    }
+    const { passwordHash: _passwordHash, ...user } = row
+    return user
+  }
+
+  // 새 세션을 만들고 쿠키에 담을 토큰을 돌려준다 (만료된 세션은 이때 정리)
+  const createSession = async (userId: number): Promise<{ token: string; expiresAt: Date }> => {
+    const token = generateToken()
+    const now = new Date()
+    const expiresAt = new Date(now.getTime() + sessionTtl)
+
+    await db.delete(sessions).where(lte(sessions.expiresAt, now.toISOString()))
+    await db.insert(sessions).values({
+      id: hashToken(token),
+      userId,
+      expiresAt: expiresAt.toISOString(),
+      createdAt: now.toISOString()
+    })
+    return { token, expiresAt }
+  }
+
+  // 유효한 세션 토큰의 사용자 (역할 변경이 바로 반영되도록 매번 조회)
+  const getSessionUser = async (token: string): Promise<User | undefined> => {
+    const result = await db
+      .select(userColumns)
+      .from(sessions)
+      .innerJoin(users, eq(sessions.userId, users.id))
+      .where(
+        and(eq(sessions.id, hashToken(token)), gt(sessions.expiresAt, new Date().toISOString()))
+      )
+      .limit(1)
+    return result[0]
+  }
+
+  const deleteSession = async (token: string): Promise<void> => {
+    await db.delete(sessions).where(eq(sessions.id, hashToken(token)))
+  }
+
+  return {
+    verifyCredentials,
+    createSession,
+    getSessionUser,
+    deleteSession
+  }
+}
+
+export type AuthService = ReturnType<typeof createAuthService>
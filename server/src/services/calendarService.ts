@@ -0,0 +1,126 @@
+import { asc, eq, sql } from 'drizzle-orm'
+import { calendarSettings, holidays, Holiday } from '../db/schema'
+import { CreateHolidayDto, UpdateCalendarDto } from '../types'
+import { Database } from '../types/database'
+import { parseIcalHolidays } from '../utils/ical'
+import { WorkingCalendar } from '../utils/workingCalendar'
+
+type CalendarServiceDeps = {
+  db: Database
+}
+
+const SETTINGS_ID = 1
+
+export const createCalendarService = ({ db }: CalendarServiceDeps) => {
+  const getSettings = async () => {
+    const result = await db
+      .select()
+      .from(calendarSettings)
+      .where(eq(calendarSettings.id, SETTINGS_ID))
+      .limit(1)
+    const settings = result[0]
+    return {
+      weekendDays: settings ? settings.weekendDays.split(',').filter(Boolean) : [],
+      workdayStartHour: settings?.workdayStartHour ?? 9,
+      workdayEndHour: settings?.workdayEndHour ?? 18,
+      updatedAt: settings?.updatedAt ?? null
+    }
+  }
+
+  const getHolidays = async (): Promise<Holiday[]> => {
+    return db.select().from(holidays).orderBy(asc(holidays.date))
+  }
+
+  // 근무 캘린더 설정 + 공휴일 목록
+  const getCalendar = async () => {
+    return { ...(await getSettings()), holidays: await getHolidays() }
+  }
+
+  // 통계 계산용 근무 캘린더
+  const getWorkingCalendar = async (): Promise<WorkingCalendar> => {
+    const { weekendDays, workdayStartHour, workdayEndHour } = await getSettings()
+    const rows = await db.select({ date: holidays.date }).from(holidays)
+    return {
+      weekendDays,
+      workdayStartHour,
+      workdayEndHour,
+      holidays: new Set(rows.map(row => row.date))
+    }
+  }
+
+  const updateSettings = async (data: UpdateCalendarDto) => {
+    const now = new Date().toISOString()
+    await db
+      .insert(calendarSettings)
+      .values({
+        id: SETTINGS_ID,
+        ...(data.weekendDays && { weekendDays: data.weekendDays.join(',') }),
+        workdayStartHour: data.workdayStartHour,
+        workdayEndHour: data.workdayEndHour,
+        updatedAt: now
+      })
+      .onConflictDoUpdate({
+        target: calendarSettings.id,
+        set: {
+          ...(data.weekendDays && { weekendDays: data.weekendDays.join(',') }),
+          ...(data.workdayStartHour !== undefined && { workdayStartHour: data.workdayStartHour }),
+          ...(data.workdayEndHour !== undefined && { workdayEndHour: data.workdayEndHour }),
+          updatedAt: now
+        }
+      })
+    return getSettings()
+  }
+
+  const getHolidayByDate = async (date: string): Promise<Holiday | undefined> => {
+    const result = await db.select().from(holidays).where(eq(holidays.date, date)).limit(1)
+    return result[0]
+  }
+
+  const createHoliday = async (data: CreateHolidayDto): Promise<Holiday> => {
+    const result = await db
+      .insert(holidays)
+      .values({ date: data.date, name: data.name ?? '', source: 'manual' })
+      .returning()
+    return result[0]
+  }
+
+  // iCal 파일의 공휴일을 날짜 기준으로 upsert
+  const importHolidays = async (ics: string) => {
+    const parsed = parseIcalHolidays(ics)
+    const now = new Date().toISOString()
+
+    db.transaction(tx => {
+      for (const holiday of parsed) {
+        tx.insert(holidays)
+          .values({ ...holiday, source: 'ical', createdAt: now })
+          .onConflictDoUpdate({
+            target: holidays.date,
+            set: { name: sql`excluded.name`, source: 'ical' }
+          })
+          .run()
+      }
+    })
+
+    return { imported: parsed.length, holidays: await getHolidays() }
+  }
+
+  const deleteHoliday = async (id: number): Promise<boolean> => {
+    const result = await db
+      .delete(holidays)
+      .where(eq(holidays.id, id))
+      .returning({ id: holidays.id })
+    return result.length > 0
+  }
+
+  return {
+    getCalendar,
+    getWorkingCalendar,
+    updateSettings,
+    getHolidayByDate,
+    createHoliday,
+    importHolidays,
+    deleteHoliday
+  }
+}
+
+export type CalendarService = ReturnType<typeof createCalendarService>
@@ -1,151 +1,791 @@
-import fs from "fs";
-import path from "path";
-import Papa from "papaparse";
-
-// 타입 정의
-export interface RawRelease {
-  repo: string;
-  release_id: string;
-  tag_name: string;
-  release_name: string;
-  author: string;
-  created_at: string;
-  published_at: string;
-  is_draft: string;
-  is_prerelease: string;
-  body: string;
-  assets_count: string;
-  assets_names: string;
-  html_url: string;
-  published_weekday: string;
-  published_date: string;
-  published_year: string;
-  published_month: string;
-  published_week: string;
-}
+import {
+  AnyColumn,
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  ne,
+  notExists,
+  notInArray,
+  or,
+  sql,
+  SQL
+} from 'drizzle-orm'
+import { holidays, releaseAssets, releases, repos, users } from '../db/schema'
+import {
+  PublishedBuckets,
+  leadTimeMinutes,
+  publishedBuckets,
+  publishedDateRange
+} from '../db/localTime'
+import { DashboardFilters, DashboardGroupBy } from '../types'
+import { Database } from '../types/database'
+import { CalendarService } from './calendarService'
+import { WEEKDAY_NAMES, WorkingCalendar, countWorkingDays } from '../utils/workingCalendar'
+import { detectAnomalies } from '../utils/anomalies'
+import { gapHistogram, releaseGaps, rollingIntervalSeries, summarizeGaps } from '../utils/cadence'
+import { LONG_DRAFT_MIN_MINUTES, leadTimeHistogram, longDraftThreshold } from '../utils/leadTime'
+import {
+  ParsedVersion,
+  VersionBump,
+  classifyBump,
+  compareVersions,
+  parseReleaseTag
+} from '../utils/semver'
 
-const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
-
-// 주말 제외하고 데이터 파싱
-function loadRawReleases(): RawRelease[] {
-  const filePath = path.join(__dirname, "../../release-raw.csv");
-  const csvStr = fs.readFileSync(filePath, "utf-8");
-  const parsed = Papa.parse(csvStr, { header: true, skipEmptyLines: true });
-  return (parsed.data as any[]).map((row) => ({
-    repo: row.Repo,
-    release_id: row.ReleaseID,
-    tag_name: row.Tag,
-    release_name: row.ReleaseName,
-    author: row.Author,
-    created_at: row.CreatedAt,
-    published_at: row.PublishedAt,
-    is_draft: row.IsDraft,
-    is_prerelease: row.IsPrerelease,
-    body: row.Body,
-    assets_count: row.AssetsCount,
-    assets_names: row.AssetsNames,
-    html_url: row.HtmlUrl,
-    published_weekday: row.PublishedWeekday,
-    published_date: row.PublishedDate,
-    published_year: row.PublishedYear,
-    published_month: row.PublishedMonth,
-    published_week: row.PublishedWeek,
-  })).filter((row) => WEEKDAYS.includes(row.published_weekday)); // 평일만 반환
+type DashboardServiceDeps = {
+  db: Database
+  calendarService: CalendarService
+  // tz 파라미터가 없을 때 사용할 보고 시간대
+  timezone: string
 }
 
-// === 집계 함수들 ===
+const countAll = sql<number>`count(*)`.mapWith(Number)
+
+// 조건을 만족하는 릴리즈 수
+const countWhere = (condition: SQL) =>
+  sql<number>`coalesce(sum(case when ${condition} then 1 else 0 end), 0)`.mapWith(Number)
+const draftCount = countWhere(sql`${releases.isDraft}`)
+const prereleaseCount = countWhere(sql`not ${releases.isDraft} and ${releases.isPrerelease}`)
+const releaseCount = countWhere(sql`not ${releases.isDraft} and not ${releases.isPrerelease}`)
+const sumOf = (column: AnyColumn) => sql<number>`coalesce(sum(${column}), 0)`.mapWith(Number)
+const publishedSpanDays = sql<number | null>`
+  julianday(max(${releases.publishedAt})) - julianday(min(${releases.publishedAt}))
+`
+const minOf = (value: SQL<string>) => sql<string | null>`min(${value})`
+const maxOf = (value: SQL<string>) => sql<string | null>`max(${value})`
+
+// 연속된 릴리즈 간격의 합은 (마지막 - 처음)이므로 평균은 전체 기간 / (건수 - 1)
+const averageInterval = (count: number, spanDays: number | null) =>
+  count < 2 || spanDays === null ? 0 : Math.round(Number(spanDays) / (count - 1))
+
+// 근무일 기준 평균 간격: 첫 릴리즈일 다음 날부터 마지막 릴리즈일까지의 근무일 수 / (건수 - 1)
+const averageWorkingDayInterval = (
+  count: number,
+  firstDate: string | null,
+  lastDate: string | null,
+  calendar: WorkingCalendar
+) =>
+  count < 2 || !firstDate || !lastDate
+    ? 0
+    : Math.round(countWorkingDays(firstDate, lastDate, calendar) / (count - 1))
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// 드래프트로 오래 머문 릴리즈 목록 크기
+const LONG_DRAFT_LIMIT = 10
 
-function getYearStats(data: RawRelease[]) {
-  const byYear: Record<string, { year: string; count: number }> = {};
-  for (const d of data) {
-    if (!d.published_year) continue;
-    byYear[d.published_year] = byYear[d.published_year] || { year: d.published_year, count: 0 };
-    byYear[d.published_year].count += 1;
+// 플랫폼별로 보여줄 파일 형식 수 / 첨부파일 없는 최근 릴리즈 수
+const TOP_FILE_TYPE_COUNT = 5
+const RECENT_WITHOUT_ASSETS_LIMIT = 10
+
+// 작성자 추이 차트에 따로 표시할 상위 작성자 수 (나머지는 '기타'로 묶는다)
+const TOP_AUTHOR_COUNT = 5
+const OTHER_AUTHORS = '__others__'
+
+// 릴리즈의 절반 이상을 담당하는 최소 작성자 수 (내림차순 정렬된 작성자별 릴리즈 수 기준)
+const busFactor = (counts: number[]) => {
+  const total = counts.reduce((sum, count) => sum + count, 0)
+  let covered = 0
+  for (const [i, count] of counts.entries()) {
+    covered += count
+    if (covered * 2 >= total) return i + 1
   }
-  return Object.values(byYear).sort((a, b) => a.year.localeCompare(b.year));
+  return 0
 }
 
-function getMonthStats(data: RawRelease[], year: string) {
-  const byMonth: Record<string, { month: string; count: number }> = {};
-  for (const d of data) {
-    if (d.published_year !== year) continue;
-    const month = d.published_month.padStart(2, "0");
-    byMonth[month] = byMonth[month] || { month, count: 0 };
-    byMonth[month].count += 1;
-  }
-  return Array.from({ length: 12 }, (_, i) => {
-    const m = (i + 1).toString().padStart(2, "0");
-    return byMonth[m] || { month: m, count: 0 };
-  });
-}
+const emptyMonths = () => Array.from({ length: 12 }, (_, i) => (i + 1).toString().padStart(2, '0'))
+
+export const createDashboardService = ({ db, calendarService, timezone }: DashboardServiceDeps) => {
+  // 기본적으로 근무 캘린더의 주말 릴리즈는 제외하고(includeWeekends로 포함 가능), 저장소/기간 필터를 적용한다
+  // 요일/날짜는 요청한 보고 시간대 기준 (publishedBuckets 참고)
+  const repoCondition = (filters: DashboardFilters): SQL | undefined =>
+    filters.repos?.length
+      ? inArray(
+          releases.repoId,
+          db.select({ id: repos.id }).from(repos).where(inArray(repos.fullName, filters.repos))
+        )
+      : undefined
+
+  const buildCondition = (
+    filters: DashboardFilters,
+    b: PublishedBuckets,
+    calendar: WorkingCalendar
+  ): SQL | undefined =>
+    and(
+      isNotNull(releases.publishedAt),
+      !filters.includeWeekends && calendar.weekendDays.length
+        ? notInArray(b.weekday, calendar.weekendDays)
+        : undefined,
+      repoCondition(filters),
+      publishedDateRange(b, filters.from, filters.to)
+    )
 
-function getWeekdayStats(data: RawRelease[]) {
-  const byDay: Record<string, { weekday: string; count: number }> = {};
-  for (const d of data) {
-    if (!d.published_weekday) continue;
-    byDay[d.published_weekday] = byDay[d.published_weekday] || { weekday: d.published_weekday, count: 0 };
-    byDay[d.published_weekday].count += 1;
+  // === 집계 함수들 ===
+
+  const getYearStats = async (where: SQL | undefined, b: PublishedBuckets) => {
+    return db
+      .select({ year: b.year, count: countAll })
+      .from(releases)
+      .where(where)
+      .groupBy(b.year)
+      .orderBy(asc(b.year))
   }
-  const order = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
-  return Object.values(byDay).sort((a, b) => order.indexOf(a.weekday) - order.indexOf(b.weekday));
-}
 
-function getReleaseTypeStats(data: RawRelease[]) {
-  let draft = 0, prerelease = 0, release = 0;
-  for (const d of data) {
-    if (d.is_draft === "true") draft += 1;
-    else if (d.is_prerelease === "true") prerelease += 1;
-    else release += 1;
-  }
-  return [
-    { type: "Draft", count: draft },
-    { type: "Prerelease", count: prerelease },
-    { type: "Release", count: release }
-  ];
-}
+  const getMonthStats = async (where: SQL | undefined, b: PublishedBuckets) => {
+    const rows = await db
+      .select({ year: b.year, month: b.month, count: countAll })
+      .from(releases)
+      .where(where)
+      .groupBy(b.year, b.month)
 
-function getAllTimeMonthTop3(data: RawRelease[]) {
-  const byMonth: Record<string, { month: string; count: number }> = {};
-  for (const d of data) {
-    if (!d.published_month) continue;
-    const m = d.published_month.padStart(2, "0");
-    byMonth[m] = byMonth[m] || { month: m, count: 0 };
-    byMonth[m].count += 1;
-  }
-  return Object.values(byMonth)
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 3);
-}
+    const byYear: Record<string, Record<string, number>> = {}
+    for (const row of rows) {
+      byYear[row.year] = byYear[row.year] || {}
+      byYear[row.year][row.month] = row.count
+    }
 
-function getAverageReleaseInterval(data: RawRelease[]) {
-  const publishedDates = data
-    .map(d => d.published_at)
-    .filter(Boolean)
-    .map(str => new Date(str).getTime())
-    .sort((a, b) => a - b);
-  if (publishedDates.length < 2) return 0;
-  let sum = 0;
-  for (let i = 1; i < publishedDates.length; ++i) {
-    sum += (publishedDates[i] - publishedDates[i - 1]);
-  }
-  const avgMs = sum / (publishedDates.length - 1);
-  return Math.round(avgMs / (1000 * 60 * 60 * 24));
-}
+    return Object.fromEntries(
+      Object.entries(byYear).map(([year, byMonth]) => [
+        year,
+        emptyMonths().map(month => ({ month, count: byMonth[month] || 0 }))
+      ])
+    )
+  }
+
+  const getWeekdayStats = async (where: SQL | undefined, b: PublishedBuckets) => {
+    const rows = await db
+      .select({ weekday: b.weekday, count: countAll })
+      .from(releases)
+      .where(where)
+      .groupBy(b.weekday)
+    return rows.sort((a, b) => WEEKDAY_NAMES.indexOf(a.weekday) - WEEKDAY_NAMES.indexOf(b.weekday))
+  }
+
+  const getReleaseTypeStats = async (where?: SQL) => {
+    const [row] = await db
+      .select({ draft: draftCount, prerelease: prereleaseCount, release: releaseCount })
+      .from(releases)
+      .where(where)
+    return [
+      { type: 'Draft', count: row.draft },
+      { type: 'Prerelease', count: row.prerelease },
+      { type: 'Release', count: row.release }
+    ]
+  }
+
+  const getAllTimeMonthTop3 = async (where: SQL | undefined, b: PublishedBuckets) => {
+    return db
+      .select({ month: b.month, count: countAll })
+      .from(releases)
+      .where(where)
+      .groupBy(b.month)
+      .orderBy(desc(countAll))
+      .limit(3)
+  }
+
+  // 평균 릴리즈 간격 (달력일 / 근무일)
+  const getReleaseIntervals = async (
+    where: SQL | undefined,
+    b: PublishedBuckets,
+    calendar: WorkingCalendar
+  ) => {
+    const [row] = await db
+      .select({
+        count: countAll,
+        spanDays: publishedSpanDays,
+        firstDate: minOf(b.date),
+        lastDate: maxOf(b.date)
+      })
+      .from(releases)
+      .where(where)
+    return {
+      calendarDays: averageInterval(row.count, row.spanDays),
+      workingDays: averageWorkingDayInterval(row.count, row.firstDate, row.lastDate, calendar)
+    }
+  }
+
+  // 저장소별 릴리즈 주기: 간격 분포 요약, 30/90일 롤링 평균, 간격 히스토그램
+  const getCadenceStats = async (where: SQL | undefined, b: PublishedBuckets) => {
+    const rows = await db
+      .select({ repo: repos.fullName, publishedAt: releases.publishedAt, date: b.date })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(where)
+      .orderBy(asc(repos.fullName), asc(releases.publishedAt))
+
+    const gaps = releaseGaps(rows.map(row => ({ ...row, publishedAt: row.publishedAt! })))
+    const days = gaps.map(gap => gap.days)
+    const repoNames = [...new Set(rows.map(row => row.repo))]
+
+    return {
+      summary: summarizeGaps(days),
+      repos: repoNames.map(repo => ({
+        repo,
+        ...summarizeGaps(gaps.filter(gap => gap.repo === repo).map(gap => gap.days))
+      })),
+      rolling: rollingIntervalSeries(gaps),
+      histogram: gapHistogram(days)
+    }
+  }
+
+  // 근무 시간 외 릴리즈 (주말 / 공휴일 / 근무 시간 밖, 겹치면 한 번만 센다)
+  const getOffHoursStats = async (
+    where: SQL | undefined,
+    b: PublishedBuckets,
+    calendar: WorkingCalendar
+  ) => {
+    const onWeekend = calendar.weekendDays.length
+      ? inArray(b.weekday, calendar.weekendDays)
+      : sql`0`
+    const onHoliday = sql`${b.date} in (select ${holidays.date} from ${holidays})`
+    const outsideHours = sql`(${b.hour} < ${calendar.workdayStartHour} or ${b.hour} >= ${calendar.workdayEndHour})`
+
+    const [row] = await db
+      .select({
+        total: countAll,
+        offHours: countWhere(or(onWeekend, onHoliday, outsideHours)!),
+        weekend: countWhere(onWeekend),
+        holiday: countWhere(onHoliday),
+        outsideWorkHours: countWhere(outsideHours)
+      })
+      .from(releases)
+      .where(where)
+    return {
+      ...row,
+      workdayStartHour: calendar.workdayStartHour,
+      workdayEndHour: calendar.workdayEndHour
+    }
+  }
+
+  // === 저장소별 비교 집계 (groupBy=repo) ===
+
+  const getComparisonStats = async (
+    where: SQL | undefined,
+    b: PublishedBuckets,
+    calendar: WorkingCalendar
+  ) => {
+    const yearRows = await db
+      .select({ repo: repos.fullName, year: b.year, count: countAll })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(where)
+      .groupBy(repos.fullName, b.year)
+
+    const monthRows = await db
+      .select({ repo: repos.fullName, year: b.year, month: b.month, count: countAll })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(where)
+      .groupBy(repos.fullName, b.year, b.month)
+
+    const repoRows = await db
+      .select({
+        repo: repos.fullName,
+        total: countAll,
+        draft: draftCount,
+        prerelease: prereleaseCount,
+        release: releaseCount,
+        spanDays: publishedSpanDays,
+        firstDate: minOf(b.date),
+        lastDate: maxOf(b.date)
+      })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(where)
+      .groupBy(repos.fullName)
+      .orderBy(asc(repos.fullName))
+
+    const repoNames = repoRows.map(row => row.repo)
+    const zeroCounts = () => Object.fromEntries(repoNames.map(repo => [repo, 0]))
+
+    // 연도별: { year, counts: { [repo]: count } }
+    const byYear = new Map<string, Record<string, number>>()
+    for (const row of yearRows) {
+      const counts = byYear.get(row.year) ?? zeroCounts()
+      counts[row.repo] = row.count
+      byYear.set(row.year, counts)
+    }
+
+    // 월별: { [year]: { month, counts: { [repo]: count } }[] }
+    const byMonth = new Map<string, Map<string, Record<string, number>>>()
+    for (const row of monthRows) {
+      const months = byMonth.get(row.year) ?? new Map()
+      const counts = months.get(row.month) ?? zeroCounts()
+      counts[row.repo] = row.count
+      months.set(row.month, counts)
+      byMonth.set(row.year, months)
+    }
+
+    return {
+      repos: repoNames,
+      yearStats: [...byYear.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([year, counts]) => ({ year, counts })),
+      monthStats: Object.fromEntries(
+        [...byMonth.entries()].map(([year, months]) => [
+          year,
+          emptyMonths().map(month => ({ month, counts: months.get(month) ?? zeroCounts() }))
+        ])
+      ),
+      repoStats: repoRows.map(row => ({
+        repo: row.repo,
+        total: row.total,
+        releaseTypes: { draft: row.draft, prerelease: row.prerelease, release: row.release },
+        avgReleaseInterval: averageInterval(row.total, row.spanDays),
+        avgWorkingDayInterval: averageWorkingDayInterval(
+          row.total,
+          row.firstDate,
+          row.lastDate,
+          calendar
+        )
+      }))
+    }
+  }
+
+  // === 릴리즈 노트 변경 구성 ===
+
+  const getChangeCompositionStats = async (where: SQL | undefined, b: PublishedBuckets) => {
+    return db
+      .select({
+        period: b.period,
+        releases: countAll,
+        features: sumOf(releases.featureCount),
+        fixes: sumOf(releases.fixCount),
+        breakingChanges: sumOf(releases.breakingCount),
+        pullRequests: sumOf(releases.pullRequestCount)
+      })
+      .from(releases)
+      .where(where)
+      .groupBy(b.period)
+      .orderBy(asc(b.period))
+  }
+
+  // === 리드 타임 (드래프트 생성 -> 공개) ===
+
+  // 저장소/유형별 리드 타임 분포, 드래프트로 오래 머문 릴리즈, 아직 공개되지 않은 드래프트
+  // 공개 전 드래프트는 공개일이 없으므로 기간/요일 필터 없이 저장소 필터만 적용한다
+  const getLeadTimeStats = async (where: SQL | undefined, filters: DashboardFilters) => {
+    const rows = await db
+      .select({
+        id: releases.id,
+        repo: repos.fullName,
+        tagName: releases.tagName,
+        isPrerelease: releases.isPrerelease,
+        createdAt: releases.createdAt,
+        publishedAt: releases.publishedAt,
+        leadTimeMinutes
+      })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(where)
+
+    const openDrafts = await db
+      .select({
+        id: releases.id,
+        repo: repos.fullName,
+        tagName: releases.tagName,
+        createdAt: releases.createdAt,
+        ageMinutes: sql<number>`(julianday('now') - julianday(${releases.createdAt})) * 1440`
+      })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(and(repoCondition(filters), releases.isDraft, isNull(releases.publishedAt)))
+      .orderBy(asc(releases.createdAt))
+
+    const minutes = (items: typeof rows) => items.map(row => row.leadTimeMinutes ?? 0)
+    const repoNames = [...new Set(rows.map(row => row.repo))].sort()
+    const byRepo = repoNames.map(repo => {
+      const summary = summarizeGaps(minutes(rows.filter(row => row.repo === repo)))
+      return { repo, ...summary, longDraftThresholdMinutes: longDraftThreshold(summary.p90) }
+    })
+    const thresholdByRepo = new Map(byRepo.map(row => [row.repo, row.longDraftThresholdMinutes]))
+
+    return {
+      summary: summarizeGaps(minutes(rows)),
+      byRepo,
+      byType: [
+        { type: 'Prerelease', ...summarizeGaps(minutes(rows.filter(row => row.isPrerelease))) },
+        { type: 'Release', ...summarizeGaps(minutes(rows.filter(row => !row.isPrerelease))) }
+      ],
+      histogram: leadTimeHistogram(minutes(rows)),
+      longDrafts: rows
+        .filter(row => (row.leadTimeMinutes ?? 0) >= thresholdByRepo.get(row.repo)!)
+        .sort((a, b) => b.leadTimeMinutes! - a.leadTimeMinutes!)
+        .slice(0, LONG_DRAFT_LIMIT)
+        .map(({ isPrerelease, ...row }) => ({
+          ...row,
+          leadTimeMinutes: Math.round(row.leadTimeMinutes! * 10) / 10
+        })),
+      openDrafts: openDrafts.map(draft => ({
+        ...draft,
+        ageMinutes: Math.round(draft.ageMinutes * 10) / 10,
+        stale: draft.ageMinutes >= LONG_DRAFT_MIN_MINUTES
+      }))
+    }
+  }
+
+  // === 작성자 통계 ===
+
+  // 작성자별 릴리즈 수, 월별 작성자 구성, 저장소별 버스 팩터
+  // 작성자가 비어 있는 릴리즈(계정 삭제 등)는 누구의 릴리즈인지 알 수 없으므로 제외한다
+  const getAuthorStats = async (where: SQL | undefined, b: PublishedBuckets) => {
+    const authorWhere = and(where, ne(releases.author, ''))
+
+    const leaderboardRows = await db
+      .select({
+        author: releases.author,
+        releases: countAll,
+        repos: sql<number>`count(distinct ${releases.repoId})`.mapWith(Number),
+        firstPublishedAt: sql<string>`min(${releases.publishedAt})`,
+        lastPublishedAt: sql<string>`max(${releases.publishedAt})`
+      })
+      .from(releases)
+      .where(authorWhere)
+      .groupBy(releases.author)
+      .orderBy(desc(countAll), asc(releases.author))
+
+    const monthRows = await db
+      .select({ period: b.period, author: releases.author, count: countAll })
+      .from(releases)
+      .where(authorWhere)
+      .groupBy(b.period, releases.author)
+      .orderBy(asc(b.period))
+
+    const repoRows = await db
+      .select({ repo: repos.fullName, author: releases.author, count: countAll })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(authorWhere)
+      .groupBy(repos.fullName, releases.author)
+      .orderBy(asc(repos.fullName), desc(countAll))
+
+    // GitHub 로그인이 연결된 사용자와만 연결 (이메일 아이디는 다른 사람의 로그인과 겹칠 수 있다)
+    const userRows = await db
+      .select({ id: users.id, githubLogin: users.githubLogin })
+      .from(users)
+      .where(isNotNull(users.githubLogin))
+    const userIdByLogin = new Map(
+      userRows.map(user => [user.githubLogin!.toLowerCase(), user.id] as const)
+    )
+
+    const total = leaderboardRows.reduce((sum, row) => sum + row.releases, 0)
+    const topAuthors = leaderboardRows.slice(0, TOP_AUTHOR_COUNT).map(row => row.author)
+
+    const byMonth = new Map<string, { total: number; counts: Record<string, number> }>()
+    const releasersByMonth = new Map<string, number>()
+    for (const row of monthRows) {
+      const month = byMonth.get(row.period) ?? { total: 0, counts: {} }
+      const key = topAuthors.includes(row.author) ? row.author : OTHER_AUTHORS
+      month.counts[key] = (month.counts[key] ?? 0) + row.count
+      month.total += row.count
+      byMonth.set(row.period, month)
+      releasersByMonth.set(row.period, (releasersByMonth.get(row.period) ?? 0) + 1)
+    }
+
+    const countsByRepo = new Map<string, { author: string; count: number }[]>()
+    for (const row of repoRows) {
+      countsByRepo.set(row.repo, [...(countsByRepo.get(row.repo) ?? []), row])
+    }
+
+    return {
+      leaderboard: leaderboardRows.map(row => ({
+        ...row,
+        share: total ? Math.round((row.releases / total) * 1000) / 10 : 0,
+        userId: userIdByLogin.get(row.author.toLowerCase()) ?? null
+      })),
+      topAuthors,
+      monthly: [...byMonth].map(([period, month]) => ({
+        period,
+        releasers: releasersByMonth.get(period) ?? 0,
+        total: month.total,
+        counts: month.counts
+      })),
+      busFactor: [...countsByRepo].map(([repo, authors]) => {
+        const repoTotal = authors.reduce((sum, author) => sum + author.count, 0)
+        return {
+          repo,
+          authors: authors.length,
+          busFactor: busFactor(authors.map(author => author.count)),
+          topAuthor: authors[0].author,
+          topAuthorShare: Math.round((authors[0].count / repoTotal) * 1000) / 10
+        }
+      })
+    }
+  }
+
+  // === 첨부파일 통계 ===
+
+  // 기간별 첨부파일 크기, 플랫폼별 많이 쓰는 파일 형식, 첨부파일 없이 나간 릴리즈
+  const getAssetStats = async (where: SQL | undefined, b: PublishedBuckets) => {
+    const sizeRows = await db
+      .select({
+        period: b.period,
+        releases: sql<number>`count(distinct ${releases.id})`.mapWith(Number),
+        releasesWithAssets: sql<number>`count(distinct ${releaseAssets.releaseId})`.mapWith(Number),
+        assets: sql<number>`count(${releaseAssets.id})`.mapWith(Number),
+        totalSize: sumOf(releaseAssets.size),
+        downloads: sumOf(releaseAssets.downloadCount)
+      })
+      .from(releases)
+      .leftJoin(releaseAssets, eq(releaseAssets.releaseId, releases.id))
+      .where(where)
+      .groupBy(b.period)
+      .orderBy(asc(b.period))
+
+    const typeRows = await db
+      .select({
+        platform: releaseAssets.platform,
+        fileType: releaseAssets.fileType,
+        count: countAll
+      })
+      .from(releaseAssets)
+      .innerJoin(releases, eq(releaseAssets.releaseId, releases.id))
+      .where(where)
+      .groupBy(releaseAssets.platform, releaseAssets.fileType)
+      .orderBy(desc(countAll), asc(releaseAssets.fileType))
+
+    const withoutAssets = and(
+      where,
+      notExists(
+        db
+          .select({ id: releaseAssets.id })
+          .from(releaseAssets)
+          .where(eq(releaseAssets.releaseId, releases.id))
+      )
+    )
+    const [{ count: withoutAssetsCount }] = await db
+      .select({ count: countAll })
+      .from(releases)
+      .where(withoutAssets)
+    const recentWithoutAssets = await db
+      .select({
+        id: releases.id,
+        repo: repos.fullName,
+        tagName: releases.tagName,
+        publishedAt: releases.publishedAt
+      })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(withoutAssets)
+      .orderBy(desc(releases.publishedAt))
+      .limit(RECENT_WITHOUT_ASSETS_LIMIT)
+
+    const typesByPlatform = new Map<string, { fileType: string; count: number }[]>()
+    for (const row of typeRows) {
+      const types = typesByPlatform.get(row.platform) ?? []
+      if (types.length < TOP_FILE_TYPE_COUNT)
+        types.push({ fileType: row.fileType, count: row.count })
+      typesByPlatform.set(row.platform, types)
+    }
+
+    return {
+      sizeByPeriod: sizeRows.map(row => ({
+        ...row,
+        // 첨부파일이 있는 릴리즈 1건당 평균 크기 (바이트)
+        avgReleaseSize: row.releasesWithAssets
+          ? Math.round(row.totalSize / row.releasesWithAssets)
+          : 0
+      })),
+      typesByPlatform: [...typesByPlatform].map(([platform, types]) => ({
+        platform,
+        total: typeRows
+          .filter(row => row.platform === platform)
+          .reduce((sum, row) => sum + row.count, 0),
+        types
+      })),
+      withoutAssets: {
+        count: withoutAssetsCount,
+        total: sizeRows.reduce((sum, row) => sum + row.releases, 0),
+        recent: recentWithoutAssets
+      }
+    }
+  }
+
+  // === 버전(semver) 분석 ===
+
+  const getVersionStats = async (where: SQL | undefined, b: PublishedBuckets) => {
+    const rows = await db
+      .select({
+        repo: repos.fullName,
+        tagName: releases.tagName,
+        publishedAt: releases.publishedAt,
+        period: b.period
+      })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(where)
+      .orderBy(asc(releases.publishedAt))
+
+    type PackageState = {
+      repo: string
+      packageName: string
+      releaseCount: number
+      // 지금까지 나온 가장 높은 정식 버전 (bump 판정 기준)
+      latest: { version: ParsedVersion; publishedAt: string } | null
+      latestPrerelease: { version: ParsedVersion; publishedAt: string } | null
+      // 새 메이저 라인의 첫 정식 릴리즈
+      majorReleases: { version: string; publishedAt: string }[]
+    }
+
+    const packages = new Map<string, PackageState>()
+    const bumpsByMonth = new Map<string, Record<VersionBump, number>>()
+
+    for (const row of rows) {
+      const parsed = parseReleaseTag(row.tagName)
+      if (!parsed) continue
+
+      // 단일 패키지 저장소(v1.2.3 태그)는 저장소 이름을 패키지 이름으로 쓴다
+      const packageName = parsed.packageName ?? row.repo
+      const key = `${row.repo}::${packageName}`
+      const state: PackageState = packages.get(key) ?? {
+        repo: row.repo,
+        packageName,
+        releaseCount: 0,
+        latest: null,
+        latestPrerelease: null,
+        majorReleases: []
+      }
+      packages.set(key, state)
+      state.releaseCount += 1
+
+      const bump = classifyBump(parsed, state.latest?.version ?? null)
+      const counts = bumpsByMonth.get(row.period) ?? {
+        initial: 0,
+        major: 0,
+        minor: 0,
+        patch: 0,
+        prerelease: 0
+      }
+      counts[bump] += 1
+      bumpsByMonth.set(row.period, counts)
+
+      const entry = { version: parsed, publishedAt: row.publishedAt! }
+      if (bump === 'initial' || bump === 'major') {
+        state.majorReleases.push({ version: parsed.version, publishedAt: row.publishedAt! })
+      }
+      if (bump === 'prerelease') {
+        if (
+          !state.latestPrerelease ||
+          compareVersions(parsed, state.latestPrerelease.version) > 0
+        ) {
+          state.latestPrerelease = entry
+        }
+      } else if (!state.latest || compareVersions(parsed, state.latest.version) > 0) {
+        state.latest = entry
+      }
+    }
+
+    const sortedPackages = [...packages.values()].sort(
+      (a, b) => a.repo.localeCompare(b.repo) || a.packageName.localeCompare(b.packageName)
+    )
+
+    return {
+      bumpsByMonth: [...bumpsByMonth.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, counts]) => ({ period, ...counts })),
+      latestVersions: sortedPackages.map(state => {
+        const prerelease = state.latestPrerelease
+        const newerPrerelease =
+          prerelease &&
+          (!state.latest || compareVersions(prerelease.version, state.latest.version) > 0)
+        return {
+          repo: state.repo,
+          packageName: state.packageName,
+          latestVersion: state.latest?.version.version ?? null,
+          latestPublishedAt: state.latest?.publishedAt ?? null,
+          latestPrerelease: newerPrerelease ? prerelease.version.version : null,
+          releaseCount: state.releaseCount
+        }
+      }),
+      majorIntervals: sortedPackages
+        .filter(state => state.majorReleases.length > 0)
+        .map(state => {
+          const gaps = state.majorReleases
+            .slice(1)
+            .map(
+              (major, i) =>
+                (new Date(major.publishedAt).getTime() -
+                  new Date(state.majorReleases[i].publishedAt).getTime()) /
+                DAY_MS
+            )
+          return {
+            repo: state.repo,
+            packageName: state.packageName,
+            majorReleases: state.majorReleases,
+            averageDaysBetweenMajors: gaps.length
+              ? Math.round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length)
+              : null
+          }
+        })
+    }
+  }
+
+  const getDashboardStats = async (
+    filters: DashboardFilters = {},
+    groupBy: DashboardGroupBy | null = null
+  ) => {
+    const tz = filters.tz ?? timezone
+    const b = publishedBuckets(tz, timezone)
+    const calendar = await calendarService.getWorkingCalendar()
+    const where = buildCondition(filters, b, calendar)
+    const yearStats = await getYearStats(where, b)
+    const releaseIntervals = await getReleaseIntervals(where, b, calendar)
+    return {
+      timezone: tz,
+      includeWeekends: Boolean(filters.includeWeekends),
+      allYears: yearStats.map(y => y.year),
+      yearStats,
+      monthStats: await getMonthStats(where, b),
+      weekdayStats: await getWeekdayStats(where, b),
+      releaseTypeStats: await getReleaseTypeStats(where),
+      top3Months: await getAllTimeMonthTop3(where, b),
+      avgReleaseInterval: releaseIntervals.calendarDays,
+      releaseIntervals,
+      cadence: await getCadenceStats(where, b),
+      offHours: await getOffHoursStats(where, b, calendar),
+      versionStats: await getVersionStats(where, b),
+      changeComposition: await getChangeCompositionStats(where, b),
+      authorStats: await getAuthorStats(where, b),
+      assetStats: await getAssetStats(where, b),
+      leadTime: await getLeadTimeStats(where, filters),
+      comparison: groupBy === 'repo' ? await getComparisonStats(where, b, calendar) : null
+    }
+  }
+
+  // 저장소별 릴리즈 burst / drought 특이점
+  const getAnomalies = async (filters: DashboardFilters = {}) => {
+    const tz = filters.tz ?? timezone
+    const b = publishedBuckets(tz, timezone)
+    const calendar = await calendarService.getWorkingCalendar()
+    const rows = await db
+      .select({
+        id: releases.id,
+        repo: repos.fullName,
+        tagName: releases.tagName,
+        publishedAt: releases.publishedAt,
+        date: b.date
+      })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(buildCondition(filters, b, calendar))
+      .orderBy(asc(repos.fullName), asc(releases.publishedAt))
+
+    return {
+      timezone: tz,
+      includeWeekends: Boolean(filters.includeWeekends),
+      anomalies: detectAnomalies(rows.map(row => ({ ...row, publishedAt: row.publishedAt! })))
+    }
+  }
 
-export function getDashboardStats() {
-  const data = loadRawReleases();
-  const allYears = Array.from(new Set(data.map(d => d.published_year)))
-    .filter(Boolean)
-    .sort((a, b) => a.localeCompare(b));
   return {
-    allYears,
-    yearStats: getYearStats(data),
-    monthStats: Object.fromEntries(
-      allYears.map(y => [y, getMonthStats(data, y)])
-    ),
-    weekdayStats: getWeekdayStats(data),
-    releaseTypeStats: getReleaseTypeStats(data),
-    top3Months: getAllTimeMonthTop3(data),
-    avgReleaseInterval: getAverageReleaseInterval(data),
-  }
-}
\ No newline at end of file
+    getDashboardStats,
+    getAnomalies
+  }
+}
+
+export type DashboardService = ReturnType<typeof createDashboardService>
+export type DashboardStats = Awaited<ReturnType<DashboardService['getDashboardStats']>>
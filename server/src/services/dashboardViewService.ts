@@ -0,0 +1,97 @@
+import { and, asc, desc, eq } from 'drizzle-orm'
+import { dashboardViews } from '../db/schema'
+import { CreateDashboardViewDto, DashboardView, UpdateDashboardViewDto } from '../types'
+import { Database } from '../types/database'
+
+type DashboardViewServiceDeps = {
+  db: Database
+}
+
+export const createDashboardViewService = ({ db }: DashboardViewServiceDeps) => {
+  // 기본 뷰를 먼저, 나머지는 이름순
+  const getViewsByUser = async (userId: number): Promise<DashboardView[]> => {
+    return db
+      .select()
+      .from(dashboardViews)
+      .where(eq(dashboardViews.userId, userId))
+      .orderBy(desc(dashboardViews.isDefault), asc(dashboardViews.name))
+  }
+
+  const getViewById = async (id: number): Promise<DashboardView | undefined> => {
+    const result = await db.select().from(dashboardViews).where(eq(dashboardViews.id, id)).limit(1)
+    return result[0]
+  }
+
+  const getViewByName = async (
+    userId: number,
+    name: string
+  ): Promise<DashboardView | undefined> => {
+    const result = await db
+      .select()
+      .from(dashboardViews)
+      .where(and(eq(dashboardViews.userId, userId), eq(dashboardViews.name, name)))
+      .limit(1)
+    return result[0]
+  }
+
+  // 기본 뷰로 지정하면 같은 사용자의 기존 기본 뷰는 해제한다
+  const createView = async (data: CreateDashboardViewDto): Promise<DashboardView> => {
+    const now = new Date().toISOString()
+    return db.transaction(tx => {
+      if (data.isDefault) {
+        tx.update(dashboardViews)
+          .set({ isDefault: false })
+          .where(eq(dashboardViews.userId, data.userId))
+          .run()
+      }
+      return tx
+        .insert(dashboardViews)
+        .values({ ...data, createdAt: now, updatedAt: now })
+        .returning()
+        .get()
+    })
+  }
+
+  const updateView = async (
+    id: number,
+    data: UpdateDashboardViewDto
+  ): Promise<DashboardView | undefined> => {
+    const now = new Date().toISOString()
+    return db.transaction(tx => {
+      const view = tx.select().from(dashboardViews).where(eq(dashboardViews.id, id)).get()
+      if (!view) return undefined
+
+      if (data.isDefault) {
+        tx.update(dashboardViews)
+          .set({ isDefault: false })
+          .where(eq(dashboardViews.userId, view.userId))
+          .run()
+      }
+      return tx
+        .update(dashboardViews)
+        .set({ ...data, updatedAt: now })
+        .where(eq(dashboardViews.id, id))
+        .returning()
+        .get()
+    })
+  }
+
+  const deleteView = async (id: number): Promise<boolean> => {
+    const result = await db
+      .delete(dashboardViews)
+      .where(eq(dashboardViews.id, id))
+      .returning({ id: dashboardViews.id })
+    return result.length > 0
+  }
+
+  return {
+    getViewsByUser,
+    getViewById,
+    getViewByName,
+    createView,
+    updateView,
+    deleteView
+  }
+}
+
+export type DashboardViewService = ReturnType<typeof createDashboardViewService>
@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { FakeGithubServer, sendJson, startFakeGithubServer } from '../test/fakeGithubServer'
+import { GithubRelease, createGithubClient } from './githubClient'
+
+const release = (id: number): GithubRelease => ({
+  id,
+  tag_name: `v${id}`,
+  name: `v${id}`,
+  body: '',
+  draft: false,
+  prerelease: false,
+  created_at: '2024-01-01T00:00:00Z',
+  published_at: '2024-01-01T00:00:00Z',
+  author: { login: 'octocat' },
+  assets: [],
+  html_url: `https://github.com/owner/repo/releases/v${id}`
+})
+
+describe('createGithubClient', () => {
+  let server: FakeGithubServer
+  const delays: number[] = []
+  const sleep = async (ms: number) => {
+    delays.push(ms)
+  }
+
+  afterEach(async () => {
+    delays.length = 0
+    await server?.close()
+  })
+
+  it('ETag를 If-None-Match로 보내고 304면 notModified를 돌려준다', async () => {
+    server = await startFakeGithubServer((request, response) => {
+      if (request.headers['if-none-match'] === '"v1"') {
+        response.writeHead(304, { ETag: '"v1"' })
+        response.end()
+        return
+      }
+      sendJson(response, 200, [release(2), release(1)], { ETag: '"v1"' })
+    })
+    const github = createGithubClient({ baseUrl: server.baseUrl, sleep })
+
+    const first = await github.listReleases('owner/repo')
+    expect(first).toEqual({
+      notModified: false,
+      releases: [release(2), release(1)],
+      etag: '"v1"',
+      hasNextPage: false
+    })
+
+    const second = await github.listReleases('owner/repo', { etag: '"v1"' })
+    expect(second).toEqual({ notModified: true })
+    expect(server.requests[0].headers['if-none-match']).toBeUndefined()
+    expect(server.requests[1].headers['if-none-match']).toBe('"v1"')
+  })
+
+  it('Link 헤더에 rel="next"가 있으면 다음 페이지가 있다고 본다', async () => {
+    server = await startFakeGithubServer((request, response) => {
+      const link = `<${server.baseUrl}/repos/owner/repo/releases?page=2>; rel="next"`
+      sendJson(response, 200, [release(3)], request.query.get('page') === '1' ? { Link: link } : {})
+    })
+    const github = createGithubClient({ baseUrl: server.baseUrl, perPage: 1, sleep })
+
+    const page1 = await github.listReleases('owner/repo', { page: 1 })
+    const page2 = await github.listReleases('owner/repo', { page: 2 })
+    expect(page1).toMatchObject({ hasNextPage: true })
+    expect(page2).toMatchObject({ hasNextPage: false })
+    expect(server.requests.map(r => r.query.get('per_page'))).toEqual(['1', '1'])
+  })
+
+  it('Retry-After(초)만큼 기다렸다가 다시 요청한다', async () => {
+    server = await startFakeGithubServer((_request, response) => {
+      if (server.requests.length === 1) {
+        sendJson(response, 429, { message: 'rate limited' }, { 'Retry-After': '7' })
+        return
+      }
+      sendJson(response, 200, [release(1)])
+    })
+    const github = createGithubClient({ baseUrl: server.baseUrl, sleep })
+
+    const result = await github.listReleases('owner/repo')
+    expect(result).toMatchObject({ notModified: false, releases: [release(1)] })
+    expect(server.requests).toHaveLength(2)
+    expect(delays).toEqual([7000])
+  })
+
+  it('HTTP 날짜 형식의 Retry-After도 남은 시간만큼 기다린다', async () => {
+    server = await startFakeGithubServer((_request, response) => {
+      if (server.requests.length === 1) {
+        const retryAt = new Date(Date.now() + 30_000).toUTCString()
+        sendJson(response, 403, { message: 'secondary rate limit' }, { 'Retry-After': retryAt })
+        return
+      }
+      sendJson(response, 200, [release(1)])
+    })
+    const github = createGithubClient({ baseUrl: server.baseUrl, sleep })
+
+    await github.listReleases('owner/repo')
+    expect(delays).toHaveLength(1)
+    // HTTP 날짜는 초 단위라 최대 1초 가까이 짧아질 수 있다
+    expect(delays[0]).toBeGreaterThan(28_000)
+    expect(delays[0]).toBeLessThanOrEqual(30_000)
+  })
+
+  it('Retry-After 대기 시간은 최소/최대 범위로 제한한다', async () => {
+    const retryAfters = [new Date(Date.now() - 60_000).toUTCString(), '86400', 'soon']
+    server = await startFakeGithubServer((_request, response) => {
+      const retryAfter = retryAfters[server.requests.length - 1]
+      if (retryAfter !== undefined) {
+        sendJson(response, 429, { message: 'rate limited' }, { 'Retry-After': retryAfter })
+        return
+      }
+      sendJson(response, 200, [release(1)])
+    })
+    const github = createGithubClient({ baseUrl: server.baseUrl, sleep })
+
+    await github.listReleases('owner/repo')
+    // 지난 시각 -> 최소 1초, 하루 -> 최대 1시간, 해석 불가 -> 지수 백오프
+    expect(delays).toEqual([1000, 60 * 60_000, 4000])
+  })
+
+  it('X-RateLimit-Remaining이 0이면 X-RateLimit-Reset 시각까지 기다린다', async () => {
+    const reset = Math.ceil(Date.now() / 1000) + 120
+    server = await startFakeGithubServer((_request, response) => {
+      if (server.requests.length === 1) {
+        sendJson(
+          response,
+          403,
+          { message: 'API rate limit exceeded' },
+          { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': String(reset) }
+        )
+        return
+      }
+      sendJson(response, 200, [release(1)])
+    })
+    const github = createGithubClient({ baseUrl: server.baseUrl, sleep })
+
+    await github.listReleases('owner/repo')
+    expect(server.requests).toHaveLength(2)
+    expect(delays[0]).toBeGreaterThan(110_000)
+    expect(delays[0]).toBeLessThanOrEqual(121_000)
+  })
+
+  it('성공 응답이라도 남은 호출 수가 0이면 다음 요청 전에 리셋 시각까지 기다린다', async () => {
+    const reset = Math.ceil(Date.now() / 1000) + 60
+    server = await startFakeGithubServer((_request, response) => {
+      sendJson(response, 200, [release(1)], {
+        'X-RateLimit-Remaining': server.requests.length === 1 ? '0' : '4999',
+        'X-RateLimit-Reset': String(reset)
+      })
+    })
+    const github = createGithubClient({ baseUrl: server.baseUrl, sleep })
+
+    await github.listReleases('owner/repo')
+    expect(delays).toEqual([])
+    await github.listReleases('owner/repo', { page: 2 })
+    expect(delays).toHaveLength(1)
+    expect(delays[0]).toBeGreaterThan(50_000)
+    expect(delays[0]).toBeLessThanOrEqual(61_000)
+  })
+
+  it('재시도 횟수를 넘기면 에러를 던진다', async () => {
+    server = await startFakeGithubServer((_request, response) => {
+      sendJson(response, 429, { message: 'rate limited' }, { 'Retry-After': '1' })
+    })
+    const github = createGithubClient({ baseUrl: server.baseUrl, maxRetries: 2, sleep })
+
+    await expect(github.listReleases('owner/repo')).rejects.toThrow('status 429')
+    expect(server.requests).toHaveLength(3)
+    expect(delays).toEqual([1000, 1000])
+  })
+})
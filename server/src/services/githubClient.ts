@@ -0,0 +1,170 @@
+import axios, { AxiosResponse } from 'axios'
+
+// GitHub Releases API 응답 타입
+export interface GithubReleaseAuthor {
+  login: string
+}
+
+export interface GithubReleaseAsset {
+  name: string
+  size: number
+  content_type: string | null
+  download_count: number
+  browser_download_url: string
+}
+
+export interface GithubRelease {
+  id: number
+  tag_name: string
+  name: string | null
+  body: string | null
+  draft: boolean
+  prerelease: boolean
+  created_at: string
+  published_at: string | null
+  author: GithubReleaseAuthor | null
+  assets: GithubReleaseAsset[]
+  html_url: string
+}
+
+export type ListReleasesResult =
+  | { notModified: true }
+  | { notModified: false; releases: GithubRelease[]; etag: string | null; hasNextPage: boolean }
+
+type GithubClientDeps = {
+  baseUrl: string
+  token?: string
+  perPage?: number
+  maxRetries?: number
+  sleep?: (ms: number) => Promise<void>
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+// 지수 백오프 (1s, 2s, 4s ... 최대 60s)
+const backoffDelay = (attempt: number) => Math.min(1000 * 2 ** attempt, 60_000)
+
+// 레이트 리밋 대기 시간 범위 (시계 오차로 음수/0이 되거나 헤더 값이 비정상적으로 큰 경우 대비)
+const MIN_RATE_LIMIT_DELAY = 1000
+const MAX_RATE_LIMIT_DELAY = 60 * 60_000
+
+const clampDelay = (ms: number) =>
+  Math.min(Math.max(ms, MIN_RATE_LIMIT_DELAY), MAX_RATE_LIMIT_DELAY)
+
+// Retry-After 헤더는 초 단위 숫자 또는 HTTP 날짜 (해석할 수 없으면 null)
+const parseRetryAfter = (value: string): number | null => {
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1000
+  const date = Date.parse(trimmed)
+  return isNaN(date) ? null : date - Date.now()
+}
+
+export const createGithubClient = ({
+  baseUrl,
+  token,
+  perPage = 100,
+  maxRetries = 5,
+  sleep = defaultSleep
+}: GithubClientDeps) => {
+  const http = axios.create({
+    baseURL: baseUrl,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      ...(token ? { Authorization: `token ${token}` } : {})
+    },
+    validateStatus: () => true
+  })
+
+  // 남은 호출 수가 0이면 다음 요청은 리셋 시각까지 기다린다
+  let resumeAt = 0
+
+  const waitForRateLimit = async () => {
+    const waitMs = resumeAt - Date.now()
+    if (waitMs > 0) await sleep(Math.min(waitMs, MAX_RATE_LIMIT_DELAY))
+  }
+
+  const rateLimitDelay = (response: AxiosResponse, attempt: number): number | null => {
+    const retryAfter = response.headers['retry-after']
+    if (retryAfter !== undefined) {
+      return clampDelay(parseRetryAfter(String(retryAfter)) ?? backoffDelay(attempt))
+    }
+    if (response.headers['x-ratelimit-remaining'] === '0') {
+      const reset = parseInt(response.headers['x-ratelimit-reset'] ?? '', 10)
+      return isNaN(reset) ? backoffDelay(attempt) : clampDelay(reset * 1000 - Date.now())
+    }
+    return null
+  }
+
+  const get = async (
+    url: string,
+    params: Record<string, unknown>,
+    headers: Record<string, string>
+  ): Promise<AxiosResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      await waitForRateLimit()
+
+      let response: AxiosResponse
+      try {
+        response = await http.get(url, { params, headers })
+      } catch (error) {
+        if (attempt >= maxRetries) throw error
+        await sleep(backoffDelay(attempt))
+        continue
+      }
+
+      if (response.headers['x-ratelimit-remaining'] === '0') {
+        const reset = parseInt(response.headers['x-ratelimit-reset'] ?? '', 10)
+        if (!isNaN(reset)) resumeAt = reset * 1000
+      }
+
+      if (response.status === 403 || response.status === 429) {
+        const delay = rateLimitDelay(response, attempt)
+        if (delay !== null && attempt < maxRetries) {
+          await sleep(delay)
+          continue
+        }
+      }
+
+      if (response.status >= 500 && attempt < maxRetries) {
+        await sleep(backoffDelay(attempt))
+        continue
+      }
+
+      if (response.status >= 400) {
+        throw new Error(`GitHub API ${url} 요청이 실패했습니다. (status ${response.status})`)
+      }
+
+      return response
+    }
+  }
+
+  // 저장소 릴리즈 목록 한 페이지 조회 (ETag가 있으면 조건부 요청)
+  const listReleases = async (
+    repo: string,
+    { page = 1, etag }: { page?: number; etag?: string | null } = {}
+  ): Promise<ListReleasesResult> => {
+    const response = await get(
+      `/repos/${repo}/releases`,
+      { per_page: perPage, page },
+      etag ? { 'If-None-Match': etag } : {}
+    )
+
+    if (response.status === 304) {
+      return { notModified: true }
+    }
+
+    const link: string = response.headers['link'] ?? ''
+    return {
+      notModified: false,
+      releases: response.data as GithubRelease[],
+      etag: response.headers['etag'] ?? null,
+      hasNextPage: link.includes('rel="next"')
+    }
+  }
+
+  return {
+    listReleases
+  }
+}
+
+export type GithubClient = ReturnType<typeof createGithubClient>
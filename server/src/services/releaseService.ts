@@ -0,0 +1,191 @@
+import { and, asc, desc, eq, inArray, isNotNull, notInArray, or, sql, SQL } from 'drizzle-orm'
+import { releaseAssets, releases, repos } from '../db/schema'
+import { leadTimeMinutes, publishedBuckets, publishedDateRange } from '../db/localTime'
+import { contains } from '../db/search'
+import { ReleaseListOptions, ReleaseSortField, ReleaseType } from '../types'
+import { Database } from '../types/database'
+import { parseReleaseNotes } from '../utils/releaseNotes'
+import { WorkingCalendar } from '../utils/workingCalendar'
+import { CalendarService } from './calendarService'
+
+type ReleaseServiceDeps = {
+  db: Database
+  calendarService: CalendarService
+  // tz 파라미터가 없을 때 사용할 보고 시간대 (대시보드 집계와 같은 기준)
+  timezone: string
+}
+
+const SORT_COLUMNS = {
+  publishedAt: releases.publishedAt,
+  createdAt: releases.createdAt,
+  tagName: releases.tagName,
+  name: releases.name,
+  author: releases.author,
+  leadTime: leadTimeMinutes
+} satisfies Record<ReleaseSortField, unknown>
+
+// 목록에서는 body를 제외한 요약 컬럼만 내려준다
+const listColumns = {
+  id: releases.id,
+  repo: repos.fullName,
+  tagName: releases.tagName,
+  name: releases.name,
+  author: releases.author,
+  isDraft: releases.isDraft,
+  isPrerelease: releases.isPrerelease,
+  assetsCount: releases.assetsCount,
+  htmlUrl: releases.htmlUrl,
+  createdAt: releases.createdAt,
+  publishedAt: releases.publishedAt,
+  leadTimeMinutes
+}
+
+// 릴리즈 유형 조건 (대시보드의 Draft / Prerelease / Release 분류와 동일)
+const TYPE_CONDITIONS: Record<ReleaseType, SQL> = {
+  draft: sql`${releases.isDraft}`,
+  prerelease: sql`not ${releases.isDraft} and ${releases.isPrerelease}`,
+  release: sql`not ${releases.isDraft} and not ${releases.isPrerelease}`
+}
+
+// 사용자 상세의 최근 릴리즈 수
+const RECENT_RELEASE_LIMIT = 10
+
+export const createReleaseService = ({ db, calendarService, timezone }: ReleaseServiceDeps) => {
+  // 날짜 조건은 대시보드와 같은 보고 시간대 기준으로 비교해 드릴다운 건수를 맞춘다
+  // 목록은 기본적으로 주말 릴리즈를 포함하고, includeWeekends=false면 근무 캘린더의 주말을 제외한다
+  // 대시보드 집계는 공개된 릴리즈만 세므로, 드릴다운 조건(기간/버킷/유형/주말)이 있으면 공개 전 드래프트를 뺀다
+  const buildCondition = (
+    options: ReleaseListOptions,
+    calendar: WorkingCalendar
+  ): SQL | undefined => {
+    const b = publishedBuckets(options.tz ?? timezone, timezone)
+    const isDrillDown = Boolean(
+      options.from ||
+        options.to ||
+        options.weekdays?.length ||
+        options.year ||
+        options.month ||
+        options.types?.length ||
+        options.includeWeekends === false
+    )
+    return and(
+      isDrillDown ? isNotNull(releases.publishedAt) : undefined,
+      options.includeWeekends === false && calendar.weekendDays.length
+        ? notInArray(b.weekday, calendar.weekendDays)
+        : undefined,
+      options.repos?.length ? inArray(repos.fullName, options.repos) : undefined,
+      publishedDateRange(b, options.from, options.to),
+      options.weekdays?.length ? inArray(b.weekday, options.weekdays) : undefined,
+      options.year ? eq(b.year, options.year) : undefined,
+      options.month ? eq(b.month, options.month) : undefined,
+      options.types?.length ? or(...options.types.map(type => TYPE_CONDITIONS[type])) : undefined,
+      options.author ? eq(sql`lower(${releases.author})`, options.author.toLowerCase()) : undefined,
+      options.q
+        ? or(
+            contains(releases.tagName, options.q),
+            contains(releases.name, options.q),
+            contains(releases.author, options.q),
+            contains(releases.body, options.q)
+          )
+        : undefined
+    )
+  }
+
+  // 릴리즈 목록 (페이지네이션/정렬/검색)
+  const getReleases = async (options: ReleaseListOptions) => {
+    const where = buildCondition(options, await calendarService.getWorkingCalendar())
+    const direction = options.order === 'asc' ? asc : desc
+
+    const [rows, totalRows] = await Promise.all([
+      db
+        .select(listColumns)
+        .from(releases)
+        .innerJoin(repos, eq(releases.repoId, repos.id))
+        .where(where)
+        .orderBy(direction(SORT_COLUMNS[options.sort]), direction(releases.id))
+        .limit(options.limit)
+        .offset((options.page - 1) * options.limit),
+      db
+        .select({ total: sql<number>`count(*)`.mapWith(Number) })
+        .from(releases)
+        .innerJoin(repos, eq(releases.repoId, repos.id))
+        .where(where)
+    ])
+
+    return { releases: rows, total: totalRows[0]?.total ?? 0 }
+  }
+
+  // 릴리즈 상세 (저장소 정보와 파싱된 변경 항목 포함)
+  const getReleaseById = async (id: number) => {
+    const result = await db
+      .select({ release: releases, repo: repos.fullName })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(eq(releases.id, id))
+      .limit(1)
+
+    if (!result[0]) return undefined
+
+    const { release, repo } = result[0]
+    const assets = await db
+      .select()
+      .from(releaseAssets)
+      .where(eq(releaseAssets.releaseId, id))
+      .orderBy(asc(releaseAssets.name))
+    return {
+      ...release,
+      repo,
+      assets,
+      changelog: parseReleaseNotes(release.body)
+    }
+  }
+
+  // 작성자의 릴리즈 수, 마지막 릴리즈, 저장소별 건수와 최근 릴리즈
+  const getAuthorSummary = async (author: string) => {
+    const where = eq(sql`lower(${releases.author})`, author.toLowerCase())
+
+    const repoRows = await db
+      .select({
+        repo: repos.fullName,
+        count: sql<number>`count(*)`.mapWith(Number),
+        lastPublishedAt: sql<string | null>`max(${releases.publishedAt})`
+      })
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(where)
+      .groupBy(repos.fullName)
+      .orderBy(desc(sql`count(*)`), asc(repos.fullName))
+
+    const recentReleases = await db
+      .select(listColumns)
+      .from(releases)
+      .innerJoin(repos, eq(releases.repoId, repos.id))
+      .where(where)
+      .orderBy(desc(releases.publishedAt), desc(releases.id))
+      .limit(RECENT_RELEASE_LIMIT)
+
+    const lastPublishedAt = repoRows.reduce<string | null>(
+      (latest, row) =>
+        row.lastPublishedAt && (!latest || row.lastPublishedAt > latest)
+          ? row.lastPublishedAt
+          : latest,
+      null
+    )
+
+    return {
+      author,
+      total: repoRows.reduce((sum, row) => sum + row.count, 0),
+      lastPublishedAt,
+      repos: repoRows,
+      recentReleases
+    }
+  }
+
+  return {
+    getReleases,
+    getReleaseById,
+    getAuthorSummary
+  }
+}
+
+export type ReleaseService = ReturnType<typeof createReleaseService>
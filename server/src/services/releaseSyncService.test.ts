@@ -0,0 +1,197 @@
+import Database from 'better-sqlite3'
+import { eq } from 'drizzle-orm'
+import { drizzle } from 'drizzle-orm/better-sqlite3'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createSchema } from '../db/createSchema'
+import * as schema from '../db/schema'
+import { releaseAssets, releases, repos } from '../db/schema'
+import { FakeGithubServer, sendJson, startFakeGithubServer } from '../test/fakeGithubServer'
+import { Database as DrizzleDatabase } from '../types/database'
+import { GithubRelease, createGithubClient } from './githubClient'
+import { createReleaseSyncService } from './releaseSyncService'
+
+const REPO = 'owner/repo'
+const PER_PAGE = 2
+
+const release = (id: number, body = ''): GithubRelease => ({
+  id,
+  tag_name: `v${id}.0.0`,
+  name: `v${id}.0.0`,
+  body,
+  draft: false,
+  prerelease: false,
+  created_at: `2024-01-${String(id).padStart(2, '0')}T00:00:00Z`,
+  published_at: `2024-01-${String(id).padStart(2, '0')}T01:00:00Z`,
+  author: { login: 'octocat' },
+  assets: [],
+  html_url: `https://github.com/${REPO}/releases/v${id}.0.0`
+})
+
+describe('createReleaseSyncService', () => {
+  let server: FakeGithubServer
+  let db: DrizzleDatabase
+  // 최신순 릴리즈 목록 (테스트 중 추가/수정한다)
+  let remote: GithubRelease[]
+
+  // 페이지 내용으로 ETag를 만들어 내용이 같으면 304를 돌려주는 가짜 GitHub
+  const startServer = () =>
+    startFakeGithubServer((request, response) => {
+      const page = Number(request.query.get('page'))
+      const perPage = Number(request.query.get('per_page'))
+      const items = remote.slice((page - 1) * perPage, page * perPage)
+      const etag = `"${page}:${JSON.stringify(items).length}:${items.map(r => r.id).join(',')}"`
+      if (request.headers['if-none-match'] === etag) {
+        response.writeHead(304, { ETag: etag })
+        response.end()
+        return
+      }
+      const hasNext = page * perPage < remote.length
+      const link = `<${server.baseUrl}${request.path}?page=${page + 1}>; rel="next"`
+      sendJson(response, 200, items, { ETag: etag, ...(hasNext ? { Link: link } : {}) })
+    })
+
+  const createService = (recheckPages?: number) =>
+    createReleaseSyncService({
+      db,
+      github: createGithubClient({ baseUrl: server.baseUrl, perPage: PER_PAGE }),
+      timezone: 'Asia/Seoul',
+      recheckPages
+    })
+
+  const requestedPages = () => server.requests.map(r => Number(r.query.get('page')))
+
+  const storedRepo = async () => (await db.select().from(repos).where(eq(repos.fullName, REPO)))[0]
+
+  beforeEach(async () => {
+    const sqlite = new Database(':memory:')
+    sqlite.pragma('foreign_keys = ON')
+    createSchema(sqlite)
+    db = drizzle(sqlite, { schema })
+    remote = [6, 5, 4, 3, 2, 1].map(id => release(id))
+    server = await startServer()
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('처음에는 모든 페이지를 받아 저장하고 ETag와 마지막 release id를 기록한다', async () => {
+    const result = await createService().syncRepo(REPO)
+
+    expect(result).toEqual({
+      repo: REPO,
+      notModified: false,
+      inserted: 6,
+      updated: 0,
+      unchanged: 0
+    })
+    expect(requestedPages()).toEqual([1, 2, 3])
+    const repo = await storedRepo()
+    expect(repo.lastReleaseId).toBe(6)
+    expect(repo.etag).toMatch(/^"1:/)
+    expect(repo.lastSyncedAt).not.toBeNull()
+  })
+
+  it('첫 페이지는 저장된 ETag로 조건부 요청하고, 304여도 재확인 범위까지만 받는다', async () => {
+    await createService().syncRepo(REPO)
+    const { etag } = await storedRepo()
+    server.requests.length = 0
+
+    const result = await createService().syncRepo(REPO)
+
+    expect(result).toEqual({ repo: REPO, notModified: true, inserted: 0, updated: 0, unchanged: 2 })
+    expect(requestedPages()).toEqual([1, 2])
+    expect(server.requests[0].headers['if-none-match']).toBe(etag)
+    expect(server.requests[1].headers['if-none-match']).toBeUndefined()
+    expect((await storedRepo()).etag).toBe(etag)
+  })
+
+  it('새 릴리즈가 생기면 lastReleaseId에 도달한 뒤 재확인 범위에서 멈춘다', async () => {
+    await createService().syncRepo(REPO)
+    server.requests.length = 0
+    remote = [8, 7, ...remote.map(r => r.id)].map(id => release(id))
+
+    const result = await createService().syncRepo(REPO)
+
+    // 1페이지 [8, 7]은 새 릴리즈, 2페이지 [6, 5]에서 이미 본 id에 도달
+    expect(result).toEqual({
+      repo: REPO,
+      notModified: false,
+      inserted: 2,
+      updated: 0,
+      unchanged: 2
+    })
+    expect(requestedPages()).toEqual([1, 2])
+    expect((await storedRepo()).lastReleaseId).toBe(8)
+  })
+
+  it('재확인 범위 안에서 수정된 릴리즈는 첫 페이지가 304여도 갱신한다', async () => {
+    await createService().syncRepo(REPO)
+    remote = remote.map(r => (r.id === 4 ? release(4, '## Bug Fixes\n- fix crash') : r))
+
+    const result = await createService().syncRepo(REPO)
+
+    expect(result).toMatchObject({ notModified: true, updated: 1, unchanged: 1 })
+    const [stored] = await db.select().from(releases).where(eq(releases.id, 4))
+    expect(stored.body).toBe('## Bug Fixes\n- fix crash')
+    expect(stored.fixCount).toBe(1)
+  })
+
+  it('첨부파일은 새 릴리즈이거나 첨부파일 정보가 바뀐 릴리즈만 교체한다', async () => {
+    const asset = (name: string, downloadCount: number) => ({
+      name,
+      size: 1024,
+      content_type: 'application/zip',
+      download_count: downloadCount,
+      browser_download_url: `https://example.com/${name}`
+    })
+    remote = remote.map(r =>
+      r.id === 6 || r.id === 5 ? { ...r, assets: [asset(`app-${r.id}.zip`, 1)] } : r
+    )
+    await createService().syncRepo(REPO)
+    const assetIds = async (releaseId: number) =>
+      (await db.select().from(releaseAssets).where(eq(releaseAssets.releaseId, releaseId))).map(
+        row => row.id
+      )
+    const [before6, before5] = [await assetIds(6), await assetIds(5)]
+
+    // 6은 그대로, 5는 다운로드 수만 바뀜
+    remote = remote.map(r => (r.id === 5 ? { ...r, assets: [asset('app-5.zip', 42)] } : r))
+    await createService().syncRepo(REPO)
+
+    expect(await assetIds(6)).toEqual(before6)
+    expect(await assetIds(5)).not.toEqual(before5)
+    const [updated] = await db.select().from(releaseAssets).where(eq(releaseAssets.releaseId, 5))
+    expect(updated.downloadCount).toBe(42)
+  })
+
+  it('게시일 집계 컬럼은 보고 시간대 기준 날짜로 계산한다', async () => {
+    // 금요일 밤(UTC)은 서울 기준 토요일
+    remote = [{ ...release(1), published_at: '2024-03-29T16:30:00Z' }]
+
+    await createService().syncRepo(REPO)
+
+    const [stored] = await db.select().from(releases).where(eq(releases.id, 1))
+    expect(stored).toMatchObject({
+      publishedDate: '2024-03-30',
+      publishedWeekday: 'Saturday',
+      publishedYear: '2024',
+      publishedMonth: '03'
+    })
+  })
+
+  it('recheckPages가 1이면 이미 본 id에 도달한 페이지에서 바로 멈춘다', async () => {
+    await createService(1).syncRepo(REPO)
+    server.requests.length = 0
+
+    const notModified = await createService(1).syncRepo(REPO)
+    expect(notModified).toMatchObject({ notModified: true, unchanged: 0 })
+    expect(requestedPages()).toEqual([1])
+
+    server.requests.length = 0
+    remote = [7, ...remote.map(r => r.id)].map(id => release(id))
+    const result = await createService(1).syncRepo(REPO)
+    expect(result).toMatchObject({ inserted: 1, unchanged: 1 })
+    expect(requestedPages()).toEqual([1])
+  })
+})
@@ -0,0 +1,217 @@
+import { asc, eq, inArray } from 'drizzle-orm'
+import { releaseAssets, releases, repos, NewRelease, Release } from '../db/schema'
+import { ReleaseAssetInput, ensureRepo, replaceReleaseAssets } from '../db/importReleases'
+import { Database } from '../types/database'
+import { derivePublishedColumns } from '../utils/releaseDates'
+import { releaseNoteColumns } from '../utils/releaseNotes'
+import { GithubClient, GithubRelease } from './githubClient'
+
+type ReleaseSyncServiceDeps = {
+  db: Database
+  github: GithubClient
+  // 릴리즈 게시일의 요일/날짜/연/월 컬럼을 나눌 보고 시간대
+  timezone: string
+  // 이미 본 release에 도달해도 최신순으로 이 페이지 수까지는 다시 받아 수정된 릴리즈를 반영한다
+  recheckPages?: number
+}
+
+const DEFAULT_RECHECK_PAGES = 2
+
+export interface RepoSyncResult {
+  repo: string
+  // 첫 페이지가 304였는지 (재확인 페이지에서 수정된 릴리즈가 있을 수 있다)
+  notModified: boolean
+  inserted: number
+  updated: number
+  unchanged: number
+}
+
+// 변경 여부 비교 대상 컬럼
+const COMPARED_FIELDS = [
+  'tagName',
+  'name',
+  'author',
+  'body',
+  'isDraft',
+  'isPrerelease',
+  'assetsCount',
+  'assetsNames',
+  'htmlUrl',
+  'publishedAt'
+] as const
+
+// GitHub Release -> releases 레코드 변환
+export function fromGithubRelease(
+  repoId: number,
+  raw: GithubRelease,
+  timezone: string
+): NewRelease {
+  return {
+    id: raw.id,
+    repoId,
+    tagName: raw.tag_name,
+    name: raw.name ?? '',
+    author: raw.author?.login ?? '',
+    body: raw.body ?? '',
+    isDraft: raw.draft,
+    isPrerelease: raw.prerelease,
+    assetsCount: raw.assets.length,
+    assetsNames: raw.assets.map(a => a.name).join(';'),
+    htmlUrl: raw.html_url,
+    createdAt: raw.created_at,
+    publishedAt: raw.published_at,
+    ...derivePublishedColumns(raw.published_at, timezone),
+    ...releaseNoteColumns(raw.body)
+  }
+}
+
+// GitHub Release 첨부파일 -> release_assets 레코드 변환
+export function fromGithubAssets(raw: GithubRelease): ReleaseAssetInput[] {
+  return raw.assets.map(asset => ({
+    name: asset.name,
+    size: asset.size,
+    contentType: asset.content_type,
+    downloadCount: asset.download_count,
+    downloadUrl: asset.browser_download_url
+  }))
+}
+
+function hasChanged(existing: Release, next: NewRelease): boolean {
+  return COMPARED_FIELDS.some(field => existing[field] !== (next[field] ?? null))
+}
+
+// 첨부파일 비교 키 (다운로드 수도 포함해 바뀐 릴리즈만 첨부파일 행을 교체한다)
+const assetsKey = (assets: ReleaseAssetInput[]) =>
+  JSON.stringify(
+    assets.map(asset => [
+      asset.name,
+      asset.size ?? null,
+      asset.contentType ?? null,
+      asset.downloadCount ?? null,
+      asset.downloadUrl ?? null
+    ])
+  )
+
+export const createReleaseSyncService = ({
+  db,
+  github,
+  timezone,
+  recheckPages = DEFAULT_RECHECK_PAGES
+}: ReleaseSyncServiceDeps) => {
+  // 저장소 하나를 증분 동기화한다.
+  // 첫 페이지는 저장된 ETag로 조건부 요청하고, 이미 본 release id에 도달하면 페이지 탐색을 멈춘다.
+  // GitHub 릴리즈에는 수정 시각이 없어서, 첫 페이지 아래에서 수정된 릴리즈도 잡도록
+  // 최신순 recheckPages 페이지까지는 (첫 페이지가 304여도) 항상 다시 받아 비교한다.
+  const syncRepo = async (fullName: string): Promise<RepoSyncResult> => {
+    const repo = await ensureRepo(db, fullName)
+    const result: RepoSyncResult = {
+      repo: fullName,
+      notModified: false,
+      inserted: 0,
+      updated: 0,
+      unchanged: 0
+    }
+
+    let etag = repo.etag
+    let lastReleaseId = repo.lastReleaseId
+
+    for (let page = 1; ; page++) {
+      const response = await github.listReleases(fullName, {
+        page,
+        etag: page === 1 ? repo.etag : null
+      })
+
+      if (response.notModified) {
+        result.notModified = true
+        if (page >= recheckPages) break
+        continue
+      }
+      if (page === 1) etag = response.etag
+      if (!response.releases.length) break
+
+      const incoming = response.releases.map(raw => fromGithubRelease(repo.id, raw, timezone))
+      const incomingAssets = new Map(response.releases.map(raw => [raw.id, fromGithubAssets(raw)]))
+      const existingRows = await db
+        .select()
+        .from(releases)
+        .where(
+          inArray(
+            releases.id,
+            incoming.map(r => r.id!)
+          )
+        )
+      const existingById = new Map(existingRows.map(row => [row.id, row]))
+      const existingAssetRows = existingRows.length
+        ? await db
+            .select()
+            .from(releaseAssets)
+            .where(
+              inArray(
+                releaseAssets.releaseId,
+                existingRows.map(row => row.id)
+              )
+            )
+            .orderBy(asc(releaseAssets.id))
+        : []
+      const existingAssets = new Map<number, ReleaseAssetInput[]>()
+      for (const asset of existingAssetRows) {
+        existingAssets.set(asset.releaseId, [...(existingAssets.get(asset.releaseId) ?? []), asset])
+      }
+
+      db.transaction(tx => {
+        for (const next of incoming) {
+          const existing = existingById.get(next.id!)
+          const assets = incomingAssets.get(next.id!) ?? []
+          if (!existing) {
+            tx.insert(releases).values(next).run()
+            result.inserted += 1
+          } else if (hasChanged(existing, next)) {
+            const { id, ...values } = next
+            tx.update(releases).set(values).where(eq(releases.id, id!)).run()
+            result.updated += 1
+          } else {
+            result.unchanged += 1
+          }
+          if (!existing || assetsKey(existingAssets.get(next.id!) ?? []) !== assetsKey(assets)) {
+            replaceReleaseAssets(tx, next.id!, assets)
+          }
+        }
+      })
+
+      const pageMaxId = Math.max(...incoming.map(r => r.id!))
+      const reachedKnown =
+        repo.lastReleaseId !== null && incoming.some(r => r.id! <= repo.lastReleaseId!)
+      lastReleaseId = Math.max(lastReleaseId ?? 0, pageMaxId)
+
+      if (!response.hasNextPage || (reachedKnown && page >= recheckPages)) break
+    }
+
+    await db
+      .update(repos)
+      .set({
+        etag,
+        lastReleaseId,
+        lastSyncedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      })
+      .where(eq(repos.id, repo.id))
+
+    return result
+  }
+
+  // 여러 저장소를 순서대로 동기화 (레이트 리밋을 공유하므로 병렬로 돌리지 않는다)
+  const syncRepos = async (fullNames: string[]): Promise<RepoSyncResult[]> => {
+    const results: RepoSyncResult[] = []
+    for (const fullName of fullNames) {
+      results.push(await syncRepo(fullName))
+    }
+    return results
+  }
+
+  return {
+    syncRepo,
+    syncRepos
+  }
+}
+
+export type ReleaseSyncService = ReturnType<typeof createReleaseSyncService>
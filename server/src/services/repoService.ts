@@ -0,0 +1,76 @@
+import { asc, eq } from 'drizzle-orm'
+import { repos } from '../db/schema'
+import { CreateRepoDto, UpdateRepoDto, Repo } from '../types'
+import { Database } from '../types/database'
+
+type RepoServiceDeps = {
+  db: Database
+}
+
+export const createRepoService = ({ db }: RepoServiceDeps) => {
+  const getAllRepos = async (): Promise<Repo[]> => {
+    return db.select().from(repos).orderBy(asc(repos.fullName))
+  }
+
+  // 동기화 대상 저장소 (enabled = true)
+  const getEnabledRepos = async (): Promise<Repo[]> => {
+    return db.select().from(repos).where(eq(repos.enabled, true)).orderBy(asc(repos.fullName))
+  }
+
+  const getRepoById = async (id: number): Promise<Repo | undefined> => {
+    const result = await db.select().from(repos).where(eq(repos.id, id)).limit(1)
+    return result[0]
+  }
+
+  const getRepoByFullName = async (fullName: string): Promise<Repo | undefined> => {
+    const result = await db.select().from(repos).where(eq(repos.fullName, fullName)).limit(1)
+    return result[0]
+  }
+
+  const createRepo = async (repoData: CreateRepoDto): Promise<Repo> => {
+    const now = new Date().toISOString()
+    const newRepo = {
+      ...repoData,
+      displayName: repoData.displayName || repoData.fullName,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    const result = await db.insert(repos).values(newRepo).returning()
+    return result[0]
+  }
+
+  // 이름이 바뀌면 이전 저장소 기준의 ETag/마지막 release id로 증분 동기화하지 않도록 초기화한다
+  const updateRepo = async (id: number, repoData: UpdateRepoDto): Promise<Repo | undefined> => {
+    const now = new Date().toISOString()
+    const renamed =
+      repoData.fullName !== undefined && (await getRepoById(id))?.fullName !== repoData.fullName
+    const updateData = {
+      ...repoData,
+      ...(renamed ? { etag: null, lastReleaseId: null } : {}),
+      updatedAt: now
+    }
+
+    const result = await db.update(repos).set(updateData).where(eq(repos.id, id)).returning()
+
+    return result[0]
+  }
+
+  // 저장소를 삭제하면 해당 저장소의 릴리즈도 함께 삭제된다 (ON DELETE CASCADE)
+  const deleteRepo = async (id: number): Promise<boolean> => {
+    const result = await db.delete(repos).where(eq(repos.id, id)).returning({ id: repos.id })
+    return result.length > 0
+  }
+
+  return {
+    getAllRepos,
+    getEnabledRepos,
+    getRepoById,
+    getRepoByFullName,
+    createRepo,
+    updateRepo,
+    deleteRepo
+  }
+}
+
+export type RepoService = ReturnType<typeof createRepoService>
@@ -1,48 +1,105 @@
 // server/src/services/userService.ts
-import { eq } from 'drizzle-orm'
+import { and, asc, desc, eq, getTableColumns, or, sql } from 'drizzle-orm'
 import { users } from '../db/schema'
-import { CreateUserDto, UpdateUserDto, User } from '../types'
+import { contains } from '../db/search'
+import { CreateUserDto, UpdateUserDto, User, UserListOptions, UserSortField } from '../types'
 import { Database } from '../types/database'
+import { hashPassword } from '../utils/password'
 
 type UserServiceDeps = {
   db: Database
 }
 
+const { passwordHash: _passwordHash, ...publicColumns } = getTableColumns(users)
+
+// 비밀번호 해시를 제외한 사용자 컬럼 (응답용 select/returning)
+export const userColumns = publicColumns
+
+// 역할은 권한이 높은 순서(ADMIN -> USER -> GUEST)로 정렬한다
+const SORT_COLUMNS = {
+  id: users.id,
+  name: users.name,
+  email: users.email,
+  role: sql`case ${users.role} when 'ADMIN' then 0 when 'USER' then 1 else 2 end`,
+  createdAt: users.createdAt
+} satisfies Record<UserSortField, unknown>
+
+// 평문 비밀번호는 해시로 바꿔 저장한다 (undefined면 기존 비밀번호 유지)
+const withPasswordHash = async <T extends { password?: string }>({ password, ...data }: T) => ({
+  ...data,
+  ...(password === undefined ? {} : { passwordHash: await hashPassword(password) })
+})
+
 export const createUserService = ({ db }: UserServiceDeps) => {
-  const getAllUsers = async (): Promise<User[]> => {
-    return db.select().from(users)
+  // 사용자 목록 (페이지네이션/정렬/검색)
+  const getUsers = async (options: UserListOptions): Promise<{ users: User[]; total: number }> => {
+    const where = and(
+      options.q ? or(contains(users.name, options.q), contains(users.email, options.q)) : undefined,
+      options.role ? eq(users.role, options.role) : undefined
+    )
+    const direction = options.order === 'asc' ? asc : desc
+
+    const [rows, totalRows] = await Promise.all([
+      db
+        .select(userColumns)
+        .from(users)
+        .where(where)
+        .orderBy(direction(SORT_COLUMNS[options.sort]), direction(users.id))
+        .limit(options.limit)
+        .offset((options.page - 1) * options.limit),
+      db
+        .select({ total: sql<number>`count(*)`.mapWith(Number) })
+        .from(users)
+        .where(where)
+    ])
+
+    return { users: rows, total: totalRows[0]?.total ?? 0 }
   }
 
   const getUserById = async (id: number): Promise<User | undefined> => {
-    const result = await db.select().from(users).where(eq(users.id, id)).limit(1)
+    const result = await db.select(userColumns).from(users).where(eq(users.id, id)).limit(1)
     return result[0]
   }
 
   const getUserByEmail = async (email: string): Promise<User | undefined> => {
-    const result = await db.select().from(users).where(eq(users.email, email)).limit(1)
+    const result = await db.select(userColumns).from(users).where(eq(users.email, email)).limit(1)
+    return result[0]
+  }
+
+  // GitHub 로그인은 대소문자를 구분하지 않는다
+  const getUserByGithubLogin = async (githubLogin: string): Promise<User | undefined> => {
+    const result = await db
+      .select(userColumns)
+      .from(users)
+      .where(eq(sql`lower(${users.githubLogin})`, githubLogin.toLowerCase()))
+      .limit(1)
     return result[0]
   }
 
   const createUser = async (userData: CreateUserDto): Promise<User> => {
     const now = new Date().toISOString()
     const newUser = {
-      ...userData,
+      ...(await withPasswordHash(userData)),
       createdAt: now,
       updatedAt: now
     }
 
-    const result = await db.insert(users).values(newUser).returning()
+    const result = await db.insert(users).values(newUser).returning(userColumns)
     return result[0]
   }
 
   const updateUser = async (id: number, userData: UpdateUserDto): Promise<User | undefined> => {
     const now = new Date().toISOString()
     const updateData = {
-      ...userData,
+      ...(await withPasswordHash(userData)),
       updatedAt: now
     }
 
-    const result = await db.update(users).set(updateData).where(eq(users.id, id)).returning()
+    const result = await db
+      .update(users)
+      .set(updateData)
+      .where(eq(users.id, id))
+      .returning(userColumns)
 
     return result[0]
   }
@@ -53,9 +110,10 @@ export const createUserService = ({ db }: UserServiceDeps) => {
   }
 
   return {
-    getAllUsers,
+    getUsers,
     getUserById,
     getUserByEmail,
+    getUserByGithubLogin,
     createUser,
     updateUser,
     deleteUser
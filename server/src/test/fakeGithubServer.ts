@@ -0,0 +1,43 @@
+import { createServer, IncomingHttpHeaders, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+
+export interface RecordedRequest {
+  path: string
+  query: URLSearchParams
+  headers: IncomingHttpHeaders
+}
+
+export type FakeGithubHandler = (request: RecordedRequest, response: ServerResponse) => void
+
+// 테스트용 가짜 GitHub API 서버 (임의 포트에서 열고, 받은 요청을 순서대로 기록한다)
+export async function startFakeGithubServer(handler: FakeGithubHandler) {
+  const requests: RecordedRequest[] = []
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const request = { path: url.pathname, query: url.searchParams, headers: req.headers }
+    requests.push(request)
+    handler(request, res)
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  }
+}
+
+export type FakeGithubServer = Awaited<ReturnType<typeof startFakeGithubServer>>
+
+// JSON 응답 전송
+export function sendJson(
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  response.end(JSON.stringify(body))
+}
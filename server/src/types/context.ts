@@ -1,5 +1,19 @@
 import { UserService } from '../services/userService'
+import { DashboardService } from '../services/dashboardService'
+import { RepoService } from '../services/repoService'
+import { ReleaseService } from '../services/releaseService'
+import { CalendarService } from '../services/calendarService'
+import { DashboardViewService } from '../services/dashboardViewService'
+import { AuthService } from '../services/authService'
+import { ApiTokenService } from '../services/apiTokenService'
 
 export type AppContext = {
   userService: UserService
+  dashboardService: DashboardService
+  repoService: RepoService
+  releaseService: ReleaseService
+  calendarService: CalendarService
+  dashboardViewService: DashboardViewService
+  authService: AuthService
+  apiTokenService: ApiTokenService
 }
@@ -2,3 +2,6 @@ import { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3'
 import * as schema from '../db/schema'
 
 export type Database = BetterSQLite3Database<typeof schema>
+
+// db.transaction 콜백에 전달되는 트랜잭션
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0]
@@ -1,14 +1,47 @@
-import { User, NewUser, UpdateUser } from '../db/schema'
+import {
+  User,
+  NewUser,
+  UpdateUser,
+  Repo,
+  NewRepo,
+  UpdateRepo,
+  CalendarSettings,
+  Holiday,
+  DashboardView,
+  DashboardViewFilters,
+  ApiToken
+} from '../db/schema'
 
 // 사용자 관련 타입
 export { User, NewUser, UpdateUser }
 
+// 저장소 관련 타입
+export { Repo, NewRepo, UpdateRepo }
+
+// 근무 캘린더 관련 타입
+export { CalendarSettings, Holiday }
+
+// 대시보드 뷰 관련 타입
+export { DashboardView, DashboardViewFilters }
+
+// API 토큰 관련 타입
+export { ApiToken }
+
 // API 응답 타입
 export interface ApiResponse<T = any> {
   success: boolean
   data?: T
   error?: string
   message?: string
+  // 요청 스키마 검증에 실패한 필드별 메시지
+  errors?: FieldError[]
+}
+
+// 요청 검증 실패 항목
+export interface FieldError {
+  // 요청 위치 안의 경로 (예: email, filters.repos.0)
+  field: string
+  message: string
 }
 
 // 페이지네이션 응답 타입
@@ -31,6 +64,9 @@ export interface CreateUserDto {
   name: string
   email: string
   role?: UserRole
+  githubLogin?: string | null
+  // 로그인 비밀번호 (평문, 저장 시 해시)
+  password?: string
 }
 
 // 사용자 수정 DTO
@@ -38,4 +74,133 @@ export interface UpdateUserDto {
   name?: string
   email?: string
   role?: UserRole
+  githubLogin?: string | null
+  password?: string
+}
+
+// 사용자 목록 정렬 기준
+export type UserSortField = 'id' | 'name' | 'email' | 'role' | 'createdAt'
+
+// 사용자 목록 조회 옵션 (페이지네이션 + 정렬 + 검색 + 역할 필터)
+export interface UserListOptions {
+  page: number
+  limit: number
+  sort: UserSortField
+  order: 'asc' | 'desc'
+  // 이름/이메일 부분 일치 (대소문자 구분 없음)
+  q?: string
+  role?: UserRole
+}
+
+// 로그인 DTO
+export interface LoginDto {
+  email: string
+  password: string
+}
+
+// API 토큰 권한 범위 (admin:repos는 read:repos를 포함)
+export const API_TOKEN_SCOPES = [
+  'read:stats',
+  'read:releases',
+  'read:repos',
+  'admin:repos'
+] as const
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number]
+
+// API 토큰 생성 DTO
+export interface CreateApiTokenDto {
+  name: string
+  scopes: ApiTokenScope[]
+  // 만료까지 남은 일수
+  expiresInDays: number
+}
+
+// 저장소 생성 DTO
+export interface CreateRepoDto {
+  fullName: string
+  displayName?: string
+  defaultBranch?: string
+  enabled?: boolean
+}
+
+// 저장소 수정 DTO
+export interface UpdateRepoDto {
+  fullName?: string
+  displayName?: string
+  defaultBranch?: string
+  enabled?: boolean
+}
+
+// 근무 캘린더 설정 수정 DTO
+export interface UpdateCalendarDto {
+  weekendDays?: string[]
+  workdayStartHour?: number
+  workdayEndHour?: number
+}
+
+// 공휴일 추가 DTO
+export interface CreateHolidayDto {
+  date: string
+  name?: string
+}
+
+// 대시보드 뷰 생성 DTO
+export interface CreateDashboardViewDto {
+  userId: number
+  name: string
+  filters?: DashboardViewFilters
+  cards?: string[]
+  isDefault?: boolean
+}
+
+// 대시보드 뷰 수정 DTO
+export interface UpdateDashboardViewDto {
+  name?: string
+  filters?: DashboardViewFilters
+  cards?: string[]
+  isDefault?: boolean
+}
+
+// 대시보드 통계 필터
+export interface DashboardFilters {
+  repos?: string[]
+  from?: string
+  to?: string
+  // 요일/날짜 버킷 기준 IANA 시간대 (없으면 서버 기본값)
+  tz?: string
+  // 근무 캘린더의 주말 요일 릴리즈 포함 여부
+  includeWeekends?: boolean
+}
+
+// 대시보드 집계 그룹 기준
+export type DashboardGroupBy = 'repo'
+
+// 대시보드 통계 내보내기 형식
+export type StatsExportFormat = 'csv' | 'json' | 'xlsx'
+
+// 릴리즈 목록 정렬 기준
+export type ReleaseSortField =
+  | 'publishedAt'
+  | 'createdAt'
+  | 'tagName'
+  | 'name'
+  | 'author'
+  | 'leadTime'
+
+// 릴리즈 유형 (대시보드 releaseTypeStats의 Draft / Prerelease / Release)
+export type ReleaseType = 'draft' | 'prerelease' | 'release'
+
+// 릴리즈 목록 조회 옵션 (페이지네이션 + 정렬 + 검색 + 대시보드 필터 + 차트 드릴다운 조건)
+export interface ReleaseListOptions extends DashboardFilters {
+  page: number
+  limit: number
+  sort: ReleaseSortField
+  order: 'asc' | 'desc'
+  q?: string
+  // 작성자 GitHub 로그인 (대소문자 구분 없이 일치)
+  author?: string
+  weekdays?: string[]
+  year?: string
+  month?: string
+  types?: ReleaseType[]
 }
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { AnomalyInput, detectAnomalies } from './anomalies'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+
+// 날짜마다 주어진 수만큼 릴리즈를 만든다
+function releasesOn(dates: string[], counts: number[] = dates.map(() => 1)): AnomalyInput[] {
+  let id = 0
+  return dates.flatMap((date, i) =>
+    Array.from({ length: counts[i] }, (_, j) => {
+      id += 1
+      return {
+        id,
+        repo: 'o/r',
+        tagName: `v1.0.${id}`,
+        publishedAt: `${date}T${String(j).padStart(2, '0')}:00:00.000Z`,
+        date
+      }
+    })
+  )
+}
+
+// 각 날짜가 서로 다른 주에 오도록 7일 간격 월요일로 만든다 (주 단위 burst가 하루 단위와 겹치게)
+const weeklyDates = (count: number) =>
+  Array.from({ length: count }, (_, i) => addDays('2025-01-06', i * 7))
+
+// 첫 날짜부터 간격(일)만큼 이어지는 날짜
+const datesAfterGaps = (gaps: number[]) =>
+  gaps.reduce((dates, gap) => [...dates, addDays(dates[dates.length - 1], gap)], ['2025-01-01'])
+
+const burstsOf = (counts: number[]) =>
+  detectAnomalies(releasesOn(weeklyDates(counts.length), counts)).filter(a => a.kind === 'burst')
+
+const droughtsOf = (gaps: number[]) =>
+  detectAnomalies(releasesOn(datesAfterGaps(gaps))).filter(a => a.kind === 'drought')
+
+describe('detectAnomalies', () => {
+  it('활동일이 5일 미만인 저장소는 판단하지 않는다', () => {
+    expect(detectAnomalies(releasesOn(weeklyDates(4), [1, 1, 1, 20]))).toEqual([])
+  })
+
+  describe('burst', () => {
+    it('Z 점수 2, 3, 4 경계에서 low, medium, high', () => {
+      // 평균 2, 표준편차 2/3/4가 되도록 1건인 날 사이에 한 날만 몰아 둔다
+      const low = burstsOf([1, 1, 1, 1, 6])
+      expect(low).toHaveLength(1)
+      expect(low[0]).toMatchObject({
+        period: 'day',
+        start: '2025-02-03',
+        end: '2025-02-03',
+        severity: 'low',
+        value: 6,
+        baseline: 2
+      })
+      expect(low[0].releases).toHaveLength(6)
+
+      expect(burstsOf([...Array(9).fill(1), 11])[0].severity).toBe('medium')
+      expect(burstsOf([...Array(16).fill(1), 18])[0].severity).toBe('high')
+    })
+
+    it('Z 점수 2 미만이면 burst가 아니다', () => {
+      expect(burstsOf([1, 1, 1, 3, 3])).toEqual([])
+    })
+
+    it('Z 점수가 높아도 릴리즈가 3건 미만이면 burst가 아니다', () => {
+      expect(burstsOf([...Array(16).fill(1), 2])).toEqual([])
+    })
+
+    it('하루 단위 burst로 잡힌 주는 주 단위로 다시 보고하지 않는다', () => {
+      const bursts = burstsOf([1, 1, 1, 1, 6])
+      expect(bursts.map(burst => burst.period)).toEqual(['day'])
+    })
+  })
+
+  describe('drought', () => {
+    it('공백이 14일 미만이면 평소의 몇 배여도 drought가 아니다', () => {
+      expect(droughtsOf([1, 1, 1, 1, 1, 13])).toEqual([])
+
+      const droughts = droughtsOf([1, 1, 1, 1, 1, 14])
+      expect(droughts).toHaveLength(1)
+      expect(droughts[0]).toMatchObject({
+        period: null,
+        start: '2025-01-06',
+        end: '2025-01-20',
+        severity: 'medium',
+        value: 14,
+        baseline: 1
+      })
+      expect(droughts[0].releases.map(release => release.publishedAt)).toEqual([
+        '2025-01-06T00:00:00.000Z',
+        '2025-01-20T00:00:00.000Z'
+      ])
+    })
+
+    it('평소 간격의 4, 8, 16배 경계에서 low, medium, high', () => {
+      const usual = Array(9).fill(4)
+
+      expect(droughtsOf([...usual, 16, 32, 64]).map(d => [d.value, d.severity])).toEqual([
+        [64, 'high'],
+        [32, 'medium'],
+        [16, 'low']
+      ])
+      expect(droughtsOf([...usual, 15, 31, 63]).map(d => [d.value, d.severity])).toEqual([
+        [63, 'medium'],
+        [31, 'low']
+      ])
+    })
+  })
+})
@@ -0,0 +1,178 @@
+// 릴리즈 특이점(anomaly) 탐지
+// - burst: 저장소의 평소보다 하루/한 주에 릴리즈가 몰린 구간 (예: 하루에 핫픽스 패치 여러 건)
+// - drought: 저장소의 평소 릴리즈 주기보다 훨씬 긴 공백
+// 평소 수준은 저장소마다 따로 계산한다. 모노레포는 한 번에 여러 패키지를 배포하므로 기준이 다르다.
+
+export type AnomalyKind = 'burst' | 'drought'
+export type AnomalySeverity = 'low' | 'medium' | 'high'
+
+export interface AnomalyRelease {
+  id: number
+  tagName: string
+  publishedAt: string
+}
+
+export interface Anomaly {
+  kind: AnomalyKind
+  // burst 집계 단위 (drought는 null)
+  period: 'day' | 'week' | null
+  repo: string
+  // 보고 시간대 기준 날짜 (YYYY-MM-DD). week burst는 주의 월요일부터 일요일까지
+  start: string
+  end: string
+  severity: AnomalySeverity
+  // burst: 릴리즈 수, drought: 공백 일수
+  value: number
+  // burst: 평소 릴리즈 수(릴리즈가 있던 날/주의 평균), drought: 평소 간격(릴리즈가 있던 날 사이 중앙값)
+  baseline: number
+  releases: AnomalyRelease[]
+}
+
+export interface AnomalyInput extends AnomalyRelease {
+  repo: string
+  // 보고 시간대 기준 날짜 (YYYY-MM-DD)
+  date: string
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// 통계를 낼 최소 활동일 수 (이보다 적으면 평소 수준을 판단하지 않는다)
+const MIN_ACTIVE_DAYS = 5
+// burst: 평균 + 표준편차 * Z 이상, 그리고 최소 릴리즈 수 이상
+const BURST_MIN_RELEASES = 3
+const BURST_SEVERITY_Z: [number, AnomalySeverity][] = [
+  [4, 'high'],
+  [3, 'medium'],
+  [2, 'low']
+]
+// drought: 평소 간격의 N배 이상, 그리고 최소 공백 일수 이상
+const DROUGHT_MIN_DAYS = 14
+const DROUGHT_SEVERITY_RATIO: [number, AnomalySeverity][] = [
+  [16, 'high'],
+  [8, 'medium'],
+  [4, 'low']
+]
+
+const SEVERITY_ORDER: Record<AnomalySeverity, number> = { high: 0, medium: 1, low: 2 }
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+const toTime = (date: string) => new Date(`${date}T00:00:00Z`).getTime()
+const fromTime = (time: number) => new Date(time).toISOString().slice(0, 10)
+
+// 날짜가 속한 주의 월요일
+const weekStart = (date: string) => {
+  const time = toTime(date)
+  return fromTime(time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS)
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+const severityOf = (score: number, levels: [number, AnomalySeverity][]) =>
+  levels.find(([min]) => score >= min)?.[1] ?? null
+
+const toRelease = ({ id, tagName, publishedAt }: AnomalyInput): AnomalyRelease => ({
+  id,
+  tagName,
+  publishedAt
+})
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const k = key(item)
+    const group = groups.get(k)
+    if (group) group.push(item)
+    else groups.set(k, [item])
+  }
+  return groups
+}
+
+// 릴리즈가 있던 날(또는 주)의 릴리즈 수 분포에서 튀는 구간
+function detectBursts(
+  repo: string,
+  buckets: Map<string, AnomalyInput[]>,
+  period: 'day' | 'week'
+): Anomaly[] {
+  const counts = [...buckets.values()].map(items => items.length)
+  const mean = counts.reduce((sum, count) => sum + count, 0) / counts.length
+  const std = Math.sqrt(counts.reduce((sum, count) => sum + (count - mean) ** 2, 0) / counts.length)
+  if (std === 0) return []
+
+  const anomalies: Anomaly[] = []
+  for (const [start, items] of buckets) {
+    if (items.length < BURST_MIN_RELEASES) continue
+    const severity = severityOf((items.length - mean) / std, BURST_SEVERITY_Z)
+    if (!severity) continue
+    anomalies.push({
+      kind: 'burst',
+      period,
+      repo,
+      start,
+      end: period === 'day' ? start : fromTime(toTime(start) + 6 * DAY_MS),
+      severity,
+      value: items.length,
+      baseline: round1(mean),
+      releases: items.map(toRelease)
+    })
+  }
+  return anomalies
+}
+
+// 릴리즈가 있던 날 사이의 공백이 평소보다 훨씬 긴 구간
+function detectDroughts(repo: string, days: Map<string, AnomalyInput[]>): Anomaly[] {
+  const dates = [...days.keys()].sort()
+  const gaps = dates.slice(1).map((date, i) => (toTime(date) - toTime(dates[i])) / DAY_MS)
+  const usual = median(gaps)
+
+  const anomalies: Anomaly[] = []
+  gaps.forEach((gap, i) => {
+    if (gap < DROUGHT_MIN_DAYS) return
+    const severity = severityOf(gap / Math.max(usual, 1), DROUGHT_SEVERITY_RATIO)
+    if (!severity) return
+    const before = days.get(dates[i])!
+    const after = days.get(dates[i + 1])!
+    anomalies.push({
+      kind: 'drought',
+      period: null,
+      repo,
+      start: dates[i],
+      end: dates[i + 1],
+      severity,
+      value: gap,
+      baseline: round1(usual),
+      // 공백 직전 마지막 릴리즈와 공백을 끝낸 첫 릴리즈
+      releases: [before[before.length - 1], after[0]].map(toRelease)
+    })
+  })
+  return anomalies
+}
+
+// 배포 시각 순으로 정렬된 릴리즈 -> 특이점 목록 (심각도, 최신 순)
+export function detectAnomalies(rows: AnomalyInput[]): Anomaly[] {
+  const anomalies: Anomaly[] = []
+
+  for (const [repo, repoRows] of groupBy(rows, row => row.repo)) {
+    const days = groupBy(repoRows, row => row.date)
+    if (days.size < MIN_ACTIVE_DAYS) continue
+
+    const dailyBursts = detectBursts(repo, days, 'day')
+    // 이미 하루 단위 burst로 잡힌 주는 주 단위에서 중복으로 보고하지 않는다
+    const flaggedWeeks = new Set(dailyBursts.map(burst => weekStart(burst.start)))
+    const weeks = groupBy(repoRows, row => weekStart(row.date))
+    const weeklyBursts = detectBursts(repo, weeks, 'week').filter(
+      burst => !flaggedWeeks.has(burst.start)
+    )
+
+    anomalies.push(...dailyBursts, ...weeklyBursts, ...detectDroughts(repo, days))
+  }
+
+  return anomalies.sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.start.localeCompare(a.start)
+  )
+}
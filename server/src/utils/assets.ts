@@ -0,0 +1,51 @@
+// 릴리즈 첨부파일(asset) 이름에서 플랫폼과 파일 형식 추정
+
+export type AssetPlatform = 'macos' | 'windows' | 'linux' | 'android' | 'ios' | 'checksum' | 'any'
+
+// 확장자가 두 단계인 아카이브
+const COMPOUND_EXTENSIONS = ['tar.gz', 'tar.xz', 'tar.bz2', 'tar.zst']
+
+// 파일 이름 토큰 / 확장자 -> 플랫폼 (위에서부터 먼저 일치하는 것)
+const PLATFORM_RULES: [AssetPlatform, { tokens: string[]; extensions: string[] }][] = [
+  [
+    'checksum',
+    {
+      tokens: ['checksums', 'checksum', 'sha256sums'],
+      extensions: ['sha256', 'sha512', 'sha1', 'md5', 'sig', 'asc', 'pem']
+    }
+  ],
+  ['android', { tokens: ['android'], extensions: ['apk', 'aab'] }],
+  ['ios', { tokens: ['ios'], extensions: ['ipa'] }],
+  ['macos', { tokens: ['darwin', 'mac', 'macos', 'osx', 'apple'], extensions: ['dmg', 'pkg'] }],
+  ['windows', { tokens: ['windows', 'win', 'win32', 'win64'], extensions: ['exe', 'msi', 'msix'] }],
+  [
+    'linux',
+    { tokens: ['linux', 'musl', 'gnu'], extensions: ['deb', 'rpm', 'appimage', 'snap', 'flatpak'] }
+  ]
+]
+
+export function assetFileType(name: string): string {
+  const lower = name.toLowerCase()
+  const compound = COMPOUND_EXTENSIONS.find(ext => lower.endsWith(`.${ext}`))
+  if (compound) return compound
+  const dot = lower.lastIndexOf('.')
+  return dot > 0 ? lower.slice(dot + 1) : ''
+}
+
+export function assetPlatform(name: string): AssetPlatform {
+  const lower = name.toLowerCase()
+  const tokens = new Set(lower.split(/[-_.\s]+/))
+  const fileType = assetFileType(name)
+  const found = PLATFORM_RULES.find(
+    ([, rule]) => rule.tokens.some(token => tokens.has(token)) || rule.extensions.includes(fileType)
+  )
+  return found ? found[0] : 'any'
+}
+
+// release_assets 테이블에 저장하는 파생 컬럼
+export function assetColumns(name: string) {
+  return {
+    platform: assetPlatform(name),
+    fileType: assetFileType(name)
+  }
+}
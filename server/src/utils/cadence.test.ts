@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { gapHistogram, releaseGaps, rollingIntervalSeries, summarizeGaps } from './cadence'
+
+const release = (repo: string, publishedAt: string) => ({
+  repo,
+  publishedAt,
+  date: publishedAt.slice(0, 10)
+})
+
+describe('releaseGaps', () => {
+  it('저장소별 연속 릴리즈 사이의 일수만 계산한다', () => {
+    const gaps = releaseGaps([
+      release('o/a', '2025-01-01T00:00:00Z'),
+      release('o/a', '2025-01-03T12:00:00Z'),
+      release('o/b', '2025-01-02T00:00:00Z'),
+      release('o/b', '2025-01-09T00:00:00Z')
+    ])
+
+    expect(gaps).toEqual([
+      { repo: 'o/a', date: '2025-01-03', days: 2.5 },
+      { repo: 'o/b', date: '2025-01-09', days: 7 }
+    ])
+  })
+
+  it('릴리즈가 하나뿐이면 간격이 없다', () => {
+    expect(releaseGaps([release('o/a', '2025-01-01T00:00:00Z')])).toEqual([])
+  })
+})
+
+describe('summarizeGaps', () => {
+  it('릴리즈가 하나뿐이라 간격이 없으면 통계는 모두 null', () => {
+    const days = releaseGaps([release('o/a', '2025-01-01T00:00:00Z')]).map(gap => gap.days)
+
+    expect(summarizeGaps(days)).toEqual({
+      count: 0,
+      mean: null,
+      median: null,
+      p90: null,
+      min: null,
+      max: null
+    })
+  })
+
+  it('간격이 하나면 모든 백분위수가 그 값이다', () => {
+    expect(summarizeGaps([4.25])).toEqual({
+      count: 1,
+      mean: 4.3,
+      median: 4.3,
+      p90: 4.3,
+      min: 4.3,
+      max: 4.3
+    })
+  })
+
+  it('백분위수는 선형 보간한다', () => {
+    expect(summarizeGaps([10, 1, 4, 2])).toEqual({
+      count: 4,
+      mean: 4.3,
+      median: 3,
+      p90: 8.2,
+      min: 1,
+      max: 10
+    })
+  })
+})
+
+describe('rollingIntervalSeries', () => {
+  it('주 단위로 직전 30/90일 간격 평균을 내고 마지막 간격 날짜에서 끝난다', () => {
+    const series = rollingIntervalSeries([
+      { repo: 'o/a', date: '2025-01-01', days: 2 },
+      { repo: 'o/a', date: '2025-01-10', days: 9 },
+      { repo: 'o/a', date: '2025-03-01', days: 50 }
+    ])
+
+    expect(series[0]).toEqual({ date: '2025-01-01', rolling30: 2, rolling90: 2 })
+    expect(series[2]).toEqual({ date: '2025-01-15', rolling30: 5.5, rolling90: 5.5 })
+    expect(series.at(-1)).toEqual({ date: '2025-03-01', rolling30: 50, rolling90: 20.3 })
+  })
+
+  it('간격이 없으면 빈 시리즈', () => {
+    expect(rollingIntervalSeries([])).toEqual([])
+  })
+})
+
+describe('gapHistogram', () => {
+  it('구간 하한은 포함하고 상한은 제외한다', () => {
+    const histogram = gapHistogram([0, 0.9, 1, 6.9, 7, 90, 400])
+
+    expect(histogram.map(bucket => [bucket.minDays, bucket.maxDays, bucket.count])).toEqual([
+      [0, 1, 2],
+      [1, 3, 1],
+      [3, 7, 1],
+      [7, 14, 1],
+      [14, 30, 0],
+      [30, 60, 0],
+      [60, 90, 0],
+      [90, null, 2]
+    ])
+  })
+})
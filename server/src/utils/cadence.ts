@@ -0,0 +1,125 @@
+// 릴리즈 주기(간격) 통계
+// 간격은 같은 저장소 안에서 연속된 두 릴리즈 사이의 일수(소수)로 계산한다.
+// 여러 저장소의 릴리즈를 한 줄로 섞으면 간격이 실제보다 짧아지므로 저장소별로 나눠 계산한다.
+
+export interface ReleaseGap {
+  repo: string
+  // 간격이 끝나는(뒤쪽) 릴리즈의 보고 시간대 기준 날짜 (YYYY-MM-DD)
+  date: string
+  days: number
+}
+
+export interface GapSummary {
+  count: number
+  mean: number | null
+  median: number | null
+  p90: number | null
+  min: number | null
+  max: number | null
+}
+
+export interface RollingIntervalPoint {
+  date: string
+  rolling30: number | null
+  rolling90: number | null
+}
+
+export interface GapHistogramBucket {
+  minDays: number
+  // null이면 상한 없음
+  maxDays: number | null
+  count: number
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// 히스토그램 구간 경계 (일)
+const HISTOGRAM_BOUNDS = [0, 1, 3, 7, 14, 30, 60, 90]
+
+// 롤링 시리즈 간격 (일)
+const ROLLING_STEP_DAYS = 7
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+
+// 정렬된 값에서 선형 보간 백분위수
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p
+  const lower = Math.floor(index)
+  const upper = Math.ceil(index)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower)
+}
+
+// 저장소 + 배포 시각 순으로 정렬된 릴리즈 -> 저장소별 연속 간격
+export function releaseGaps(
+  rows: { repo: string; publishedAt: string; date: string }[]
+): ReleaseGap[] {
+  const gaps: ReleaseGap[] = []
+  for (let i = 1; i < rows.length; i++) {
+    const prev = rows[i - 1]
+    const current = rows[i]
+    if (prev.repo !== current.repo) continue
+    gaps.push({
+      repo: current.repo,
+      date: current.date,
+      days: (Date.parse(current.publishedAt) - Date.parse(prev.publishedAt)) / DAY_MS
+    })
+  }
+  return gaps
+}
+
+export function summarizeGaps(days: number[]): GapSummary {
+  if (!days.length) {
+    return { count: 0, mean: null, median: null, p90: null, min: null, max: null }
+  }
+  const sorted = [...days].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    mean: round1(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    median: round1(percentile(sorted, 0.5)),
+    p90: round1(percentile(sorted, 0.9)),
+    min: round1(sorted[0]),
+    max: round1(sorted[sorted.length - 1])
+  }
+}
+
+// 주 단위 시점마다 직전 30/90일 안에 끝난 간격의 평균 (해당 기간에 간격이 없으면 null)
+export function rollingIntervalSeries(gaps: ReleaseGap[]): RollingIntervalPoint[] {
+  if (!gaps.length) return []
+  const sorted = [...gaps].sort((a, b) => a.date.localeCompare(b.date))
+  const first = sorted[0].date
+  const last = sorted[sorted.length - 1].date
+
+  const average = (since: string, until: string) => {
+    const inWindow = sorted.filter(gap => gap.date > since && gap.date <= until)
+    return inWindow.length
+      ? round1(inWindow.reduce((sum, gap) => sum + gap.days, 0) / inWindow.length)
+      : null
+  }
+
+  const points: RollingIntervalPoint[] = []
+  for (let date = first; ; date = addDays(date, ROLLING_STEP_DAYS)) {
+    // 마지막 시점은 항상 마지막 간격 날짜로 맞춘다
+    const point = date < last ? date : last
+    points.push({
+      date: point,
+      rolling30: average(addDays(point, -30), point),
+      rolling90: average(addDays(point, -90), point)
+    })
+    if (point === last) break
+  }
+  return points
+}
+
+export function gapHistogram(days: number[]): GapHistogramBucket[] {
+  return HISTOGRAM_BOUNDS.map((minDays, i) => {
+    const maxDays = HISTOGRAM_BOUNDS[i + 1] ?? null
+    return {
+      minDays,
+      maxDays,
+      count: days.filter(d => d >= minDays && (maxDays === null || d < maxDays)).length
+    }
+  })
+}
@@ -0,0 +1,255 @@
+import {
+  DashboardFilters,
+  DashboardGroupBy,
+  DashboardViewFilters,
+  FieldError,
+  ReleaseListOptions,
+  ReleaseSortField,
+  ReleaseType,
+  StatsExportFormat,
+  UserListOptions,
+  UserRole,
+  UserSortField
+} from '../types'
+import { isValidTimeZone } from './timezone'
+import { WEEKDAY_NAMES } from './workingCalendar'
+
+// 대시보드 필터 쿼리스트링
+export interface DashboardFilterQuery {
+  repo?: string | string[]
+  from?: string
+  to?: string
+  tz?: string
+  includeWeekends?: string
+}
+
+// 대시보드 통계 쿼리스트링 (필터 + 그룹 기준)
+export interface DashboardStatsQuery extends DashboardFilterQuery {
+  groupBy?: string
+}
+
+// 대시보드 통계 내보내기 쿼리스트링 (통계 쿼리 + 파일 형식)
+export interface DashboardExportQuery extends DashboardStatsQuery {
+  format?: string
+}
+
+// 릴리즈 목록 쿼리스트링 (page/limit은 라우트 스키마에서 정수로 변환된다)
+export interface ReleaseListQuery extends DashboardFilterQuery {
+  page?: number
+  limit?: number
+  sort?: ReleaseSortField
+  order?: ReleaseListOptions['order']
+  q?: string
+  author?: string
+  weekday?: string | string[]
+  year?: string
+  month?: string
+  type?: string | string[]
+}
+
+// 사용자 목록 쿼리스트링 (page/limit은 라우트 스키마에서 정수로 변환된다)
+export interface UserListQuery {
+  page?: number
+  limit?: number
+  sort?: UserSortField
+  order?: UserListOptions['order']
+  q?: string
+  role?: UserRole
+}
+
+// 실패하면 createValidationErrorResponse로 내려줄 필드 에러를 담는다
+type ParseResult<T> = { ok: true; value: T } | { ok: false; error: FieldError }
+
+const invalid = (field: string, message: string): { ok: false; error: FieldError } => ({
+  ok: false,
+  error: { field, message }
+})
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// 형식뿐 아니라 실제로 있는 날짜인지 확인 (2024-02-30처럼 다음 달로 넘어가는 값은 거부)
+export const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+// 반복 지정(?repo=a&repo=b)과 콤마 구분(?repo=a,b)을 모두 허용
+export function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return []
+  const values = Array.isArray(value) ? value : [value]
+  return values
+    .flatMap(v => v.split(','))
+    .map(v => v.trim())
+    .filter(Boolean)
+}
+
+// true/false 쿼리 파라미터 (없으면 undefined, 형식이 틀리면 null)
+const parseBoolean = (value: string | undefined): boolean | undefined | null => {
+  if (value === undefined || value === '') return undefined
+  if (value === 'true' || value === '1') return true
+  if (value === 'false' || value === '0') return false
+  return null
+}
+
+// 쿼리스트링 -> 대시보드 필터
+export function parseDashboardFilters(query: DashboardFilterQuery): ParseResult<DashboardFilters> {
+  const { from, to, tz } = query
+  const includeWeekends = parseBoolean(query.includeWeekends)
+
+  if (from !== undefined && !isValidDate(from)) {
+    return invalid('from', '실제로 있는 날짜(YYYY-MM-DD)여야 합니다.')
+  }
+  if (to !== undefined && !isValidDate(to)) {
+    return invalid('to', '실제로 있는 날짜(YYYY-MM-DD)여야 합니다.')
+  }
+  if (from && to && from > to) {
+    return invalid('from', 'to보다 늦을 수 없습니다.')
+  }
+
+  if (tz !== undefined && tz !== '' && !isValidTimeZone(tz)) {
+    return invalid('tz', '유효한 IANA 시간대 이름이어야 합니다. (예: Asia/Seoul)')
+  }
+
+  if (includeWeekends === null) {
+    return invalid('includeWeekends', 'true 또는 false여야 합니다.')
+  }
+
+  return {
+    ok: true,
+    value: { repos: toList(query.repo), from, to, tz: tz || undefined, includeWeekends }
+  }
+}
+
+// 저장된 대시보드 뷰의 필터(JSON 본문) -> 대시보드 필터
+// 쿼리스트링과 같은 규칙으로 검증한다
+export function parseViewFilters(value: unknown): ParseResult<DashboardViewFilters> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return invalid('filters', '객체 값이어야 합니다.')
+  }
+  const { repos, from, to, tz, includeWeekends } = value as Record<string, unknown>
+
+  if (repos !== undefined && (!Array.isArray(repos) || repos.some(r => typeof r !== 'string'))) {
+    return invalid('filters.repos', '문자열 배열이어야 합니다.')
+  }
+  const notString = Object.entries({ from, to, tz }).find(
+    ([, v]) => v !== undefined && typeof v !== 'string'
+  )
+  if (notString) {
+    return invalid(`filters.${notString[0]}`, '문자열 값이어야 합니다.')
+  }
+  if (includeWeekends !== undefined && typeof includeWeekends !== 'boolean') {
+    return invalid('filters.includeWeekends', 'true 또는 false여야 합니다.')
+  }
+
+  const parsed = parseDashboardFilters({
+    repo: repos as string[] | undefined,
+    from: (from as string | undefined) || undefined,
+    to: (to as string | undefined) || undefined,
+    tz: tz as string | undefined,
+    includeWeekends: includeWeekends === undefined ? undefined : String(includeWeekends)
+  })
+  if (!parsed.ok) return invalid(`filters.${parsed.error.field}`, parsed.error.message)
+  return { ok: true, value: { ...parsed.value, repos: [...new Set(parsed.value.repos)] } }
+}
+
+export const GROUP_BY_VALUES: DashboardGroupBy[] = ['repo']
+
+// groupBy 쿼리 파라미터 검증
+export function parseGroupBy(value: string | undefined): ParseResult<DashboardGroupBy | null> {
+  if (value === undefined || value === '') return { ok: true, value: null }
+  if (!GROUP_BY_VALUES.includes(value as DashboardGroupBy)) {
+    return invalid('groupBy', `${GROUP_BY_VALUES.join(', ')} 중 하나여야 합니다.`)
+  }
+  return { ok: true, value: value as DashboardGroupBy }
+}
+
+export const EXPORT_FORMATS: StatsExportFormat[] = ['csv', 'json', 'xlsx']
+
+// format 쿼리 파라미터 검증 (없으면 csv)
+export function parseExportFormat(value: string | undefined): ParseResult<StatsExportFormat> {
+  if (value === undefined || value === '') return { ok: true, value: 'csv' }
+  if (!EXPORT_FORMATS.includes(value as StatsExportFormat)) {
+    return invalid('format', `${EXPORT_FORMATS.join(', ')} 중 하나여야 합니다.`)
+  }
+  return { ok: true, value: value as StatsExportFormat }
+}
+
+// 목록 쿼리에서 허용하는 값 (라우트 스키마의 enum/maximum으로 검증한다)
+export const SORT_ORDERS: ReleaseListOptions['order'][] = ['asc', 'desc']
+
+export const RELEASE_SORT_FIELDS: ReleaseSortField[] = [
+  'publishedAt',
+  'createdAt',
+  'tagName',
+  'name',
+  'author',
+  'leadTime'
+]
+const RELEASE_TYPES: ReleaseType[] = ['draft', 'prerelease', 'release']
+const DEFAULT_RELEASE_LIMIT = 20
+export const MAX_RELEASE_LIMIT = 100
+
+export const USER_SORT_FIELDS: UserSortField[] = ['id', 'name', 'email', 'role', 'createdAt']
+const DEFAULT_USER_LIMIT = 20
+export const MAX_USER_LIMIT = 100
+
+// 쿼리스트링 -> 릴리즈 목록 조회 옵션
+// page/limit/sort/order의 형식과 범위는 라우트 스키마에서 검증하고 여기서는 기본값만 채운다
+export function parseReleaseListQuery(query: ReleaseListQuery): ParseResult<ReleaseListOptions> {
+  const filters = parseDashboardFilters(query)
+  if (!filters.ok) return filters
+
+  const page = query.page ?? 1
+  const limit = query.limit ?? DEFAULT_RELEASE_LIMIT
+  const sort = query.sort ?? 'publishedAt'
+  const order = query.order ?? 'desc'
+
+  // 차트 드릴다운 조건 (요일/연도/월/유형)
+  const weekdays = toList(query.weekday)
+  const invalidWeekday = weekdays.find(weekday => !WEEKDAY_NAMES.includes(weekday))
+  if (invalidWeekday) {
+    return invalid('weekday', `${WEEKDAY_NAMES.join(', ')} 중 하나여야 합니다.`)
+  }
+  const { year, month } = query
+  if (year !== undefined && !/^\d{4}$/.test(year)) {
+    return invalid('year', 'YYYY 형식이어야 합니다.')
+  }
+  if (month !== undefined && !/^(0?[1-9]|1[0-2])$/.test(month)) {
+    return invalid('month', '1~12 사이의 숫자여야 합니다.')
+  }
+  const types = toList(query.type).map(type => type.toLowerCase())
+  if (types.some(type => !RELEASE_TYPES.includes(type as ReleaseType))) {
+    return invalid('type', `${RELEASE_TYPES.join(', ')} 중 하나여야 합니다.`)
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...filters.value,
+      page,
+      limit,
+      sort,
+      order,
+      q: query.q?.trim() || undefined,
+      author: query.author?.trim() || undefined,
+      weekdays,
+      year,
+      month: month?.padStart(2, '0'),
+      types: types as ReleaseType[]
+    }
+  }
+}
+
+// 쿼리스트링 -> 사용자 목록 조회 옵션
+// 값의 형식과 범위는 라우트 스키마에서 검증하고 여기서는 기본값만 채운다
+export function parseUserListQuery(query: UserListQuery): UserListOptions {
+  return {
+    page: query.page ?? 1,
+    limit: query.limit ?? DEFAULT_USER_LIMIT,
+    sort: query.sort ?? 'id',
+    order: query.order ?? 'asc',
+    q: query.q?.trim() || undefined,
+    role: query.role
+  }
+}
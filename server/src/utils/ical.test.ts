@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { parseIcalHolidays } from './ical'
+
+const calendar = (...events: string[][]) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR'
+  ].join('\r\n')
+
+describe('parseIcalHolidays', () => {
+  it('종일 일정의 DTEND는 배타적이라 종료일 전날까지만 펼친다', () => {
+    const ics = calendar(
+      ['DTSTART;VALUE=DATE:20250101', 'DTEND;VALUE=DATE:20250102', 'SUMMARY:신정'],
+      ['DTSTART;VALUE=DATE:20250128', 'DTEND;VALUE=DATE:20250131', 'SUMMARY:설날 연휴']
+    )
+
+    expect(parseIcalHolidays(ics)).toEqual([
+      { date: '2025-01-01', name: '신정' },
+      { date: '2025-01-28', name: '설날 연휴' },
+      { date: '2025-01-29', name: '설날 연휴' },
+      { date: '2025-01-30', name: '설날 연휴' }
+    ])
+  })
+
+  it('DTEND가 없거나 시작일과 같으면 하루짜리 일정', () => {
+    const ics = calendar(
+      ['DTSTART;VALUE=DATE:20250301', 'SUMMARY:삼일절'],
+      ['DTSTART:20250505T000000Z', 'DTEND:20250505T000000Z', 'SUMMARY:어린이날']
+    )
+
+    expect(parseIcalHolidays(ics)).toEqual([
+      { date: '2025-03-01', name: '삼일절' },
+      { date: '2025-05-05', name: '어린이날' }
+    ])
+  })
+
+  it('월말과 연말을 넘기는 일정도 날짜를 올바르게 넘긴다', () => {
+    const ics = calendar([
+      'DTSTART;VALUE=DATE:20241231',
+      'DTEND;VALUE=DATE:20250102',
+      'SUMMARY:연말연시'
+    ])
+
+    expect(parseIcalHolidays(ics).map(h => h.date)).toEqual(['2024-12-31', '2025-01-01'])
+  })
+
+  it('잘못된 DTEND로 인한 펼침은 31일에서 멈춘다', () => {
+    const ics = calendar([
+      'DTSTART;VALUE=DATE:20250101',
+      'DTEND;VALUE=DATE:20260101',
+      'SUMMARY:잘못된 일정'
+    ])
+
+    const holidays = parseIcalHolidays(ics)
+    expect(holidays).toHaveLength(31)
+    expect(holidays.at(-1)?.date).toBe('2025-01-31')
+  })
+
+  it('접힌 줄과 이스케이프를 풀고 같은 날짜의 이름은 합친다', () => {
+    const ics = calendar(
+      ['DTSTART;VALUE=DATE:20251006', 'SUMMARY:추석\\, 연', ' 휴'],
+      ['DTSTART;VALUE=DATE:20251006', 'SUMMARY:대체공휴일']
+    )
+
+    expect(parseIcalHolidays(ics)).toEqual([{ date: '2025-10-06', name: '추석, 연휴, 대체공휴일' }])
+  })
+})
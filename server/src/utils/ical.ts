@@ -0,0 +1,71 @@
+// iCalendar(.ics) 공휴일 파서
+// VEVENT의 DTSTART/DTEND/SUMMARY만 읽는다. 종일 일정의 DTEND는 배타적(다음 날)이므로
+// 여러 날에 걸친 일정은 시작일부터 종료 전날까지 하루씩 펼친다.
+
+export interface IcalHoliday {
+  // YYYY-MM-DD
+  date: string
+  name: string
+}
+
+// 한 번에 펼칠 수 있는 최대 일수 (잘못된 DTEND로 인한 폭주 방지)
+const MAX_EVENT_DAYS = 31
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})/
+
+// 줄 접기(RFC 5545 3.1) 해제: CRLF 뒤의 공백/탭으로 시작하는 줄은 앞 줄에 이어 붙인다
+const unfoldLines = (ics: string) => ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? ' ' : ch))
+
+// DTSTART;VALUE=DATE:20250101 / DTSTART:20250101T000000Z -> 2025-01-01
+const toDate = (value: string | undefined): string | null => {
+  const match = value ? DATE_VALUE.exec(value) : null
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().slice(0, 10)
+}
+
+export function parseIcalHolidays(ics: string): IcalHoliday[] {
+  const holidays = new Map<string, string>()
+  let event: Record<string, string> | null = null
+
+  for (const line of unfoldLines(ics)) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {}
+      continue
+    }
+    if (line === 'END:VEVENT') {
+      const start = toDate(event?.DTSTART)
+      if (event && start) {
+        const end = toDate(event.DTEND)
+        const name = unescapeText(event.SUMMARY ?? '').trim()
+        let date = start
+        for (let i = 0; i < MAX_EVENT_DAYS && (i === 0 || (end && date < end)); i++) {
+          // 같은 날짜가 여러 번 나오면 이름을 합친다 (예: 대체공휴일과 겹치는 경우)
+          const existing = holidays.get(date)
+          holidays.set(date, existing && existing !== name ? `${existing}, ${name}` : name)
+          date = addDays(date, 1)
+        }
+      }
+      event = null
+      continue
+    }
+    if (!event) continue
+
+    // NAME;PARAM=...:VALUE
+    const colon = line.indexOf(':')
+    if (colon < 0) continue
+    const key = line.slice(0, colon).split(';')[0].toUpperCase()
+    event[key] = line.slice(colon + 1)
+  }
+
+  return [...holidays.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, name]) => ({ date, name }))
+}
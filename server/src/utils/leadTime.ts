@@ -0,0 +1,35 @@
+// 릴리즈 리드 타임(created_at -> published_at) 통계 (분 단위)
+// GitHub Release의 created_at은 릴리즈(드래프트)가 만들어진 시각, published_at은 공개된 시각이다.
+
+export interface LeadTimeHistogramBucket {
+  minMinutes: number
+  // null이면 상한 없음
+  maxMinutes: number | null
+  count: number
+}
+
+const HOUR = 60
+const DAY = 24 * HOUR
+
+// 히스토그램 구간 경계: 1분, 1시간, 1일, 3일, 7일, 30일
+const HISTOGRAM_BOUNDS = [0, 1, HOUR, DAY, 3 * DAY, 7 * DAY, 30 * DAY]
+
+// 드래프트로 오래 머문 릴리즈 판정: 저장소 P90의 N배 이상, 그리고 최소 기간(7일) 이상
+const LONG_DRAFT_P90_FACTOR = 3
+export const LONG_DRAFT_MIN_MINUTES = 7 * DAY
+
+export function leadTimeHistogram(minutes: number[]): LeadTimeHistogramBucket[] {
+  return HISTOGRAM_BOUNDS.map((minMinutes, i) => {
+    const maxMinutes = HISTOGRAM_BOUNDS[i + 1] ?? null
+    return {
+      minMinutes,
+      maxMinutes,
+      count: minutes.filter(m => m >= minMinutes && (maxMinutes === null || m < maxMinutes)).length
+    }
+  })
+}
+
+// 저장소의 리드 타임 P90 -> 오래 머문 드래프트 기준 (분)
+export function longDraftThreshold(p90: number | null): number {
+  return Math.max(LONG_DRAFT_MIN_MINUTES, (p90 ?? 0) * LONG_DRAFT_P90_FACTOR)
+}
@@ -0,0 +1,28 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>
+
+const SALT_BYTES = 16
+const KEY_LENGTH = 64
+
+// 저장 형식: scrypt$<salt(base64)>$<hash(base64)>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`
+}
+
+// 형식이 맞지 않는 해시는 항상 불일치로 처리한다
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'base64')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
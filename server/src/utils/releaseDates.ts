@@ -0,0 +1,26 @@
+import { getWeek, parseISO } from 'date-fns'
+import { toLocalDateParts } from './timezone'
+
+// published_at에서 집계용 컬럼(요일/날짜/연/월/주차) 계산
+// 머신 시간대와 무관하게 설정된 보고 시간대(REPORT_TIMEZONE) 기준 날짜로 나눈다
+export function derivePublishedColumns(publishedAt: string | null, timezone: string) {
+  if (!publishedAt) {
+    return {
+      publishedWeekday: null,
+      publishedDate: null,
+      publishedYear: null,
+      publishedMonth: null,
+      publishedWeek: null
+    }
+  }
+
+  const { date, weekday } = toLocalDateParts(publishedAt, timezone)
+  return {
+    publishedWeekday: weekday,
+    publishedDate: date,
+    publishedYear: date.slice(0, 4),
+    publishedMonth: date.slice(5, 7),
+    // 날짜만 있는 문자열이라 어느 머신에서든 같은 달력 날짜의 주차가 나온다
+    publishedWeek: getWeek(parseISO(date))
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { parseReleaseNotes, releaseNoteColumns } from './releaseNotes'
+
+const CHANGESETS_BODY = [
+  '## 1.2.0',
+  '',
+  '### Minor Changes',
+  '',
+  '- 371a39c: feat: useFlow 훅 추가 (#120)',
+  '',
+  '### Patch Changes',
+  '',
+  '- [a1b2c3d](https://github.com/daangn/stackflow/commit/a1b2c3d): 뒤로가기 오류 수정 (#121)',
+  '- Updated dependencies [371a39c]',
+  '  - @stackflow/core@1.2.0'
+].join('\n')
+
+describe('parseReleaseNotes', () => {
+  it('Changesets 불릿의 커밋 해시 접두사를 떼고 섹션으로 분류한다', () => {
+    const parsed = parseReleaseNotes(CHANGESETS_BODY)
+
+    expect(parsed.entries).toEqual([
+      {
+        category: 'feature',
+        text: 'feat: useFlow 훅 추가 (#120)',
+        section: 'Minor Changes',
+        pullRequests: [120]
+      },
+      {
+        category: 'fix',
+        text: '뒤로가기 오류 수정 (#121)',
+        section: 'Patch Changes',
+        pullRequests: [121]
+      },
+      {
+        category: 'dependency',
+        text: 'Updated dependencies [371a39c]',
+        section: 'Patch Changes',
+        pullRequests: []
+      }
+    ])
+    expect(parsed.counts).toEqual({ features: 1, fixes: 1, breakingChanges: 0, other: 0 })
+    expect(parsed.pullRequests).toEqual([120, 121])
+  })
+
+  it('Major Changes 섹션, ! 표시, BREAKING CHANGE 문구를 breaking으로 본다', () => {
+    const parsed = parseReleaseNotes(
+      [
+        '### Major Changes',
+        '- 9f8e7d6: fix: Node 16 지원 종료',
+        '',
+        '### Features',
+        '- feat(core)!: 플러그인 API 변경',
+        '- chore: BREAKING CHANGE 설정 파일 이름 변경',
+        '- feat: 새 옵션'
+      ].join('\n')
+    )
+
+    expect(parsed.entries.map(e => e.category)).toEqual([
+      'breaking',
+      'breaking',
+      'breaking',
+      'feature'
+    ])
+    expect(parsed.counts.breakingChanges).toBe(3)
+  })
+
+  it('Keep a Changelog 섹션과 본문 안의 PR 링크를 인식한다', () => {
+    const parsed = parseReleaseNotes(
+      [
+        '## [1.0.1] - 2024-05-01',
+        '### Fixed',
+        '* 메모리 누수 (https://github.com/o/r/pull/130)',
+        '### Removed',
+        '* 구 API',
+        '',
+        'Full changelog: https://github.com/o/r/pull/131'
+      ].join('\n')
+    )
+
+    expect(parsed.counts).toEqual({ features: 0, fixes: 1, breakingChanges: 1, other: 0 })
+    expect(parsed.pullRequests).toEqual([130, 131])
+  })
+
+  it('빈 본문이면 항목이 없다', () => {
+    expect(parseReleaseNotes(null)).toEqual({
+      entries: [],
+      counts: { features: 0, fixes: 0, breakingChanges: 0, other: 0 },
+      pullRequests: []
+    })
+  })
+})
+
+describe('releaseNoteColumns', () => {
+  it('저장 컬럼 값으로 집계한다', () => {
+    expect(releaseNoteColumns(CHANGESETS_BODY)).toEqual({
+      featureCount: 1,
+      fixCount: 1,
+      breakingCount: 0,
+      pullRequestCount: 2
+    })
+  })
+})
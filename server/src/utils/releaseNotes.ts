@@ -0,0 +1,136 @@
+// 릴리즈 노트(body) 파서
+// Changesets(### Patch Changes), Keep a Changelog(### Added), conventional commit 불릿과
+// PR 참조(#123, /pull/123)를 인식해 변경 항목을 분류한다.
+
+export type ChangeCategory = 'feature' | 'fix' | 'breaking' | 'dependency' | 'other'
+
+export interface ChangeEntry {
+  category: ChangeCategory
+  text: string
+  section: string | null
+  pullRequests: number[]
+}
+
+export interface ParsedReleaseNotes {
+  entries: ChangeEntry[]
+  counts: {
+    features: number
+    fixes: number
+    breakingChanges: number
+    other: number
+  }
+  pullRequests: number[]
+}
+
+// 섹션 제목 -> 기본 분류
+const SECTION_CATEGORIES: [RegExp, ChangeCategory][] = [
+  [/breaking/i, 'breaking'],
+  [/^major changes?$/i, 'breaking'],
+  [/^removed$/i, 'breaking'],
+  [/^minor changes?$/i, 'feature'],
+  [/^(added|features?|new features?)$/i, 'feature'],
+  [/^patch changes?$/i, 'fix'],
+  [/^(fixed|bug fixes|fixes|security)$/i, 'fix']
+]
+
+// conventional commit 타입 -> 분류
+const COMMIT_TYPE_CATEGORIES: Record<string, ChangeCategory> = {
+  feat: 'feature',
+  feature: 'feature',
+  fix: 'fix',
+  bugfix: 'fix',
+  hotfix: 'fix'
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*$/
+const BULLET_PATTERN = /^([-*+]|\d+\.)\s+(.*)$/
+// changesets 불릿 앞의 커밋 해시 (예: "371a39c: fix: ...")
+const COMMIT_HASH_PREFIX = /^\[?[0-9a-f]{7,40}\]?(?:\([^)]*\))?:\s*/i
+const CONVENTIONAL_COMMIT = /^(\w+)(?:\([^)]*\))?(!)?:\s+/
+const PULL_REQUEST_REF = /(?:^|[\s(\[])#(\d+)\b|\/pull\/(\d+)\b/g
+
+function extractPullRequests(text: string): number[] {
+  const numbers = new Set<number>()
+  for (const match of text.matchAll(PULL_REQUEST_REF)) {
+    numbers.add(Number(match[1] ?? match[2]))
+  }
+  return [...numbers]
+}
+
+function sectionCategory(section: string | null): ChangeCategory {
+  if (!section) return 'other'
+  const found = SECTION_CATEGORIES.find(([pattern]) => pattern.test(section))
+  return found ? found[1] : 'other'
+}
+
+function categorize(text: string, section: string | null): ChangeCategory {
+  if (/^updated dependencies/i.test(text)) return 'dependency'
+  if (/BREAKING[ -]CHANGE/.test(text)) return 'breaking'
+
+  const commit = CONVENTIONAL_COMMIT.exec(text)
+  if (commit) {
+    if (commit[2]) return 'breaking'
+    const category = COMMIT_TYPE_CATEGORIES[commit[1].toLowerCase()]
+    // 섹션이 더 강한 신호(예: Major Changes 아래의 fix)면 섹션 분류를 따른다
+    const fromSection = sectionCategory(section)
+    if (fromSection === 'breaking') return 'breaking'
+    return category ?? 'other'
+  }
+
+  return sectionCategory(section)
+}
+
+// 릴리즈 body -> 분류된 변경 항목
+export function parseReleaseNotes(body: string | null | undefined): ParsedReleaseNotes {
+  const entries: ChangeEntry[] = []
+  let section: string | null = null
+
+  for (const rawLine of (body ?? '').split(/\r?\n/)) {
+    const heading = HEADING_PATTERN.exec(rawLine.trim())
+    if (heading) {
+      section = heading[1].replace(/\[([^\]]+)\]\([^)]*\)/g, '$1').trim()
+      continue
+    }
+
+    // 들여쓴 하위 불릿(의존성 목록 등)은 상위 항목에 속한 것으로 보고 건너뛴다
+    const indent = rawLine.length - rawLine.trimStart().length
+    const bullet = BULLET_PATTERN.exec(rawLine.trim())
+    if (!bullet || indent >= 2) continue
+
+    const text = bullet[2].replace(COMMIT_HASH_PREFIX, '').trim()
+    if (!text) continue
+
+    entries.push({
+      category: categorize(text, section),
+      text,
+      section,
+      pullRequests: extractPullRequests(bullet[2])
+    })
+  }
+
+  const count = (category: ChangeCategory) => entries.filter(e => e.category === category).length
+
+  return {
+    entries,
+    counts: {
+      features: count('feature'),
+      fixes: count('fix'),
+      breakingChanges: count('breaking'),
+      other: count('other')
+    },
+    pullRequests: [
+      ...new Set([...entries.flatMap(e => e.pullRequests), ...extractPullRequests(body ?? '')])
+    ]
+  }
+}
+
+// releases 테이블에 저장하는 변경 항목 집계 컬럼
+export function releaseNoteColumns(body: string | null | undefined) {
+  const parsed = parseReleaseNotes(body)
+  return {
+    featureCount: parsed.counts.features,
+    fixCount: parsed.counts.fixes,
+    breakingCount: parsed.counts.breakingChanges,
+    pullRequestCount: parsed.pullRequests.length
+  }
+}
@@ -1,4 +1,4 @@
-import { ApiResponse, PaginatedResponse } from '../types'
+import { ApiResponse, FieldError, PaginatedResponse } from '../types'
 
 // 성공 응답 생성 함수
 export function createSuccessResponse<T>(data: T, message?: string): ApiResponse<T> {
@@ -17,6 +17,15 @@ export function createErrorResponse(error: string): ApiResponse {
   }
 }
 
+// 요청 검증 에러 응답 생성 함수
+export function createValidationErrorResponse(errors: FieldError[]): ApiResponse {
+  return {
+    success: false,
+    error: '요청 값이 올바르지 않습니다.',
+    errors
+  }
+}
+
 // 페이지네이션 응답 생성 함수
 export function createPaginatedResponse<T>(
   data: T[],
@@ -39,5 +48,6 @@ export function createPaginatedResponse<T>(
 export default {
   createSuccessResponse,
   createErrorResponse,
+  createValidationErrorResponse,
   createPaginatedResponse
 }
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { ParsedVersion, classifyBump, compareVersions, parseReleaseTag } from './semver'
+
+const parse = (tag: string) => parseReleaseTag(tag) as ParsedVersion
+
+describe('parseReleaseTag', () => {
+  it('모노레포 태그에서 패키지 이름과 버전을 나눈다', () => {
+    expect(parseReleaseTag('@stackflow/react@1.2.3')).toEqual({
+      packageName: '@stackflow/react',
+      version: '1.2.3',
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: []
+    })
+    expect(parseReleaseTag('pkg@0.10.0-beta.1')).toMatchObject({
+      packageName: 'pkg',
+      version: '0.10.0-beta.1',
+      prerelease: ['beta', '1']
+    })
+  })
+
+  it('단일 패키지 태그는 v 접두사와 빌드 메타데이터를 허용한다', () => {
+    expect(parseReleaseTag('v2.0.0+build.5')).toMatchObject({
+      packageName: null,
+      version: '2.0.0',
+      major: 2
+    })
+    expect(parseReleaseTag(' 1.0.0 ')).toMatchObject({ packageName: null, version: '1.0.0' })
+  })
+
+  it('semver 형식이 아니면 null', () => {
+    expect(parseReleaseTag('release-2024-01')).toBeNull()
+    expect(parseReleaseTag('v1.2')).toBeNull()
+    expect(parseReleaseTag('v01.2.3')).toBeNull()
+    expect(parseReleaseTag('@scope/pkg@')).toBeNull()
+  })
+})
+
+describe('compareVersions', () => {
+  it('semver 우선순위대로 prerelease를 정렬한다', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.1',
+      '1.1.0',
+      '2.0.0'
+    ]
+    const shuffled = [...ordered].reverse().map(parse)
+    expect(shuffled.sort(compareVersions).map(v => v.version)).toEqual(ordered)
+  })
+
+  it('같은 버전이면 0', () => {
+    expect(compareVersions(parse('pkg@1.2.3-rc.1'), parse('v1.2.3-rc.1'))).toBe(0)
+  })
+})
+
+describe('classifyBump', () => {
+  it('직전 정식 버전 대비 올라간 자리를 판정한다', () => {
+    expect(classifyBump(parse('1.0.0'), null)).toBe('initial')
+    expect(classifyBump(parse('2.0.0'), parse('1.9.9'))).toBe('major')
+    expect(classifyBump(parse('1.3.0'), parse('1.2.9'))).toBe('minor')
+    expect(classifyBump(parse('1.2.4'), parse('1.2.3'))).toBe('patch')
+  })
+
+  it('prerelease는 직전 버전과 관계없이 prerelease', () => {
+    expect(classifyBump(parse('2.0.0-beta.1'), parse('1.0.0'))).toBe('prerelease')
+    expect(classifyBump(parse('1.0.0-rc.1'), null)).toBe('prerelease')
+  })
+})
@@ -0,0 +1,72 @@
+// 릴리즈 태그의 semver 파싱/비교 유틸
+
+export interface ParsedVersion {
+  // 모노레포 태그(@scope/pkg@1.2.3, pkg@1.2.3)의 패키지 이름, 단일 패키지 태그(v1.2.3)는 null
+  packageName: string | null
+  version: string
+  major: number
+  minor: number
+  patch: number
+  prerelease: string[]
+}
+
+export type VersionBump = 'initial' | 'major' | 'minor' | 'patch' | 'prerelease'
+
+const TAG_PATTERN =
+  /^(?:((?:@[^/@\s]+\/)?[^@\s]+)@)?v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+
+// 태그 문자열 -> 버전 (semver 형식이 아니면 null)
+export function parseReleaseTag(tag: string): ParsedVersion | null {
+  const match = TAG_PATTERN.exec(tag.trim())
+  if (!match) return null
+
+  const [, packageName, major, minor, patch, prerelease] = match
+  const version = `${major}.${minor}.${patch}${prerelease ? `-${prerelease}` : ''}`
+  return {
+    packageName: packageName ?? null,
+    version,
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease ? prerelease.split('.') : []
+  }
+}
+
+// prerelease 식별자 비교 (숫자 식별자는 숫자로, 나머지는 문자열로 비교)
+function comparePrerelease(a: string[], b: string[]): number {
+  if (!a.length || !b.length) return b.length - a.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1
+    if (b[i] === undefined) return 1
+    const aNum = /^\d+$/.test(a[i])
+    const bNum = /^\d+$/.test(b[i])
+    if (aNum && bNum && Number(a[i]) !== Number(b[i])) return Number(a[i]) - Number(b[i])
+    if (aNum !== bNum) return aNum ? -1 : 1
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1
+  }
+  return 0
+}
+
+// semver 우선순위 비교
+export function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  )
+}
+
+// 직전 정식 버전 대비 어떤 자리가 올라갔는지 판정
+export function classifyBump(
+  version: ParsedVersion,
+  previousStable: ParsedVersion | null
+): VersionBump {
+  if (version.prerelease.length) return 'prerelease'
+  if (!previousStable) return 'initial'
+  if (version.major > previousStable.major) return 'major'
+  if (version.major === previousStable.major && version.minor > previousStable.minor) {
+    return 'minor'
+  }
+  return 'patch'
+}
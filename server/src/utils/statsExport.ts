@@ -0,0 +1,174 @@
+// 대시보드 통계를 CSV / JSON / XLSX로 내보내기
+// 통계 하나를 표 하나(섹션)로 펼치고, CSV는 섹션 제목으로 구분, XLSX는 섹션마다 시트를 만든다
+import { createObjectCsvStringifier } from 'csv-writer'
+import ExcelJS from 'exceljs'
+import { StatsExportFormat } from '../types'
+import type { DashboardStats } from '../services/dashboardService'
+
+type Cell = string | number | boolean | null
+type Row = Record<string, Cell>
+
+export interface StatsSection {
+  // XLSX 시트 이름으로도 쓰므로 31자 이하, []:*?/\ 없이
+  name: string
+  // 값이 모두 Cell인 평평한 객체
+  rows: object[]
+}
+
+export interface StatsExportFile {
+  filename: string
+  contentType: string
+  body: string | Buffer
+}
+
+const CONTENT_TYPES: Record<StatsExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+// 엑셀에서 한글이 깨지지 않도록 CSV 앞에 붙이는 BOM
+const UTF8_BOM = '\uFEFF'
+
+// 키/값 쌍 -> 세로 표
+const keyValueRows = (values: Record<string, Cell>): Row[] =>
+  Object.entries(values).map(([key, value]) => ({ key, value }))
+
+// counts 같은 중첩 객체를 열로 펼친다 ({ period, counts: { a: 1 } } -> { period, a: 1 })
+const spreadCounts = <T extends { counts: Record<string, number> }>(
+  rows: T[],
+  rename: (key: string) => string = key => key
+): Row[] =>
+  rows.map(({ counts, ...rest }) => ({
+    ...(rest as Row),
+    ...Object.fromEntries(Object.entries(counts).map(([key, count]) => [rename(key), count]))
+  }))
+
+export function statsSections(stats: DashboardStats): StatsSection[] {
+  const { authorStats, assetStats, leadTime, versionStats, comparison } = stats
+
+  const sections: StatsSection[] = [
+    {
+      name: 'summary',
+      rows: keyValueRows({
+        timezone: stats.timezone,
+        includeWeekends: stats.includeWeekends,
+        avgReleaseIntervalDays: stats.avgReleaseInterval,
+        workingDayIntervalDays: stats.releaseIntervals.workingDays,
+        medianGapDays: stats.cadence.summary.median,
+        p90GapDays: stats.cadence.summary.p90,
+        medianLeadTimeMinutes: leadTime.summary.median,
+        p90LeadTimeMinutes: leadTime.summary.p90,
+        offHoursReleases: stats.offHours.offHours,
+        totalReleases: stats.offHours.total
+      })
+    },
+    { name: 'years', rows: stats.yearStats },
+    {
+      name: 'months',
+      rows: Object.entries(stats.monthStats).flatMap(([year, months]) =>
+        months.map(month => ({ year, ...month }))
+      )
+    },
+    { name: 'weekdays', rows: stats.weekdayStats },
+    { name: 'release_types', rows: stats.releaseTypeStats },
+    { name: 'top3_months', rows: stats.top3Months },
+    { name: 'cadence_repos', rows: stats.cadence.repos },
+    { name: 'cadence_rolling', rows: stats.cadence.rolling },
+    { name: 'cadence_histogram', rows: stats.cadence.histogram },
+    { name: 'off_hours', rows: keyValueRows({ ...stats.offHours }) },
+    { name: 'version_bumps', rows: versionStats.bumpsByMonth },
+    { name: 'latest_versions', rows: versionStats.latestVersions },
+    {
+      name: 'major_intervals',
+      rows: versionStats.majorIntervals.map(({ majorReleases, ...row }) => ({
+        ...row,
+        majorReleases: majorReleases.map(major => major.version).join(', ')
+      }))
+    },
+    { name: 'change_composition', rows: stats.changeComposition },
+    { name: 'authors', rows: authorStats.leaderboard },
+    {
+      name: 'authors_monthly',
+      rows: spreadCounts(authorStats.monthly, key => (key === '__others__' ? 'others' : key))
+    },
+    { name: 'bus_factor', rows: authorStats.busFactor },
+    { name: 'asset_sizes', rows: assetStats.sizeByPeriod },
+    {
+      name: 'asset_types',
+      rows: assetStats.typesByPlatform.flatMap(platform =>
+        platform.types.map(type => ({ platform: platform.platform, ...type }))
+      )
+    },
+    { name: 'releases_without_assets', rows: assetStats.withoutAssets.recent },
+    { name: 'lead_time_repos', rows: leadTime.byRepo },
+    { name: 'lead_time_types', rows: leadTime.byType },
+    { name: 'lead_time_histogram', rows: leadTime.histogram },
+    { name: 'long_drafts', rows: leadTime.longDrafts },
+    { name: 'open_drafts', rows: leadTime.openDrafts }
+  ]
+
+  if (comparison) {
+    sections.push(
+      { name: 'compare_years', rows: spreadCounts(comparison.yearStats) },
+      {
+        name: 'compare_months',
+        rows: Object.entries(comparison.monthStats).flatMap(([year, months]) =>
+          spreadCounts(months).map(month => ({ year, ...month }))
+        )
+      },
+      {
+        name: 'compare_repos',
+        rows: comparison.repoStats.map(({ releaseTypes, ...row }) => ({ ...row, ...releaseTypes }))
+      }
+    )
+  }
+
+  return sections
+}
+
+// 섹션의 모든 행에 나오는 열 (처음 나온 순서)
+const sectionColumns = (rows: object[]) => [...new Set(rows.flatMap(row => Object.keys(row)))]
+
+const toCsv = (sections: StatsSection[]) =>
+  UTF8_BOM +
+  sections
+    .map(section => {
+      const columns = sectionColumns(section.rows)
+      if (columns.length === 0) return `# ${section.name}\n`
+      const stringifier = createObjectCsvStringifier({
+        header: columns.map(id => ({ id, title: id }))
+      })
+      return `# ${section.name}\n${stringifier.getHeaderString()}${stringifier.stringifyRecords(section.rows as Row[])}`
+    })
+    .join('\n')
+
+const toXlsx = async (sections: StatsSection[]) => {
+  const workbook = new ExcelJS.Workbook()
+  for (const section of sections) {
+    const sheet = workbook.addWorksheet(section.name)
+    const columns = sectionColumns(section.rows)
+    sheet.columns = columns.map(key => ({ header: key, key, width: Math.max(12, key.length + 2) }))
+    sheet.addRows(section.rows)
+    sheet.getRow(1).font = { bold: true }
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
+
+export async function exportStats(
+  stats: DashboardStats,
+  format: StatsExportFormat
+): Promise<StatsExportFile> {
+  const sections = statsSections(stats)
+  const filename = `release-stats.${format}`
+  const contentType = CONTENT_TYPES[format]
+
+  if (format === 'json') {
+    const body = Object.fromEntries(sections.map(section => [section.name, section.rows]))
+    return { filename, contentType, body: JSON.stringify(body, null, 2) }
+  }
+  if (format === 'xlsx') {
+    return { filename, contentType, body: await toXlsx(sections) }
+  }
+  return { filename, contentType, body: toCsv(sections) }
+}
@@ -0,0 +1,53 @@
+// IANA 시간대 기준 날짜 계산 유틸 (Intl 사용, 머신 시간대와 무관)
+
+export interface LocalDateParts {
+  // YYYY-MM-DD
+  date: string
+  // Monday ~ Sunday
+  weekday: string
+  // 0 ~ 23
+  hour: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'long',
+      hour: '2-digit',
+      hourCycle: 'h23'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+// 유효한 IANA 시간대 이름인지 확인
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ISO 시각 -> 해당 시간대의 날짜/요일/시
+export function toLocalDateParts(iso: string, timeZone: string): LocalDateParts {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(new Date(iso))
+      .map(part => [part.type, part.value])
+  )
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday,
+    hour: Number(parts.hour)
+  }
+}
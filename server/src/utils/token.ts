@@ -0,0 +1,7 @@
+import { createHash, randomBytes } from 'crypto'
+
+// 추측할 수 없는 무작위 토큰 (URL/헤더에 그대로 쓸 수 있는 base64url)
+export const generateToken = (bytes = 32) => randomBytes(bytes).toString('base64url')
+
+// DB에는 토큰 원문 대신 해시를 저장한다
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
@@ -0,0 +1,40 @@
+// 근무 캘린더(주말 요일 + 공휴일 + 근무 시간) 기준 날짜 계산
+
+export interface WorkingCalendar {
+  weekendDays: string[]
+  workdayStartHour: number
+  workdayEndHour: number
+  // YYYY-MM-DD
+  holidays: Set<string>
+}
+
+export const WEEKDAY_NAMES = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday'
+]
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// YYYY-MM-DD -> 요일 이름 (날짜 문자열 자체의 요일이므로 시간대와 무관)
+const weekdayOf = (date: string) =>
+  WEEKDAY_NAMES[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7]
+
+export function isWorkingDay(date: string, calendar: WorkingCalendar): boolean {
+  return !calendar.weekendDays.includes(weekdayOf(date)) && !calendar.holidays.has(date)
+}
+
+// from 다음 날부터 to까지(from < d <= to) 근무일 수
+export function countWorkingDays(from: string, to: string, calendar: WorkingCalendar): number {
+  const start = new Date(`${from}T00:00:00Z`).getTime()
+  const end = new Date(`${to}T00:00:00Z`).getTime()
+  let count = 0
+  for (let time = start + DAY_MS; time <= end; time += DAY_MS) {
+    if (isWorkingDay(new Date(time).toISOString().slice(0, 10), calendar)) count += 1
+  }
+  return count
+}